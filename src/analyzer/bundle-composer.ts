@@ -0,0 +1,230 @@
+import {
+  BundleComposition,
+  Rule,
+  RuleAllocation,
+  RuleSection,
+  ScenarioContext,
+  TokenEstimator,
+} from '../types/rule.js';
+import { flattenSections } from '../utils/markdown.js';
+import { tokenize } from '../search/tokenizer.js';
+
+// Between the sections of a rule in its composed content
+const SECTION_SEPARATOR = '\n\n';
+
+interface SectionUnit {
+  rule: Rule;
+  section: RuleSection;
+  ancestors: RuleSection[];
+  order: number;
+  value: number;
+  tokens: number;
+}
+
+/**
+ * Approximate the number of model tokens in a piece of text. `chars` assumes
+ * roughly four characters per token; `words` assumes four tokens per three words.
+ */
+export function estimateTokens(text: string, estimator: TokenEstimator = 'chars'): number {
+  if (estimator === 'words') {
+    const words = text.split(/\s+/).filter((word) => word.length > 0).length;
+    return Math.ceil((words * 4) / 3);
+  }
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Pack the highest-value sections of the given rules into a token budget.
+ *
+ * Each section with its own text is a unit, valued by the weight of its rule
+ * times its relevance to the context. Units are taken greedily by value;
+ * a unit that does not fit is skipped so smaller ones can still fill the
+ * remaining budget. Headings of enclosing sections are emitted (and counted)
+ * so that included text keeps its context.
+ *
+ * While packing, each unit and heading is estimated on its own, separator
+ * included, which never underestimates the text they make up together. The
+ * tokens reported for a rule are then estimated once from its composed
+ * content, so they never exceed the estimate for the whole rule.
+ */
+export function composeBundle(
+  rules: Rule[],
+  context: ScenarioContext,
+  maxTokens: number,
+  ruleWeight: (rule: Rule) => number
+): BundleComposition {
+  const estimator = context.tokenEstimator || 'chars';
+  const keywords = contextKeywords(context);
+
+  const units: SectionUnit[] = [];
+  rules.forEach((rule) => {
+    const weight = ruleWeight(rule);
+    const ancestry = new Map<RuleSection, RuleSection[]>();
+
+    for (const section of rule.sections) {
+      collectAncestry(section, [], ancestry);
+    }
+
+    flattenSections(rule.sections).forEach(({ section, headingPath }, order) => {
+      if (section.body.length === 0) {
+        return;
+      }
+      units.push({
+        rule,
+        section,
+        ancestors: ancestry.get(section) || [],
+        order,
+        value: weight * sectionRelevance(section, headingPath, keywords),
+        tokens: estimateTokens(renderSection(section, true) + SECTION_SEPARATOR, estimator),
+      });
+    });
+  });
+
+  // Highest value first; earlier sections and earlier rules break ties
+  const ranked = [...units].sort(
+    (a, b) => b.value - a.value || rules.indexOf(a.rule) - rules.indexOf(b.rule) || a.order - b.order
+  );
+
+  const included = new Set<RuleSection>();
+  const emittedHeadings = new Set<RuleSection>();
+  let packedTokens = 0;
+
+  for (const unit of ranked) {
+    const missingHeadings = unit.ancestors.filter((ancestor) => !emittedHeadings.has(ancestor));
+    const cost =
+      unit.tokens +
+      missingHeadings.reduce(
+        (sum, ancestor) => sum + estimateTokens(renderSection(ancestor, false) + SECTION_SEPARATOR, estimator),
+        0
+      );
+
+    if (packedTokens + cost > maxTokens) {
+      continue;
+    }
+
+    packedTokens += cost;
+    included.add(unit.section);
+    emittedHeadings.add(unit.section);
+    missingHeadings.forEach((ancestor) => emittedHeadings.add(ancestor));
+  }
+
+  const allocations: RuleAllocation[] = rules.map((rule) => {
+    const ruleUnits = units.filter((unit) => unit.rule === rule);
+    const kept = ruleUnits.filter((unit) => included.has(unit.section));
+    const dropped = ruleUnits.filter((unit) => !included.has(unit.section));
+
+    let status: RuleAllocation['status'];
+    let reason: string;
+    if (ruleUnits.length === 0) {
+      status = 'omitted';
+      reason = 'Rule has no content';
+    } else if (dropped.length === 0) {
+      status = 'included';
+      reason = `All ${ruleUnits.length} sections fit within the budget`;
+    } else if (kept.length > 0) {
+      status = 'truncated';
+      reason = `${kept.length} of ${ruleUnits.length} sections fit; lower-value sections were dropped`;
+    } else {
+      status = 'omitted';
+      reason = 'No section fit in the remaining budget after higher-value sections';
+    }
+
+    const content = renderSections(
+      rule,
+      (section) => emittedHeadings.has(section),
+      (section) => included.has(section)
+    );
+    const whole = renderSections(
+      rule,
+      (section) => section.level > 0 || section.body.length > 0,
+      (section) => section.body.length > 0
+    );
+
+    return {
+      ruleId: rule.metadata.id,
+      status,
+      reason,
+      tokens: content ? estimateTokens(content, estimator) : 0,
+      totalTokens: estimateTokens(whole, estimator),
+      includedSections: kept.map((unit) => unit.section.anchor),
+      omittedSections: dropped.map((unit) => unit.section.anchor),
+      content,
+    };
+  });
+
+  return {
+    maxTokens,
+    usedTokens: allocations.reduce((sum, allocation) => sum + allocation.tokens, 0),
+    tokenEstimator: estimator,
+    allocations,
+  };
+}
+
+function collectAncestry(
+  section: RuleSection,
+  ancestors: RuleSection[],
+  ancestry: Map<RuleSection, RuleSection[]>
+): void {
+  ancestry.set(section, ancestors);
+  const childAncestors = section.level > 0 ? [...ancestors, section] : ancestors;
+  for (const child of section.children) {
+    collectAncestry(child, childAncestors, ancestry);
+  }
+}
+
+// The given sections of a rule in document order, with or without their bodies
+function renderSections(
+  rule: Rule,
+  emitted: (section: RuleSection) => boolean,
+  withBody: (section: RuleSection) => boolean
+): string {
+  return flattenSections(rule.sections)
+    .filter(({ section }) => emitted(section))
+    .map(({ section }) => renderSection(section, withBody(section)))
+    .join(SECTION_SEPARATOR);
+}
+
+function renderSection(section: RuleSection, withBody: boolean): string {
+  const heading = section.level > 0 ? `${'#'.repeat(section.level)} ${section.heading}` : '';
+  if (!withBody) {
+    return heading;
+  }
+  return heading ? `${heading}\n\n${section.body}` : section.body;
+}
+
+function contextKeywords(context: ScenarioContext): Set<string> {
+  const words = [
+    context.type,
+    context.language,
+    context.framework,
+    context.environment,
+    ...(context.priorities || []),
+  ].filter((word): word is string => Boolean(word));
+
+  return new Set(words.flatMap((word) => tokenize(word)));
+}
+
+/**
+ * Relevance multiplier for a section: headings naming a context keyword
+ * count most, mentions in the body a little, and introductory text under
+ * the title is kept as orientation
+ */
+function sectionRelevance(section: RuleSection, headingPath: string[], keywords: Set<string>): number {
+  const headingTerms = new Set(tokenize(headingPath.join(' ')));
+  const bodyTerms = new Set(tokenize(section.body));
+
+  let relevance = 1;
+  for (const keyword of keywords) {
+    if (headingTerms.has(keyword)) {
+      relevance += 2;
+    } else if (bodyTerms.has(keyword)) {
+      relevance += 0.5;
+    }
+  }
+
+  if (section.level <= 1) {
+    relevance += 0.5;
+  }
+
+  return relevance;
+}
@@ -0,0 +1,106 @@
+import { Rule, RuleScore, RuleScoreReason, ScenarioContext } from '../types/rule.js';
+import { canonicalLanguage } from '../utils/rule-classifier.js';
+
+// Weights of each scoring factor; negative weights push a rule down
+const WEIGHTS = {
+  category: 3,
+  general: 1,
+  language: 4,
+  universalLanguage: 0.5,
+  languageMismatch: -3,
+  framework: 3,
+  frameworkMention: 1.5,
+  priorityTag: 1.5,
+  scenario: 2,
+  environment: 1.5,
+  complexityFit: 1,
+  complexityMismatch: -1,
+  critical: 2,
+  high: 1,
+  low: -0.5,
+};
+
+const COMPLEXITY_DIFFICULTIES: Record<NonNullable<ScenarioContext['complexity']>, {
+  preferred: string[];
+  mismatched: string[];
+}> = {
+  simple: { preferred: ['beginner', 'intermediate'], mismatched: ['advanced', 'expert'] },
+  moderate: { preferred: ['intermediate', 'advanced'], mismatched: [] },
+  complex: { preferred: ['advanced', 'expert'], mismatched: ['beginner'] },
+};
+
+/**
+ * Score how relevant a rule is to a scenario, with the reason for every
+ * factor that contributed to the score
+ */
+export function scoreRule(rule: Rule, context: ScenarioContext): RuleScore {
+  const reasons: RuleScoreReason[] = [];
+  const add = (factor: string, weight: number, description: string) => {
+    reasons.push({ factor, weight, description });
+  };
+
+  const { metadata } = rule;
+  const languages = Array.isArray(metadata.language) ? metadata.language : [metadata.language];
+  const tags = metadata.tags.map((tag) => tag.toLowerCase());
+  const applicability = metadata.applicability || {};
+
+  if (metadata.category === context.type) {
+    add('category', WEIGHTS.category, `In the "${context.type}" category`);
+  } else if (metadata.category === 'general') {
+    add('category', WEIGHTS.general, 'General rule that applies to every task');
+  }
+
+  if (context.language) {
+    const language = canonicalLanguage(context.language);
+    if (languages.includes(language)) {
+      add('language', WEIGHTS.language, `Written for ${context.language}`);
+    } else if (languages.includes('universal')) {
+      add('language', WEIGHTS.universalLanguage, 'Language-agnostic');
+    } else if (!(context.languages || []).some((other) => languages.includes(canonicalLanguage(other)))) {
+      add('language', WEIGHTS.languageMismatch, `Written for ${languages.join(', ')}, not ${context.language}`);
+    }
+  }
+
+  if (context.framework) {
+    const framework = context.framework.toLowerCase();
+    if (applicability.frameworks?.some((f) => f.toLowerCase() === framework)) {
+      add('framework', WEIGHTS.framework, `Applies to the ${context.framework} framework`);
+    } else if (tags.includes(framework) || metadata.title.toLowerCase().includes(framework)) {
+      add('framework', WEIGHTS.frameworkMention, `Mentions ${context.framework}`);
+    }
+  }
+
+  for (const priority of context.priorities || []) {
+    if (tags.includes(priority)) {
+      add('priority-tag', WEIGHTS.priorityTag, `Tagged "${priority}", a requested priority`);
+    }
+  }
+
+  if (context.scenario && applicability.scenarios?.includes(context.scenario)) {
+    add('scenario', WEIGHTS.scenario, `Written for the "${context.scenario}" scenario`);
+  }
+
+  if (context.environment && applicability.environments?.includes(context.environment)) {
+    add('environment', WEIGHTS.environment, `Applies to ${context.environment} environments`);
+  }
+
+  if (context.complexity && metadata.difficulty) {
+    const fit = COMPLEXITY_DIFFICULTIES[context.complexity];
+    if (fit.preferred.includes(metadata.difficulty)) {
+      add('complexity', WEIGHTS.complexityFit, `${metadata.difficulty} difficulty suits ${context.complexity} work`);
+    } else if (fit.mismatched.includes(metadata.difficulty)) {
+      add('complexity', WEIGHTS.complexityMismatch, `${metadata.difficulty} difficulty is a poor fit for ${context.complexity} work`);
+    }
+  }
+
+  if (metadata.priority === 'critical') {
+    add('rule-priority', WEIGHTS.critical, 'Critical priority');
+  } else if (metadata.priority === 'high') {
+    add('rule-priority', WEIGHTS.high, 'High priority');
+  } else if (metadata.priority === 'low') {
+    add('rule-priority', WEIGHTS.low, 'Low priority');
+  }
+
+  const score = reasons.reduce((sum, reason) => sum + reason.weight, 0);
+  return { score: Math.round(score * 100) / 100, reasons };
+}
@@ -1,19 +1,147 @@
-import { Rule, RuleBundle, ScenarioContext } from '../types/rule.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { Rule, RuleBundle, RuleChangeSet, RuleScore, RuleSection, ScenarioContext } from '../types/rule.js';
+import { SearchHit, SearchOptions } from '../types/search.js';
+import { RuleSource } from '../types/source.js';
+import { BundleDefinition, BundleIssue, DeclaredBundle } from '../types/bundle.js';
+import { loadBundles } from '../bundles/bundle-loader.js';
+import { CachedSection, SearchIndex, SearchIndexCache } from '../search/search-index.js';
+import { RuleGraph } from '../graph/rule-graph.js';
+import { RuleGraphOptions, RuleGraphView } from '../types/graph.js';
 import { RuleLoader } from '../utils/rule-loader.js';
+import { ParseCache } from '../utils/parse-cache.js';
+import { RuleRegistry, RuleRegistryIssue } from '../utils/rule-registry.js';
+import { findSection } from '../utils/markdown.js';
+import { closestMatches } from '../utils/suggestions.js';
+import {
+  canonicalLanguage,
+  CLASSIFICATION_THRESHOLD,
+  classifyRule,
+  inferredLanguage,
+  inferredTags,
+} from '../utils/rule-classifier.js';
+import { InspectedField, RuleInspection } from '../types/inspection.js';
+import { ParsedRuleFile } from '../types/cache.js';
+import { composeBundle } from './bundle-composer.js';
+import { scoreRule } from './relevance-scorer.js';
+import { matchesFilter, queryRules } from './rule-query.js';
+import { RuleQuery, RuleQueryResult } from '../types/query.js';
+
+// Score added to rules pinned in the project configuration
+const PINNED_WEIGHT = 5;
+
+// Recommended rules scoring at or below this are left out, unless pinned or
+// required by another rule
+const MIN_RELEVANCE = 0;
+
+// Project policy applied to recommended and common bundles
+export interface AnalyzerOptions {
+  pinned?: string[];
+  exclude?: {
+    rules?: string[];
+    tags?: string[];
+  };
+  bundles?: Record<string, BundleDefinition>;
+  // Config file the options came from, reported as the origin of its bundles
+  filePath?: string;
+  // On-disk cache of parsed rules and search index sections
+  cache?: ParseCache;
+}
 
 export class RuleAnalyzer {
   private rules: Rule[] = [];
+  private ruleFiles: ParsedRuleFile[] = [];
+  private registry = new RuleRegistry();
+  private searchIndex = new SearchIndex([]);
+  private graph = new RuleGraph([], () => undefined);
   private loader: RuleLoader;
+  private options: AnalyzerOptions;
+  private bundles = new Map<string, DeclaredBundle>();
+  private bundleIssues: BundleIssue[] = [];
+  private pendingReload: Promise<RuleChangeSet> = Promise.resolve({ added: [], removed: [], changed: [] });
 
-  constructor(rulesDir?: string) {
-    this.loader = new RuleLoader(rulesDir);
+  /**
+   * @param sources A rules directory, or rule sources from lowest to highest precedence
+   * @param options Pinned and excluded rules and extra bundles, usually from a config file
+   */
+  constructor(sources?: string | RuleSource[], options: AnalyzerOptions = {}) {
+    this.loader = new RuleLoader(sources, options.cache);
+    this.options = options;
   }
 
   /**
    * Initialize the analyzer by loading all rules
    */
   async initialize(): Promise<void> {
-    this.rules = await this.loader.loadAllRules();
+    this.registry = await this.loader.loadRegistry();
+    this.rules = this.registry.getAll();
+    this.ruleFiles = this.loader.getRuleFiles();
+    this.searchIndex = new SearchIndex(this.rules, this.searchIndexCache());
+    this.graph = new RuleGraph(this.rules, (reference) => this.registry.get(reference));
+    this.refreshBundles();
+    this.options.cache?.save();
+  }
+
+  /**
+   * Re-read the rules directory and swap in the new rules in one step, so
+   * that callers never see a half-loaded set. Unchanged files keep their
+   * Rule objects, which is how changed rules are told apart. Concurrent
+   * calls run one after another.
+   */
+  reload(): Promise<RuleChangeSet> {
+    this.pendingReload = this.pendingReload
+      .catch(() => undefined)
+      .then(async () => {
+        const previous = new Map(this.rules.map((rule) => [rule.metadata.id, rule]));
+        const registry = await this.loader.loadRegistry();
+        const rules = registry.getAll();
+        const ruleFiles = this.loader.getRuleFiles();
+        const searchIndex = new SearchIndex(rules, this.searchIndexCache());
+        const graph = new RuleGraph(rules, (reference) => registry.get(reference));
+        this.options.cache?.save();
+
+        this.registry = registry;
+        this.rules = rules;
+        this.ruleFiles = ruleFiles;
+        this.searchIndex = searchIndex;
+        this.graph = graph;
+        this.refreshBundles();
+
+        const current = new Set(rules.map((rule) => rule.metadata.id));
+        return {
+          added: rules.filter((rule) => !previous.has(rule.metadata.id)).map((rule) => rule.metadata.id),
+          removed: [...previous.keys()].filter((id) => !current.has(id)),
+          changed: rules
+            .filter((rule) => previous.has(rule.metadata.id) && previous.get(rule.metadata.id) !== rule)
+            .map((rule) => rule.metadata.id),
+        };
+      });
+    return this.pendingReload;
+  }
+
+  /**
+   * Index sections cached with the file each rule was loaded from
+   */
+  private searchIndexCache(): SearchIndexCache | undefined {
+    const cache = this.options.cache;
+    if (!cache) {
+      return undefined;
+    }
+
+    const sources = new Map(this.getSources().map((source) => [source.name, source.path]));
+    const filePath = (rule: Rule) => path.join(sources.get(rule.source) ?? '', rule.filePath);
+    return {
+      get: (rule) => cache.getIndexSections(filePath(rule), rule) as CachedSection[] | undefined,
+      set: (rule, sections) => cache.setIndexSections(filePath(rule), rule, sections),
+    };
+  }
+
+  /**
+   * Sources the rules are loaded from, lowest precedence first
+   */
+  getSources(): RuleSource[] {
+    return this.loader.getSources();
   }
 
   /**
@@ -23,32 +151,93 @@ export class RuleAnalyzer {
     return this.rules;
   }
 
+  /**
+   * Every rule file of every source as parsed, before layering: overridden
+   * files and files that extend or disable a rule included
+   */
+  getRuleFiles(): ParsedRuleFile[] {
+    return this.ruleFiles;
+  }
+
+  /**
+   * Get a rule by its canonical id or an unambiguous alias
+   */
+  getRule(ruleId: string): Rule | undefined {
+    return this.registry.get(ruleId);
+  }
+
+  /**
+   * Get a section of a rule by anchor (e.g. `error-handling`) or heading text
+   */
+  getRuleSection(ruleId: string, anchor: string): RuleSection | undefined {
+    const rule = this.getRule(ruleId);
+    return rule ? findSection(rule.sections, anchor) : undefined;
+  }
+
+  /**
+   * Canonical ids matching an id or alias; more than one means the alias is ambiguous
+   */
+  getRuleCandidates(ruleId: string): string[] {
+    return this.registry.getCandidates(ruleId);
+  }
+
+  /**
+   * Rule ids closest to an id or alias that does not resolve, for "did you
+   * mean" hints
+   */
+  suggestRuleIds(reference: string, max = 3): string[] {
+    const idsByName = new Map<string, string>();
+    for (const rule of this.rules) {
+      idsByName.set(rule.metadata.id, rule.metadata.id);
+      (rule.metadata.aliases || []).forEach((alias) => idsByName.set(alias, rule.metadata.id));
+    }
+
+    const ids = closestMatches(reference, [...idsByName.keys()], idsByName.size).map((name) => idsByName.get(name)!);
+    return [...new Set(ids)].slice(0, max);
+  }
+
+  /**
+   * Problems found while registering rules, such as duplicate ids
+   */
+  getLoadIssues(): RuleRegistryIssue[] {
+    return this.registry.getIssues();
+  }
+
+  /**
+   * Full-text search ranked by BM25, one hit per rule
+   */
+  search(query: string, options?: SearchOptions): SearchHit[] {
+    return this.searchIndex.search(query, options);
+  }
+
+  /**
+   * Filter, full-text search, sort and page rules. Filter fields narrow the
+   * result together; this is what list and search commands, tools and
+   * resources are built on.
+   */
+  query(query: RuleQuery = {}): RuleQueryResult {
+    return queryRules(this.rules, query, (text, ruleIds) => this.searchIndex.search(text, { ruleIds }));
+  }
+
   /**
    * Search rules by tags
    */
   searchByTags(tags: string[]): Rule[] {
-    return this.rules.filter((rule) =>
-      tags.some((tag) => rule.metadata.tags.includes(tag))
-    );
+    return this.rules.filter((rule) => matchesFilter(rule, { tags: { any: tags } }));
   }
 
   /**
-   * Search rules by language
+   * Search rules by language or one of its synonyms, e.g. "golang" for go
    */
   searchByLanguage(language: string): Rule[] {
-    return this.rules.filter((rule) => {
-      const ruleLangs = Array.isArray(rule.metadata.language)
-        ? rule.metadata.language
-        : [rule.metadata.language];
-      return ruleLangs.includes(language) || ruleLangs.includes('universal');
-    });
+    return this.rules.filter((rule) => matchesFilter(rule, { language }));
   }
 
   /**
    * Search rules by category
    */
   searchByCategory(category: string): Rule[] {
-    return this.rules.filter((rule) => rule.metadata.category === category);
+    return this.rules.filter((rule) => matchesFilter(rule, { category }));
   }
 
   /**
@@ -70,9 +259,18 @@ export class RuleAnalyzer {
       scenarios.push(`${context.type}-tasks`);
     }
 
-    // Add language-specific rules
+    // Add language-specific rules; language-agnostic ones only from the
+    // categories already chosen
     if (context.language) {
-      const languageRules = this.searchByLanguage(context.language);
+      const language = canonicalLanguage(context.language);
+      const languageRules = this.searchByLanguage(context.language).filter(
+        (rule) =>
+          (Array.isArray(rule.metadata.language) ? rule.metadata.language : [rule.metadata.language])
+            .map(canonicalLanguage)
+            .includes(language) ||
+          rule.metadata.category === 'general' ||
+          rule.metadata.category === context.type
+      );
       recommendedRules.push(...languageRules);
       scenarios.push(`${context.language}-development`);
     }
@@ -97,80 +295,433 @@ export class RuleAnalyzer {
       scenarios.push(`${framework}-framework`);
     }
 
-    // Deduplicate rules
-    const uniqueRules = this.deduplicateRules(recommendedRules);
+    // Pinned rules are always included; excluded ones never are, unless pinned
+    const pinned = this.resolveRules(this.options.pinned || []);
+    recommendedRules.push(...pinned);
+    const pinnedIds = new Set(pinned.map((rule) => rule.metadata.id));
+
+    // Score relevance to the scenario, leaving out rules that do not fit it
+    const candidateScores: Record<string, RuleScore> = {};
+    const relevantRules = this.deduplicateRules(recommendedRules).filter((rule) => {
+      const score = scoreRule(rule, context);
+      if (pinnedIds.has(rule.metadata.id)) {
+        score.reasons.push({ factor: 'pinned', weight: PINNED_WEIGHT, description: 'Pinned in the project configuration' });
+        score.score = Math.round((score.score + PINNED_WEIGHT) * 100) / 100;
+      }
+      candidateScores[rule.metadata.id] = score;
+      return pinnedIds.has(rule.metadata.id) || score.score > MIN_RELEVANCE;
+    });
+
+    // Bring in what the chosen rules build on, remembering who needed it
+    if (context.includePrerequisites) {
+      const chosen = new Set(relevantRules.map((rule) => rule.metadata.id));
+      const requiredBy = new Map<string, string>();
+      for (const id of chosen) {
+        for (const prerequisite of this.graph.getPrerequisites(id)) {
+          if (!chosen.has(prerequisite) && !requiredBy.has(prerequisite)) {
+            requiredBy.set(prerequisite, id);
+            relevantRules.push(this.getRule(prerequisite)!);
+          }
+        }
+      }
+
+      for (const [prerequisite, id] of requiredBy) {
+        const score = candidateScores[prerequisite] || scoreRule(this.getRule(prerequisite)!, context);
+        score.reasons.push({ factor: 'prerequisite', weight: 0, description: `Prerequisite of ${id}` });
+        candidateScores[prerequisite] = score;
+      }
+    }
+    const excludedIds = new Set(this.resolveRules(this.options.exclude?.rules || []).map((rule) => rule.metadata.id));
+    const excludedTags = this.options.exclude?.tags || [];
+
+    const uniqueRules = relevantRules.filter(
+      (rule) =>
+        pinnedIds.has(rule.metadata.id) ||
+        (!excludedIds.has(rule.metadata.id) && !rule.metadata.tags.some((tag) => excludedTags.includes(tag)))
+    );
+    const scores: Record<string, RuleScore> = Object.fromEntries(
+      uniqueRules.map((rule) => [rule.metadata.id, candidateScores[rule.metadata.id]])
+    );
 
-    // Sort by priority
-    const sortedRules = this.sortByPriority(uniqueRules);
+    let sortedRules = this.sortByPriority(uniqueRules).sort(
+      (a, b) => scores[b.metadata.id].score - scores[a.metadata.id].score
+    );
+    if (context.includePrerequisites) {
+      sortedRules = this.graph
+        .sortByPrerequisites(sortedRules.map((rule) => rule.metadata.id))
+        .map((id) => this.getRule(id)!);
+    }
 
-    return {
+    const bundle: RuleBundle = {
       name: this.generateBundleName(context),
       description: this.generateBundleDescription(context),
       rules: sortedRules,
       scenarios,
+      scores,
     };
+
+    return this.packBundle(bundle, context);
   }
 
   /**
-   * Generate common bundles for typical scenarios
+   * Bundles declared in the `bundles/` directory of each source and in the
+   * project configuration, resolved by id
    */
   getCommonBundles(): Record<string, RuleBundle> {
+    const bundles: Record<string, RuleBundle> = {};
+    for (const id of this.bundles.keys()) {
+      bundles[id] = this.getBundle(id)!;
+    }
+    return bundles;
+  }
+
+  /**
+   * Declared bundles, with the file each came from
+   */
+  getBundleDeclarations(): DeclaredBundle[] {
+    return [...this.bundles.values()];
+  }
+
+  /**
+   * Problems found while loading bundles; bundles with errors are skipped
+   */
+  getBundleIssues(): BundleIssue[] {
+    return this.bundleIssues;
+  }
+
+  /**
+   * Resolve a declared bundle into its rules: the rules recommended for its
+   * context, plus rules matching its query and explicit includes, minus
+   * excludes, with the rules named in `order` first
+   */
+  getBundle(bundleId: string): RuleBundle | undefined {
+    if (!this.bundles.has(bundleId)) {
+      return undefined;
+    }
+
+    const definition = this.resolveBundleDefinition(bundleId);
+    const context = definition.context as ScenarioContext | undefined;
+    // The budget is applied once all rules are in, so that included and
+    // queried rules compete for it too
+    const base: RuleBundle = context
+      ? this.recommendBundle({ ...context, maxTokens: undefined })
+      : { name: bundleId, description: '', rules: [], scenarios: [], scores: {} };
+
+    const rules = [...base.rules];
+    const query = definition.query;
+    if (query) {
+      rules.push(...this.rules.filter((rule) => this.matchesQuery(rule, query)));
+    }
+    rules.push(...this.resolveRules(definition.include || []));
+
+    // Project pins survive the bundle's excludes, as in recommendBundle
+    const pinned = this.resolveRules(this.options.pinned || []);
+    rules.push(...pinned);
+    const pinnedIds = new Set(pinned.map((rule) => rule.metadata.id));
+    const exclude = {
+      rules: [...(definition.exclude?.rules || []), ...(this.options.exclude?.rules || [])],
+      tags: [...(definition.exclude?.tags || []), ...(this.options.exclude?.tags || [])],
+    };
+    const excludedIds = new Set(this.resolveRules(exclude.rules).map((rule) => rule.metadata.id));
+
+    const order = this.resolveRules(definition.order || []).map((rule) => rule.metadata.id);
+    const rank = (rule: Rule) => {
+      const index = order.indexOf(rule.metadata.id);
+      return index === -1 ? order.length : index;
+    };
+
+    const bundle: RuleBundle = {
+      ...base,
+      id: bundleId,
+      name: definition.name || bundleId,
+      description: definition.description || base.description,
+      rules: this.deduplicateRules(rules)
+        .filter(
+          (rule) =>
+            pinnedIds.has(rule.metadata.id) ||
+            (!excludedIds.has(rule.metadata.id) && !rule.metadata.tags.some((tag) => exclude.tags.includes(tag)))
+        )
+        .sort((a, b) => rank(a) - rank(b)),
+    };
+    if (!context) {
+      return bundle;
+    }
+
+    // Score included and queried rules against the context like recommended ones
+    const scores = { ...bundle.scores };
+    for (const rule of bundle.rules) {
+      if (!scores[rule.metadata.id]) {
+        scores[rule.metadata.id] = scoreRule(rule, context);
+      }
+    }
+    return this.packBundle({ ...bundle, scores }, context);
+  }
+
+  /**
+   * Pack a scored bundle into the context's token budget, if it has one,
+   * keeping only rules with content that fit. Scores are shifted so that
+   * every rule keeps a positive weight.
+   */
+  private packBundle(bundle: RuleBundle, context: ScenarioContext): RuleBundle {
+    if (context.maxTokens === undefined) {
+      return bundle;
+    }
+
+    const scores = bundle.scores || {};
+    const composition = composeBundle(bundle.rules, context, context.maxTokens, (rule) =>
+      Math.max(scores[rule.metadata.id]?.score ?? 0, 0) + 1
+    );
+    const kept = new Set(
+      composition.allocations
+        .filter((allocation) => allocation.status !== 'omitted')
+        .map((allocation) => allocation.ruleId)
+    );
+    return { ...bundle, rules: bundle.rules.filter((rule) => kept.has(rule.metadata.id)), composition };
+  }
+
+  /**
+   * Definition of a bundle with everything it inherits. Includes and
+   * excludes accumulate down the chain, a child's include lifting a parent's
+   * exclude and vice versa; other fields are overridden.
+   */
+  private resolveBundleDefinition(bundleId: string): BundleDefinition {
+    const { definition } = this.bundles.get(bundleId)!;
+    if (!definition.extends) {
+      return definition;
+    }
+
+    const parent = this.resolveBundleDefinition(definition.extends);
+    const include = definition.include || [];
+    const excludeRules = definition.exclude?.rules || [];
+
     return {
-      'python-web-development': this.recommendBundle({
-        type: 'coding',
-        language: 'python',
-        priorities: ['security', 'performance'],
-      }),
-      'javascript-frontend': this.recommendBundle({
-        type: 'coding',
-        language: 'javascript',
-        priorities: ['accessibility', 'performance'],
-      }),
-      'api-development': this.recommendBundle({
-        type: 'coding',
-        priorities: ['security', 'performance'],
-      }),
-      'documentation-writing': this.recommendBundle({
-        type: 'writing',
-        priorities: ['accessibility'],
-      }),
-      'data-analysis': this.recommendBundle({
-        type: 'data',
-        language: 'python',
-      }),
-      'devops-cicd': this.recommendBundle({
-        type: 'devops',
-        priorities: ['security'],
-      }),
+      name: definition.name,
+      description: definition.description ?? parent.description,
+      context: parent.context || definition.context
+        ? { ...parent.context, ...definition.context }
+        : undefined,
+      query: parent.query || definition.query ? { ...parent.query, ...definition.query } : undefined,
+      include: [...(parent.include || []).filter((id) => !excludeRules.includes(id)), ...include],
+      exclude: {
+        rules: [...(parent.exclude?.rules || []).filter((id) => !include.includes(id)), ...excludeRules],
+        tags: [...(parent.exclude?.tags || []), ...(definition.exclude?.tags || [])],
+      },
+      order: definition.order ?? parent.order,
     };
   }
 
+  private matchesQuery(rule: Rule, query: NonNullable<BundleDefinition['query']>): boolean {
+    return matchesFilter(rule, { category: query.categories, language: query.languages, tags: { any: query.tags } });
+  }
+
+  /**
+   * Load bundle files and configured bundles, dropping bundles whose
+   * inheritance is broken and warning about rule ids that do not resolve
+   */
+  private refreshBundles(): void {
+    const { bundles, issues } = loadBundles(this.loader.getSources());
+    const declared = new Map(bundles.map((bundle) => [bundle.id, bundle]));
+    for (const [id, definition] of Object.entries(this.options.bundles || {})) {
+      declared.set(id, { id, definition, origin: this.options.filePath || 'options' });
+    }
+
+    const broken = new Set<string>();
+    // Inheritance chain of every bundle whose chain is complete
+    const chains = new Map<string, string[]>();
+    for (const bundle of declared.values()) {
+      const chain = [bundle.id];
+      let current = bundle.definition.extends;
+      while (current !== undefined) {
+        if (chain.includes(current)) {
+          issues.push({
+            bundleId: bundle.id,
+            origin: bundle.origin,
+            severity: 'error',
+            message: `Inheritance cycle: ${[...chain, current].join(' -> ')}`,
+          });
+          broken.add(bundle.id);
+          break;
+        }
+        const parent = declared.get(current);
+        if (!parent) {
+          issues.push({
+            bundleId: bundle.id,
+            origin: bundle.origin,
+            severity: 'error',
+            message: `${chain[chain.length - 1]} extends unknown bundle ${current}`,
+          });
+          broken.add(bundle.id);
+          break;
+        }
+        chain.push(current);
+        current = parent.definition.extends;
+      }
+
+      if (!broken.has(bundle.id)) {
+        chains.set(bundle.id, chain);
+        const contexts = chain.map((id) => declared.get(id)!.definition.context).filter(Boolean);
+        if (contexts.length > 0 && !contexts.some((context) => context!.type)) {
+          issues.push({
+            bundleId: bundle.id,
+            origin: bundle.origin,
+            severity: 'error',
+            message: 'context.type is required, directly or through extends',
+          });
+          broken.add(bundle.id);
+        }
+      }
+
+      const { include, exclude, order } = bundle.definition;
+      for (const [field, ids] of [['include', include], ['exclude.rules', exclude?.rules], ['order', order]] as const) {
+        for (const ruleId of ids || []) {
+          if (!this.getRule(ruleId)) {
+            issues.push({
+              bundleId: bundle.id,
+              origin: bundle.origin,
+              severity: 'warning',
+              message: `${field}: ${this.describeMissingRule(ruleId)}`,
+            });
+          }
+        }
+      }
+    }
+
+    // Bundles extending a dropped bundle cannot be resolved either
+    for (const [id, chain] of chains) {
+      const invalidParent = chain.slice(1).find((parentId) => broken.has(parentId));
+      if (!broken.has(id) && invalidParent) {
+        issues.push({
+          bundleId: id,
+          origin: declared.get(id)!.origin,
+          severity: 'error',
+          message: `extends invalid bundle ${invalidParent}`,
+        });
+        broken.add(id);
+      }
+    }
+
+    broken.forEach((id) => declared.delete(id));
+    this.bundles = declared;
+
+    this.bundleIssues = issues;
+
+    for (const issue of issues) {
+      console.error(`Bundle ${issue.bundleId} (${issue.origin}): ${issue.message}`);
+    }
+  }
+
+  private describeMissingRule(ruleId: string): string {
+    const candidates = this.getRuleCandidates(ruleId);
+    return candidates.length > 1
+      ? `"${ruleId}" is ambiguous (matches ${candidates.join(', ')})`
+      : `unknown rule id "${ruleId}"`;
+  }
+
   /**
    * Get related rules for a given rule
    */
   getRelatedRules(ruleId: string): Rule[] {
-    const rule = this.rules.find((r) => r.metadata.id === ruleId);
-    if (!rule || !rule.metadata.related) {
+    const rule = this.getRule(ruleId);
+    if (!rule) {
       return [];
     }
 
-    return this.rules.filter((r) =>
-      rule.metadata.related!.includes(r.metadata.id)
-    );
+    return this.resolveRules(this.graph.getRelated(rule.metadata.id));
   }
 
   /**
-   * Get prerequisite rules for a given rule
+   * Get the transitive prerequisites of a rule, each after the rules it requires
    */
   getPrerequisites(ruleId: string): Rule[] {
-    const rule = this.rules.find((r) => r.metadata.id === ruleId);
-    if (!rule || !rule.metadata.prerequisites) {
+    const rule = this.getRule(ruleId);
+    if (!rule) {
       return [];
     }
 
-    return this.rules.filter((r) =>
-      rule.metadata.prerequisites!.includes(r.metadata.id)
-    );
+    return this.resolveRules(this.graph.getPrerequisites(rule.metadata.id));
+  }
+
+  /**
+   * Where each of a rule's metadata values came from, declared or inferred,
+   * with the classifier's scores for every candidate language and tag
+   */
+  inspectRule(ruleId: string): RuleInspection | undefined {
+    const rule = this.getRule(ruleId);
+    if (!rule) {
+      return undefined;
+    }
+
+    // In-memory sources hold their files as strings rather than on disk
+    const source = this.getSources().find((s) => s.name === rule.source);
+    const text = source?.files
+      ? source.files[rule.filePath.split(path.sep).join('/')]
+      : fs.readFileSync(path.join(source?.path || '', rule.filePath), 'utf-8');
+    const { data: declared, content } = matter(text);
+    const filename = path.basename(rule.filePath, '.md');
+    const heading = content.match(/^#\s+(.+)$/m)?.[1].trim();
+    const classification = classifyRule({
+      filename,
+      title: rule.metadata.title,
+      content,
+      category: rule.metadata.category,
+    });
+
+    // The category always comes from the directory, whatever is declared
+    const field = (
+      name: keyof typeof rule.metadata,
+      inferred: unknown,
+      inferredOrigin: InspectedField['origin']
+    ): InspectedField => ({
+      field: name,
+      value: rule.metadata[name],
+      origin: declared[name] !== undefined && name !== 'category' ? 'frontmatter' : inferredOrigin,
+      ...(declared[name] !== undefined && { declared: declared[name] }),
+      inferred,
+    });
+
+    return {
+      ruleId: rule.metadata.id,
+      filePath: rule.filePath,
+      source: rule.source,
+      fields: [
+        field('id', rule.filePath.split(path.sep).join('/').replace(/\.md$/, ''), 'path'),
+        field('title', heading || filename, heading ? 'heading' : 'file name'),
+        field('category', rule.metadata.category, 'directory'),
+        field('language', inferredLanguage(classification), 'classifier'),
+        field('tags', inferredTags(classification), 'classifier'),
+        field('description', undefined, 'none'),
+        field('version', '1.0.0', 'default'),
+      ],
+      classification,
+      threshold: CLASSIFICATION_THRESHOLD,
+    };
+  }
+
+  /**
+   * The prerequisite and related references around a rule, or between all
+   * rules without an id; undefined when the rule does not exist
+   */
+  getRuleGraph(ruleId?: string, options?: RuleGraphOptions): RuleGraphView | undefined {
+    if (ruleId === undefined) {
+      return this.graph.getView(undefined, options);
+    }
+
+    const rule = this.getRule(ruleId);
+    return rule ? this.graph.getView(rule.metadata.id, options) : undefined;
+  }
+
+  /**
+   * Prerequisite cycles among all rules, each starting and ending on the same id
+   */
+  getPrerequisiteCycles(): string[][] {
+    return this.graph.getCycles();
+  }
+
+  private resolveRules(ruleIds: string[]): Rule[] {
+    const rules = ruleIds
+      .map((id) => this.getRule(id))
+      .filter((rule): rule is Rule => rule !== undefined);
+    return this.deduplicateRules(rules);
   }
 
   private deduplicateRules(rules: Rule[]): Rule[] {
@@ -0,0 +1,182 @@
+import { Rule } from '../types/rule.js';
+import { SearchHit } from '../types/search.js';
+import { RuleFilter, RuleQuery, RuleQueryItem, RuleQueryResult, RuleSortKey } from '../types/query.js';
+import { canonicalLanguage } from '../utils/rule-classifier.js';
+
+export const RULE_SORT_KEYS: RuleSortKey[] = ['id', 'title', 'category', 'priority', 'difficulty', 'updated', 'relevance'];
+
+const PRIORITY_RANK: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+const DIFFICULTY_RANK: Record<string, number> = { beginner: 0, intermediate: 1, advanced: 2, expert: 3 };
+
+// Sort value of a rule and its id, which breaks ties; cursors carry the key
+// of the last rule of a page, so pages stay put when rules are reloaded
+type SortKey = [string | number, string];
+
+/**
+ * A query argument that is out of range or malformed, e.g. a cursor that
+ * this server did not hand out
+ */
+export class QueryError extends Error {
+  // The RuleQuery field at fault, e.g. "cursor" or "updatedSince"
+  readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(message);
+    this.name = 'QueryError';
+    this.field = field;
+  }
+}
+
+interface Cursor {
+  sort: RuleSortKey;
+  order: 'asc' | 'desc';
+  key: SortKey;
+}
+
+/**
+ * Filter, search, sort and page rules. Text queries are answered by
+ * `search`, restricted to the rules that pass the filter.
+ */
+export function queryRules(
+  rules: Rule[],
+  query: RuleQuery,
+  search: (text: string, ruleIds: string[]) => SearchHit[]
+): RuleQueryResult {
+  const sort = query.sort ?? (query.text ? 'relevance' : 'id');
+  if (!RULE_SORT_KEYS.includes(sort)) {
+    throw new QueryError('sort', `Unknown sort key: ${sort} (expected ${RULE_SORT_KEYS.join(', ')})`);
+  }
+  if (sort === 'relevance' && !query.text) {
+    throw new QueryError('sort', 'Sorting by relevance needs a text query');
+  }
+  const order = query.order ?? (sort === 'relevance' || sort === 'updated' ? 'desc' : 'asc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new QueryError('order', `Unknown sort order: ${order} (expected asc, desc)`);
+  }
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 1)) {
+    throw new QueryError('limit', `Invalid limit: ${query.limit}`);
+  }
+
+  const filter = query.filter ?? {};
+  if (filter.updatedSince !== undefined && Number.isNaN(Date.parse(filter.updatedSince))) {
+    throw new QueryError('updatedSince', `Invalid date: ${filter.updatedSince} (expected YYYY-MM-DD)`);
+  }
+  let items: RuleQueryItem[] = rules.filter((rule) => matchesFilter(rule, filter)).map((rule) => ({ rule }));
+  if (query.text) {
+    const hits = new Map(
+      search(query.text, items.map((item) => item.rule.metadata.id)).map((hit) => [hit.ruleId, hit])
+    );
+    items = items.filter((item) => hits.has(item.rule.metadata.id)).map((item) => ({ ...item, hit: hits.get(item.rule.metadata.id) }));
+  }
+
+  const keyOf = (item: RuleQueryItem) => sortKey(item, sort);
+  const direction = order === 'asc' ? 1 : -1;
+  items.sort((a, b) => compareKeys(keyOf(a), keyOf(b), direction));
+
+  let start = 0;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (cursor.sort !== sort || cursor.order !== order) {
+      throw new QueryError('cursor', `Cursor is for sorting by ${cursor.sort} ${cursor.order}, not ${sort} ${order}`);
+    }
+    start = items.findIndex((item) => compareKeys(keyOf(item), cursor.key, direction) > 0);
+    if (start < 0) {
+      start = items.length;
+    }
+  }
+
+  const end = query.limit !== undefined ? start + query.limit : items.length;
+  const page = items.slice(start, end);
+  return {
+    items: page,
+    total: items.length,
+    ...(end < items.length && { nextCursor: encodeCursor({ sort, order, key: keyOf(page[page.length - 1]) }) }),
+  };
+}
+
+/**
+ * Whether a rule passes every field of a filter
+ */
+export function matchesFilter(rule: Rule, filter: RuleFilter): boolean {
+  const { metadata } = rule;
+  const languages = (Array.isArray(metadata.language) ? metadata.language : [metadata.language]).map(canonicalLanguage);
+  const frameworks = (metadata.applicability?.frameworks ?? []).map((framework) => framework.toLowerCase());
+  const tags = filter.tags ?? {};
+
+  return (
+    anyOf(filter.category, (category) => metadata.category === category) &&
+    anyOf(filter.subcategory, (subcategory) => metadata.subcategory === subcategory) &&
+    anyOf(
+      filter.language,
+      (language) => languages.includes(canonicalLanguage(language)) || languages.includes('universal')
+    ) &&
+    (!tags.any || tags.any.length === 0 || tags.any.some((tag) => metadata.tags.includes(tag))) &&
+    (!tags.all || tags.all.every((tag) => metadata.tags.includes(tag))) &&
+    (!tags.none || !tags.none.some((tag) => metadata.tags.includes(tag))) &&
+    anyOf(filter.priority, (priority) => (metadata.priority ?? 'medium') === priority) &&
+    anyOf(filter.difficulty, (difficulty) => metadata.difficulty === difficulty) &&
+    anyOf(filter.framework, (framework) => frameworks.includes(framework.toLowerCase())) &&
+    anyOf(filter.author, (author) => metadata.author?.toLowerCase() === author.toLowerCase()) &&
+    (!filter.updatedSince || isUpdatedSince(metadata.lastUpdated, filter.updatedSince))
+  );
+}
+
+function anyOf<T>(wanted: T | T[] | undefined, matches: (value: T) => boolean): boolean {
+  const values = wanted === undefined ? [] : Array.isArray(wanted) ? wanted : [wanted];
+  return values.length === 0 || values.some(matches);
+}
+
+function isUpdatedSince(lastUpdated: string | undefined, since: string): boolean {
+  return lastUpdated !== undefined && Date.parse(lastUpdated) >= Date.parse(since);
+}
+
+function sortKey(item: RuleQueryItem, sort: RuleSortKey): SortKey {
+  const { metadata } = item.rule;
+  switch (sort) {
+    case 'title':
+      return [metadata.title.toLowerCase(), metadata.id];
+    case 'category':
+      return [metadata.category, metadata.id];
+    case 'priority':
+      return [PRIORITY_RANK[metadata.priority ?? 'medium'], metadata.id];
+    case 'difficulty':
+      // Rules without a difficulty come last
+      return [DIFFICULTY_RANK[metadata.difficulty ?? ''] ?? Object.keys(DIFFICULTY_RANK).length, metadata.id];
+    case 'updated':
+      return [metadata.lastUpdated ?? '', metadata.id];
+    case 'relevance':
+      return [item.hit?.score ?? 0, metadata.id];
+    default:
+      return ['', metadata.id];
+  }
+}
+
+// Ties are always broken by ascending id, whatever the order
+function compareKeys(a: SortKey, b: SortKey, direction: number): number {
+  const value =
+    typeof a[0] === 'number' && typeof b[0] === 'number'
+      ? a[0] - b[0]
+      : String(a[0]).localeCompare(String(b[0]));
+  return value * direction || a[1].localeCompare(b[1]);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, ...cursor.key])).toString('base64url');
+}
+
+function decodeCursor(text: string): Cursor {
+  try {
+    const [sort, order, value, id] = JSON.parse(Buffer.from(text, 'base64url').toString('utf-8'));
+    if (
+      RULE_SORT_KEYS.includes(sort) &&
+      (order === 'asc' || order === 'desc') &&
+      (typeof value === 'string' || typeof value === 'number') &&
+      typeof id === 'string'
+    ) {
+      return { sort, order, key: [value, id] };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new QueryError('cursor', `Invalid cursor: ${text}`);
+}
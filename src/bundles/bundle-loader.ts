@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { globSync } from 'glob';
+import { BundleDefinition, BundleIssue, DeclaredBundle } from '../types/bundle.js';
+import { RuleSource } from '../types/source.js';
+import { BundleDefinitionSchema } from './bundle-schema.js';
+
+// Directory of bundle files inside each rule source
+export const BUNDLES_DIR = 'bundles';
+
+/**
+ * Read the bundle files of every source. A bundle's id is its file name;
+ * a bundle in a later source replaces one with the same id from earlier
+ * sources. Files that fail to parse or validate are skipped and reported.
+ * In-memory sources declare bundles as files under `bundles/` instead.
+ */
+export function loadBundles(sources: RuleSource[]): { bundles: DeclaredBundle[]; issues: BundleIssue[] } {
+  const bundles = new Map<string, DeclaredBundle>();
+  const issues: BundleIssue[] = [];
+
+  for (const source of sources) {
+    for (const filePath of findBundleFiles(source)) {
+      const id = path.basename(filePath).replace(/\.(ya?ml|json)$/, '');
+      const result = readBundleFile(filePath, source);
+      if ('error' in result) {
+        issues.push({ bundleId: id, origin: filePath, severity: 'error', message: result.error });
+        continue;
+      }
+
+      bundles.set(id, { id, definition: result.definition, origin: filePath });
+    }
+  }
+
+  return { bundles: [...bundles.values()], issues };
+}
+
+function findBundleFiles(source: RuleSource): string[] {
+  if (source.files) {
+    return Object.keys(source.files)
+      .filter((key) => new RegExp(`^${BUNDLES_DIR}/[^/]+\\.(ya?ml|json)$`).test(key))
+      .map((key) => path.join(source.path, ...key.split('/')))
+      .sort();
+  }
+
+  return globSync('*.{yaml,yml,json}', {
+    cwd: path.join(source.path, BUNDLES_DIR),
+    absolute: true,
+    nodir: true,
+  }).sort();
+}
+
+function readBundleFile(filePath: string, source: RuleSource): { definition: BundleDefinition } | { error: string } {
+  let data: unknown;
+  try {
+    const text = source.files
+      ? source.files[path.relative(source.path, filePath).split(path.sep).join('/')]
+      : fs.readFileSync(filePath, 'utf-8');
+    data = filePath.endsWith('.json') ? JSON.parse(text) : yaml.load(text);
+  } catch (error) {
+    return { error: `Cannot parse bundle: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const parsed = BundleDefinitionSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    return { error: `Invalid bundle: ${issues.join('; ')}` };
+  }
+
+  return { definition: parsed.data as BundleDefinition };
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+export const TASK_TYPES = [
+  'coding',
+  'writing',
+  'research',
+  'communication',
+  'data',
+  'devops',
+  'security',
+  'project-management',
+  'general',
+] as const;
+
+export const ENVIRONMENTS = ['development', 'production', 'testing'] as const;
+export const COMPLEXITIES = ['simple', 'moderate', 'complex'] as const;
+export const PRIORITIES = ['performance', 'security', 'maintainability', 'accessibility'] as const;
+export const TOKEN_ESTIMATORS = ['chars', 'words'] as const;
+
+export const ScenarioContextSchema = z
+  .object({
+    type: z.enum(TASK_TYPES).optional(),
+    language: z.string().min(1).optional(),
+    framework: z.string().min(1).optional(),
+    scenario: z.string().min(1).optional(),
+    environment: z.enum(ENVIRONMENTS).optional(),
+    complexity: z.enum(COMPLEXITIES).optional(),
+    priorities: z.array(z.enum(PRIORITIES)).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    tokenEstimator: z.enum(TOKEN_ESTIMATORS).optional(),
+    includePrerequisites: z.boolean().optional(),
+  })
+  .strict();
+
+const ruleIds = z.array(z.string().min(1));
+
+export const BundleDefinitionSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    description: z.string().optional(),
+    extends: z.string().min(1).optional(),
+    // May be partial when completed by an extended bundle
+    context: ScenarioContextSchema.optional(),
+    query: z
+      .object({
+        categories: z.array(z.string().min(1)).optional(),
+        languages: z.array(z.string().min(1)).optional(),
+        tags: z.array(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+    include: ruleIds.optional(),
+    exclude: z
+      .object({
+        rules: ruleIds.optional(),
+        tags: z.array(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+    order: ruleIds.optional(),
+  })
+  .strict();
@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globSync } from 'glob';
+import { RuleAnalyzer } from '../analyzer/rule-analyzer.js';
+import { Diagnostic } from '../types/diagnostic.js';
+import { RuleCheck } from '../types/check.js';
+import { Rule } from '../types/rule.js';
+import { parseUnifiedDiff } from '../utils/diff.js';
+import { RuleCheckSchema } from '../validator/rule-schema.js';
+
+const IGNORED_PATTERNS = ['**/node_modules/**', '**/.git/**', '**/dist/**', '**/build/**'];
+
+// Larger files are only checked for their size
+const MAX_SCANNED_BYTES = 1024 * 1024;
+
+const JS_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts', '.vue', '.svelte']);
+
+export interface CheckOptions {
+  // Only run the checks of these rules
+  ruleIds?: string[];
+}
+
+interface ActiveCheck {
+  rule: Rule;
+  check: RuleCheck;
+  id: string;
+  files?: RegExp[];
+}
+
+interface ActiveChecks {
+  checks: ActiveCheck[];
+  // Checks that failed validation and were skipped
+  diagnostics: Diagnostic[];
+}
+
+interface Line {
+  line: number;
+  text: string;
+}
+
+/**
+ * Runs the `checks` declared in rule frontmatter against a directory or the
+ * added lines of a unified diff, reporting violations as diagnostics whose
+ * code is the check id
+ */
+export class ComplianceChecker {
+  private analyzer: RuleAnalyzer;
+
+  constructor(analyzer: RuleAnalyzer) {
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Check every file under a directory, skipping node_modules, .git, dist and build
+   */
+  checkDirectory(dir: string, options: CheckOptions = {}): Diagnostic[] {
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      throw new Error(`Directory not found: ${dir}`);
+    }
+
+    const { checks, diagnostics } = this.activeChecks(options);
+    const files = globSync('**/*', { cwd: dir, nodir: true, dot: true, ignore: IGNORED_PATTERNS, posix: true }).sort();
+
+    for (const file of files) {
+      const applicable = checks.filter((active) => active.check.type !== 'required-file' && appliesTo(active, file));
+      if (applicable.length === 0) {
+        continue;
+      }
+
+      const absolutePath = path.join(dir, file);
+      const bytes = fs.statSync(absolutePath).size;
+      const content = bytes <= MAX_SCANNED_BYTES ? fs.readFileSync(absolutePath, 'utf-8') : undefined;
+      // Binary files have no lines to check
+      if (content?.includes('\0')) {
+        continue;
+      }
+
+      const lines = content
+        ?.replace(/\r?\n$/, '')
+        .split(/\r?\n/)
+        .map((text, index) => ({ line: index + 1, text }));
+      for (const active of applicable) {
+        if (active.check.type === 'file-size') {
+          diagnostics.push(...this.checkSize(active, file, bytes, lines?.length));
+        } else if (lines) {
+          diagnostics.push(...this.checkLines(active, file, lines));
+        }
+      }
+    }
+
+    for (const active of checks) {
+      if (active.check.type === 'required-file') {
+        const required = active.check.paths.map(globToRegExp);
+        if (!files.some((file) => required.some((pattern) => pattern.test(file)))) {
+          diagnostics.push(
+            this.report(active, '.', 1, 1, `no file matches ${active.check.paths.join(', ')}`)
+          );
+        }
+      }
+    }
+
+    return sortDiagnostics(diagnostics);
+  }
+
+  /**
+   * Check only the lines a diff adds. Size checks apply to new files, and
+   * required files are not checked, since a diff does not show the whole tree.
+   */
+  checkDiff(diff: string, options: CheckOptions = {}): Diagnostic[] {
+    const { checks, diagnostics } = this.activeChecks(options);
+
+    for (const file of parseUnifiedDiff(diff)) {
+      if (file.status === 'deleted') {
+        continue;
+      }
+
+      for (const active of checks.filter((candidate) => appliesTo(candidate, file.path))) {
+        if (active.check.type === 'file-size') {
+          if (file.status === 'added') {
+            const bytes = file.addedLines.reduce((total, { text }) => total + Buffer.byteLength(text) + 1, 0);
+            diagnostics.push(...this.checkSize(active, file.path, bytes, file.addedLines.length));
+          }
+        } else if (active.check.type !== 'required-file') {
+          diagnostics.push(...this.checkLines(active, file.path, file.addedLines));
+        }
+      }
+    }
+
+    return sortDiagnostics(diagnostics);
+  }
+
+  /**
+   * The checks of the selected rules. Checks that do not match the check
+   * schema are reported as `invalid-check` errors and skipped.
+   */
+  private activeChecks(options: CheckOptions): ActiveChecks {
+    let rules = this.analyzer.getAllRules();
+    if (options.ruleIds) {
+      rules = options.ruleIds.map((ruleId) => {
+        const rule = this.analyzer.getRule(ruleId);
+        if (!rule) {
+          throw new Error(`Rule not found: ${ruleId}`);
+        }
+        return rule;
+      });
+    }
+
+    const checks: ActiveCheck[] = [];
+    const diagnostics: Diagnostic[] = [];
+    for (const rule of rules) {
+      (rule.metadata.checks || []).forEach((declared: unknown, index) => {
+        const parsed = RuleCheckSchema.safeParse(withoutStatefulFlags(declared));
+        if (!parsed.success) {
+          const [issue] = parsed.error.issues;
+          const field = issue.path
+            .map((key) => (typeof key === 'number' ? `[${key}]` : `.${key}`))
+            .join('');
+          diagnostics.push({
+            code: 'invalid-check',
+            message: `checks[${index}]${field}: ${issue.message}; check skipped`,
+            severity: 'error',
+            ruleId: rule.metadata.id,
+            filePath: rule.filePath,
+            line: 1,
+            column: 1,
+          });
+          return;
+        }
+
+        const check = parsed.data;
+        checks.push({
+          rule,
+          check,
+          id: check.id || `${check.type}-${index + 1}`,
+          files: check.files?.map(globToRegExp),
+        });
+      });
+    }
+
+    return { checks, diagnostics };
+  }
+
+  private checkLines(active: ActiveCheck, file: string, lines: Line[]): Diagnostic[] {
+    const { check } = active;
+    const diagnostics: Diagnostic[] = [];
+
+    if (check.type === 'pattern') {
+      const pattern = new RegExp(check.pattern, check.flags);
+      for (const { line, text } of lines) {
+        const match = pattern.exec(text);
+        if (match) {
+          diagnostics.push(this.report(active, file, line, match.index + 1, `matches /${check.pattern}/`));
+        }
+      }
+    } else if (check.type === 'forbidden-import') {
+      for (const { line, text } of lines) {
+        for (const imported of importedModules(file, text)) {
+          const forbidden = check.modules.find(
+            (module) => imported === module || imported.startsWith(`${module}.`) || imported.startsWith(`${module}/`)
+          );
+          if (forbidden) {
+            diagnostics.push(
+              this.report(active, file, line, text.indexOf(imported) + 1, `imports forbidden module ${imported}`)
+            );
+          }
+        }
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private checkSize(active: ActiveCheck, file: string, bytes: number, lineCount?: number): Diagnostic[] {
+    const { check } = active;
+    if (check.type !== 'file-size') {
+      return [];
+    }
+
+    const problems: string[] = [];
+    if (check.maxLines !== undefined && lineCount !== undefined && lineCount > check.maxLines) {
+      problems.push(`${lineCount} lines (max ${check.maxLines})`);
+    }
+    if (check.maxBytes !== undefined && bytes > check.maxBytes) {
+      problems.push(`${bytes} bytes (max ${check.maxBytes})`);
+    }
+    return problems.length > 0 ? [this.report(active, file, 1, 1, `file has ${problems.join(' and ')}`)] : [];
+  }
+
+  private report(active: ActiveCheck, filePath: string, line: number, column: number, detail: string): Diagnostic {
+    return {
+      code: active.id,
+      // The matched expression adds nothing to a pattern's own message
+      message: !active.check.message
+        ? detail
+        : active.check.type === 'pattern'
+          ? active.check.message
+          : `${active.check.message} (${detail})`,
+      severity: active.check.severity || 'warning',
+      ruleId: active.rule.metadata.id,
+      filePath,
+      line,
+      column,
+    };
+  }
+}
+
+function sortDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+  return diagnostics.sort(
+    (a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line || a.column - b.column
+  );
+}
+
+/**
+ * Drop the g and y flags from a pattern check: each line is matched on its
+ * own, and with them `exec` would resume at the previous line's lastIndex
+ */
+function withoutStatefulFlags(check: unknown): unknown {
+  if (typeof check === 'object' && check !== null && 'flags' in check && typeof check.flags === 'string') {
+    return { ...check, flags: check.flags.replace(/[gy]/g, '') };
+  }
+  return check;
+}
+
+function appliesTo(active: ActiveCheck, file: string): boolean {
+  return !active.files || active.files.some((pattern) => pattern.test(file));
+}
+
+/**
+ * Modules imported on a line of Python, Go or JavaScript/TypeScript source
+ */
+function importedModules(file: string, text: string): string[] {
+  const extension = path.extname(file);
+
+  if (extension === '.py') {
+    const from = /^\s*from\s+([\w.]+)\s+import\b/.exec(text);
+    if (from) {
+      return [from[1]];
+    }
+    const plain = /^\s*import\s+(.+)$/.exec(text);
+    return plain ? plain[1].split(',').map((part) => part.trim().split(/\s+/)[0]).filter(Boolean) : [];
+  }
+
+  if (extension === '.go') {
+    // `import "x"`, or a line of an import block: `"x"` or `alias "x"`
+    const spec = /^\s*(?:import\s+)?(?!return\b)(?:[\w.]+\s+)?"([^"]+)"\s*$/.exec(text);
+    return spec ? [spec[1]] : [];
+  }
+
+  if (JS_EXTENSIONS.has(extension)) {
+    return [...text.matchAll(/(?:\bfrom\s+|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"]+)['"]/g)].map(
+      (match) => match[1]
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Convert a glob with `*`, `**`, `?` and `{a,b}` into a RegExp over
+ * slash-separated relative paths. Globs without a slash match file names
+ * in any directory.
+ */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob.replace(/^\.\//, '') : `**/${glob}`;
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const close = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, close).split(',').map(escapeRegExp).join('|')})`;
+      i = close;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
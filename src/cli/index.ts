@@ -1,8 +1,39 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option, OptionValues } from 'commander';
+import matter from 'gray-matter';
 import { RuleAnalyzer } from '../analyzer/rule-analyzer.js';
-import { ScenarioContext } from '../types/rule.js';
+import { Rule, RuleBundle, ScenarioContext } from '../types/rule.js';
+import { ExportFormat } from '../types/export.js';
+import { RuleValidator } from '../validator/rule-validator.js';
+import { ProjectDetector } from '../detector/project-detector.js';
+import { DetectedProject } from '../types/project.js';
+import { applyExport, EXPORT_FORMATS, renderBundleMarkdown, renderExport } from '../exporter/bundle-exporter.js';
+import { flattenSections, getSectionMarkdown } from '../utils/markdown.js';
+import { loadConfig } from '../config/rules-config.js';
+import { ResolvedConfig } from '../types/config.js';
+import { DiagnosticFormat, DIAGNOSTIC_FORMATS, formatDiagnostics } from '../validator/diagnostic-formatter.js';
+import { GRAPH_FORMATS, renderGraph } from '../graph/graph-renderer.js';
+import { GraphFormat } from '../types/graph.js';
+import { ComplianceChecker } from '../checker/compliance-checker.js';
+import { loadLintPlugins, RuleLinter } from '../linter/rule-linter.js';
+import { RuleHistory, WORKING_TREE } from '../history/rule-history.js';
+import { RULE_SORT_KEYS } from '../analyzer/rule-query.js';
+import { RuleQuery, RuleQueryItem, RuleQueryResult } from '../types/query.js';
+import { ParseCache } from '../utils/parse-cache.js';
+import { COMPLEXITIES, ENVIRONMENTS, PRIORITIES, TASK_TYPES, TOKEN_ESTIMATORS } from '../bundles/bundle-schema.js';
+import {
+  describeDeclaredBundle,
+  describeRule,
+  describeSection,
+  summarizeBundle,
+  summarizeCommonBundle,
+  summarizeExport,
+  summarizeRule,
+  summarizeSearchResult,
+} from '../utils/rule-summaries.js';
+import { Column, createStyle, formatData, formatTable, OUTPUT_FORMATS, shouldColor, Style } from './output.js';
+import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -14,88 +45,616 @@ const program = new Command();
 program
   .name('rules-cli')
   .description('CLI tool for managing and querying rules.d repository')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option(
+    '--rules-dir <dir>',
+    'Layer rules from this directory over the bundled rules (repeatable; later directories take precedence)',
+    (dir: string, dirs: string[]) => [...dirs, dir],
+    []
+  )
+  .option('--no-cache', 'Parse every rule file instead of reusing the parse cache (or set RULES_D_CACHE=0)')
+  .option(
+    '--format <format>',
+    `Output format: ${OUTPUT_FORMATS.join(', ')} (graph also takes dot and mermaid; validate, check and lint take text, json, sarif and github)`
+  )
+  .option('-q, --quiet', 'Print only the ids of the results, one per line, for piping')
+  .option('--color', 'Color text output even when stdout is not a terminal')
+  .option('--no-color', 'Never color text output (or set NO_COLOR)');
+
+// Output piped into `head` and the like may be closed early; that is not an error
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code === 'EPIPE') {
+    process.exit(0);
+  }
+  throw error;
+});
+
+let config: ResolvedConfig | undefined;
+
+/**
+ * Configuration from the nearest .rulesrc, RULES_D_PATH and --rules-dir
+ */
+function getConfig(): ResolvedConfig {
+  if (!config) {
+    try {
+      config = loadConfig({ builtinDir: path.join(__dirname, '../..'), rulesDirs: program.opts().rulesDir });
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+  return config;
+}
+
+/**
+ * Analyzer over the configured rule sources, with the configured bundle
+ * policy, loading through the parse cache unless it is disabled
+ */
+function createAnalyzer(cache = createParseCache()): RuleAnalyzer {
+  const resolved = getConfig();
+  return new RuleAnalyzer(resolved.sources, { ...resolved, cache });
+}
+
+function createParseCache(): ParseCache | undefined {
+  return program.opts().cache && process.env.RULES_D_CACHE !== '0' ? new ParseCache() : undefined;
+}
+
+/**
+ * The --format given for a command, exiting when the command does not
+ * support it
+ */
+function outputFormat(supported: string[], exitCode = 1): string {
+  const format: string = program.opts().format ?? 'text';
+  if (!supported.includes(format)) {
+    console.error(`Unknown format: ${format} (expected ${supported.join(', ')})`);
+    process.exit(exitCode);
+  }
+  return format;
+}
+
+function isQuiet(): boolean {
+  return Boolean(program.opts().quiet);
+}
+
+/**
+ * Styles for text output, plain unless color is enabled
+ */
+function getStyle(): Style {
+  return createStyle(shouldColor(program.opts().color));
+}
+
+/**
+ * Print ids one per line, as --quiet does
+ */
+function printIds(ids: string[]): void {
+  ids.forEach((id) => console.log(id));
+}
+
+/**
+ * Tell how to get the next page; on stderr when stdout carries only ids
+ */
+function printNextCursor(result: RuleQueryResult): void {
+  if (result.nextCursor) {
+    (isQuiet() ? console.error : console.log)(`More results: --cursor ${result.nextCursor}`);
+  }
+}
+
+/**
+ * Option parser for counts such as token budgets, as strict as the MCP tools
+ */
+function parsePositiveInteger(value: string): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(number) || number <= 0) {
+    throw new InvalidArgumentError('Expected a positive integer.');
+  }
+  return number;
+}
+
+/**
+ * Print a bundle in any format but text, returning whether it was printed
+ */
+function printBundle(bundle: RuleBundle, format: string, summary: object = summarizeBundle(bundle)): boolean {
+  if (isQuiet()) {
+    printIds(bundle.rules.map((rule) => rule.metadata.id));
+  } else if (format === 'json' || format === 'yaml') {
+    console.log(formatData(summary, format));
+  } else if (format === 'markdown') {
+    console.log(renderBundleMarkdown(bundle));
+  } else if (format === 'table') {
+    const allocations = bundle.composition?.allocations;
+    const columns: Column<Rule>[] = [
+      { header: 'ID', value: (rule) => rule.metadata.id },
+      { header: 'Priority', value: (rule) => rule.metadata.priority || 'medium' },
+      { header: 'Score', value: (rule) => String(bundle.scores?.[rule.metadata.id]?.score ?? '') },
+      ...(allocations
+        ? [
+            {
+              header: 'Budget',
+              value: (rule: Rule) => {
+                const allocation = allocations.find((a) => a.ruleId === rule.metadata.id);
+                return allocation ? `${allocation.status} ${allocation.tokens}/${allocation.totalTokens}` : '';
+              },
+            },
+          ]
+        : []),
+      { header: 'Title', value: (rule) => rule.metadata.title },
+    ];
+    console.log(formatTable(bundle.rules, columns, { style: getStyle() }));
+  } else {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Filter, sort and paging options shared by list and search
+ */
+function withQueryOptions(command: Command): Command {
+  return command
+    .option('-c, --category <categories...>', 'Only rules in any of these categories')
+    .option('--subcategory <subcategories...>', 'Only rules in any of these subcategories')
+    .option('-l, --language <languages...>', 'Only rules for any of these languages (universal rules included)')
+    .option('-t, --tags <tags...>', 'Only rules with any of these tags')
+    .option('--all-tags <tags...>', 'Only rules with all of these tags')
+    .option('--exclude-tags <tags...>', 'Leave out rules with any of these tags')
+    .option('--priority <priorities...>', 'Only rules with any of these priorities (critical, high, medium, low)')
+    .option('--difficulty <levels...>', 'Only rules with any of these difficulties')
+    .option('--framework <frameworks...>', 'Only rules that apply to any of these frameworks')
+    .option('--author <authors...>', 'Only rules by any of these authors')
+    .option('--updated-since <date>', 'Only rules whose lastUpdated is on or after this date (YYYY-MM-DD)')
+    .option('--sort <key>', `Sort key (${RULE_SORT_KEYS.join(', ')})`)
+    .option('--order <order>', 'Sort order (asc, desc)')
+    .option('-n, --limit <limit>', 'Maximum number of results per page', (value) => parseInt(value, 10))
+    .option('--cursor <cursor>', 'Print the page after this cursor');
+}
+
+function toRuleQuery(options: OptionValues, text?: string): RuleQuery {
+  return {
+    filter: {
+      category: options.category,
+      subcategory: options.subcategory,
+      language: options.language,
+      tags: { any: options.tags, all: options.allTags, none: options.excludeTags },
+      priority: options.priority,
+      difficulty: options.difficulty,
+      framework: options.framework,
+      author: options.author,
+      updatedSince: options.updatedSince,
+    },
+    text,
+    sort: options.sort,
+    order: options.order,
+    limit: options.limit,
+    cursor: options.cursor,
+  };
+}
+
+/**
+ * Run a query, exiting with the error when its options are invalid
+ */
+function runQuery(analyzer: RuleAnalyzer, query: RuleQuery): RuleQueryResult {
+  try {
+    return analyzer.query(query);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
 
 // List rules command
-program
-  .command('list')
-  .description('List all available rules')
-  .option('-c, --category <category>', 'Filter by category')
-  .option('-l, --language <language>', 'Filter by language')
-  .option('-t, --tags <tags...>', 'Filter by tags')
+withQueryOptions(program.command('list'))
+  .description('List rules; filters narrow the list together')
   .action(async (options) => {
-    const analyzer = new RuleAnalyzer(path.join(__dirname, '../..'));
+    const format = outputFormat(OUTPUT_FORMATS);
+    const analyzer = createAnalyzer();
     await analyzer.initialize();
 
-    let rules = analyzer.getAllRules();
+    const result = runQuery(analyzer, toRuleQuery(options));
+    const rules = result.items.map(({ rule }) => rule);
 
-    if (options.category) {
-      rules = analyzer.searchByCategory(options.category);
+    if (isQuiet()) {
+      printIds(rules.map((rule) => rule.metadata.id));
+      printNextCursor(result);
+      return;
     }
-
-    if (options.language) {
-      rules = analyzer.searchByLanguage(options.language);
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData({ rules: rules.map(summarizeRule), total: result.total, nextCursor: result.nextCursor }, format));
+      return;
     }
-
-    if (options.tags) {
-      rules = analyzer.searchByTags(options.tags);
+    if (format === 'table' || format === 'markdown') {
+      const columns: Column<Rule>[] = [
+        { header: 'ID', value: (rule) => rule.metadata.id },
+        { header: 'Title', value: (rule) => rule.metadata.title },
+        { header: 'Category', value: (rule) => rule.metadata.category },
+        { header: 'Language', value: (rule) => [rule.metadata.language].flat().join(', ') },
+        { header: 'Tags', value: (rule) => rule.metadata.tags.join(', ') },
+        { header: 'Source', value: (rule) => rule.source },
+      ];
+      console.log(formatTable(rules, columns, { markdown: format === 'markdown', style: getStyle() }));
+      printNextCursor(result);
+      return;
     }
 
-    console.log(`Found ${rules.length} rules:\n`);
-    rules.forEach((rule) => {
-      console.log(`ID: ${rule.metadata.id}`);
+    const style = getStyle();
+    console.log(`Found ${result.total} rules:\n`);
+    result.items.forEach(({ rule }) => {
+      console.log(`ID: ${style.id(rule.metadata.id)}`);
       console.log(`Title: ${rule.metadata.title}`);
       console.log(`Category: ${rule.metadata.category}`);
       console.log(`Language: ${Array.isArray(rule.metadata.language) ? rule.metadata.language.join(', ') : rule.metadata.language}`);
       console.log(`Tags: ${rule.metadata.tags.join(', ')}`);
       console.log(`File: ${rule.filePath}`);
+      console.log(`Source: ${rule.source}`);
       console.log('---');
     });
+    printNextCursor(result);
   });
 
 // Get rule command
 program
   .command('get <ruleId>')
   .description('Get the content of a specific rule')
-  .action(async (ruleId) => {
-    const analyzer = new RuleAnalyzer(path.join(__dirname, '../..'));
+  .option('-s, --section <anchor>', 'Only print the section with this anchor or heading')
+  .option('--raw', 'Print exactly the markdown of the rule or section, without metadata')
+  .action(async (ruleId, options) => {
+    const format = outputFormat(OUTPUT_FORMATS);
+    const analyzer = createAnalyzer();
     await analyzer.initialize();
 
-    const rules = analyzer.getAllRules();
-    const rule = rules.find((r) => r.metadata.id === ruleId);
+    const rule = analyzer.getRule(ruleId);
 
     if (!rule) {
-      console.error(`Rule not found: ${ruleId}`);
+      const candidates = analyzer.getRuleCandidates(ruleId);
+      if (candidates.length > 1) {
+        console.error(`Ambiguous rule id: ${ruleId} (matches ${candidates.join(', ')})`);
+      } else {
+        console.error(`Rule not found: ${ruleId}`);
+      }
       process.exit(1);
     }
 
+    if (options.section) {
+      const section = analyzer.getRuleSection(rule.metadata.id, options.section);
+      if (!section) {
+        console.error(`Section not found: ${options.section} in ${rule.metadata.id}`);
+        console.error('Available sections:');
+        flattenSections(rule.sections)
+          .filter(({ section: s }) => s.level > 0)
+          .forEach(({ section: s }) => console.error(`${'  '.repeat(s.level - 1)}${s.anchor}`));
+        process.exit(1);
+      }
+
+      const markdown = getSectionMarkdown(rule.content, section);
+      if (options.raw) {
+        process.stdout.write(markdown);
+      } else if (isQuiet()) {
+        printIds([rule.metadata.id]);
+      } else if (format === 'json' || format === 'yaml') {
+        console.log(formatData(describeSection(rule, section), format));
+      } else {
+        console.log(markdown);
+      }
+      return;
+    }
+
+    if (options.raw) {
+      process.stdout.write(rule.content);
+      return;
+    }
+    if (isQuiet()) {
+      printIds([rule.metadata.id]);
+      return;
+    }
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData(describeRule(rule), format));
+      return;
+    }
+    if (format === 'markdown') {
+      // Front matter as in a rule file; the round trip drops undefined fields
+      console.log(matter.stringify(rule.content, JSON.parse(JSON.stringify(rule.metadata))).trimEnd());
+      return;
+    }
+    if (format === 'table') {
+      const fields = Object.entries(rule.metadata).filter(([, value]) => value !== undefined);
+      const columns: Column<[string, unknown]>[] = [
+        { header: 'Field', value: ([field]) => field },
+        {
+          header: 'Value',
+          value: ([, value]) =>
+            Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value),
+        },
+      ];
+      console.log(formatTable(fields, columns, { style: getStyle() }));
+      return;
+    }
+
     console.log('Metadata:');
     console.log(JSON.stringify(rule.metadata, null, 2));
     console.log('\nContent:');
     console.log(rule.content);
   });
 
+// Inspect rule command
+program
+  .command('inspect <ruleId>')
+  .description('Show declared and inferred metadata of a rule, and why languages and tags were inferred')
+  .action(async (ruleId) => {
+    const format = outputFormat(['text', 'json', 'yaml']);
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+
+    const inspection = analyzer.inspectRule(ruleId);
+    if (!inspection) {
+      const candidates = analyzer.getRuleCandidates(ruleId);
+      if (candidates.length > 1) {
+        console.error(`Ambiguous rule id: ${ruleId} (matches ${candidates.join(', ')})`);
+      } else {
+        console.error(`Rule not found: ${ruleId}`);
+      }
+      process.exit(1);
+    }
+
+    if (isQuiet()) {
+      printIds([inspection.ruleId]);
+      return;
+    }
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData(inspection, format));
+      return;
+    }
+
+    const formatValue = (value: unknown) =>
+      value === undefined ? '(none)' : Array.isArray(value) ? value.join(', ') : String(value);
+
+    console.log(`Rule: ${inspection.ruleId}`);
+    console.log(`File: ${inspection.filePath} (${inspection.source})\n`);
+    inspection.fields.forEach((field) => {
+      console.log(`${field.field}: ${formatValue(field.value)}  (${field.origin})`);
+      if (field.declared !== undefined && formatValue(field.declared) !== formatValue(field.inferred)) {
+        console.log(`   declared: ${formatValue(field.declared)}; inferred: ${formatValue(field.inferred)}`);
+      }
+    });
+
+    const printCandidates = (label: string, candidates: typeof inspection.classification.languages) => {
+      console.log(`\n${label} candidates (inferred at ${inspection.threshold.toFixed(2)} or above):`);
+      if (candidates.length === 0) {
+        console.log('   none');
+      }
+      candidates.forEach((candidate) => {
+        const marker = candidate.confidence >= inspection.threshold ? '*' : ' ';
+        console.log(` ${marker} ${candidate.value} ${candidate.confidence.toFixed(2)}: ${candidate.evidence.join('; ')}`);
+      });
+    };
+    printCandidates('Language', inspection.classification.languages);
+    printCandidates('Tag', inspection.classification.tags);
+  });
+
+// History command
+program
+  .command('history <ruleId>')
+  .description('List the commits that changed a rule, with its version at each')
+  .option('-n, --limit <limit>', 'Maximum number of commits', parsePositiveInteger)
+  .action(async (ruleId, options) => {
+    const format = outputFormat(['text', 'json', 'yaml']);
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+
+    let report;
+    try {
+      report = new RuleHistory(analyzer).getHistory(ruleId, options.limit);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    if (isQuiet()) {
+      printIds(report.commits.map((commit) => commit.hash));
+      return;
+    }
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData(report, format));
+      return;
+    }
+
+    console.log(`Rule: ${report.ruleId} (version ${report.version ?? '(none)'})`);
+    console.log(`File: ${report.filePath} (${report.source})\n`);
+    if (report.uncommitted) {
+      const warning = report.uncommitted.unbumped ? '  ! content changed without a version bump' : '';
+      console.log(`uncommitted  ${report.uncommitted.version ?? '-'}${warning}`);
+    }
+    if (report.commits.length === 0 && !report.uncommitted) {
+      console.log('No commits');
+    }
+    report.commits.forEach((commit) => {
+      const warning = commit.unbumped ? '  ! content changed without a version bump' : '';
+      console.log(
+        `${commit.shortHash}  ${commit.date.slice(0, 10)}  ${commit.version ?? '-'}  ${commit.subject} (${commit.author})${warning}`
+      );
+    });
+  });
+
+// Diff command
+program
+  .command('diff <ruleId> <from> [to]')
+  .description(`Compare a rule between two git revisions, section by section (to defaults to "${WORKING_TREE}", the file on disk)`)
+  .action(async (ruleId, from, to) => {
+    const format = outputFormat(['text', 'json', 'yaml']);
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+
+    let diff;
+    try {
+      diff = new RuleHistory(analyzer).diff(ruleId, from, to);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData(diff, format));
+      return;
+    }
+
+    const status = diff.added ? ' (added)' : diff.removed ? ' (removed)' : '';
+    console.log(`Rule: ${diff.ruleId}  ${diff.from} -> ${diff.to}${status}`);
+    console.log(`Version: ${diff.fromVersion ?? '(none)'} -> ${diff.toVersion ?? '(none)'}`);
+    if (diff.contentChanged && !diff.versionBumped && !diff.added && !diff.removed) {
+      console.log('Warning: content changed without a version bump');
+    }
+
+    if (diff.metadata.length > 0) {
+      console.log('\nMetadata:');
+      diff.metadata.forEach((change) => {
+        console.log(`  ${change.field}: ${JSON.stringify(change.before) ?? '(none)'} -> ${JSON.stringify(change.after) ?? '(none)'}`);
+      });
+    }
+
+    if (diff.sections.length === 0) {
+      console.log('\nNo section changes');
+      return;
+    }
+    console.log('\nSections:');
+    diff.sections.forEach((change) => {
+      const heading = change.headingPath.join(' > ') || '(preamble)';
+      const from = change.previousHeadingPath ? ` (was ${change.previousHeadingPath.join(' > ')})` : '';
+      console.log(`  ${change.type} ${heading}${from}  +${change.linesAdded} -${change.linesRemoved}`);
+    });
+    diff.sections
+      .filter((change) => change.diff)
+      .forEach((change) => console.log(`\n${change.diff}`));
+  });
+
+// Rule graph command
+program
+  .command('graph [ruleId]')
+  .description('Show the prerequisites and related rules of a rule, or of all rules')
+  .option('--depth <depth>', 'Maximum hops from the rule', (value) => parseInt(value, 10))
+  .option('--no-related', 'Only follow prerequisites')
+  .action(async (ruleId, options) => {
+    const format = outputFormat(['text', 'yaml', ...GRAPH_FORMATS]);
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+
+    const view = analyzer.getRuleGraph(ruleId, { depth: options.depth, related: options.related });
+    if (!view) {
+      const candidates = analyzer.getRuleCandidates(ruleId);
+      if (candidates.length > 1) {
+        console.error(`Ambiguous rule id: ${ruleId} (matches ${candidates.join(', ')})`);
+      } else {
+        console.error(`Rule not found: ${ruleId}`);
+      }
+      process.exit(1);
+    }
+
+    if (isQuiet()) {
+      printIds(view.root ? [...view.prerequisites, view.root] : view.nodes.map((node) => node.id));
+      return;
+    }
+    if (format === 'yaml') {
+      console.log(formatData(view, format));
+      return;
+    }
+    if (format !== 'text') {
+      console.log(renderGraph(view, format as GraphFormat));
+      return;
+    }
+
+    if (view.root) {
+      const related = view.edges.filter((e) => e.kind === 'related' && e.from === view.root).map((e) => e.to);
+      console.log(`Rule: ${view.root}`);
+      console.log(`\nPrerequisites, in reading order (${view.prerequisites.length}):`);
+      view.prerequisites.forEach((id, index) => console.log(`${index + 1}. ${id}`));
+      console.log(`\nRequired by: ${view.dependents.join(', ') || 'none'}`);
+      console.log(`Related: ${related.join(', ') || 'none'}`);
+    } else {
+      const prerequisites = view.edges.filter((e) => e.kind === 'prerequisite').length;
+      const related = view.edges.length - prerequisites;
+      console.log(`Rules: ${view.nodes.length}, prerequisites: ${prerequisites}, related: ${related}`);
+    }
+
+    if (view.cycles.length > 0) {
+      console.log('\nPrerequisite cycles:');
+      view.cycles.forEach((cycle) => console.log(`   ${cycle.join(' -> ')}`));
+    }
+    if (view.dangling.length > 0) {
+      console.log('\nUnresolved references:');
+      view.dangling.forEach((d) => console.log(`   ${d.from} ${d.kind}: ${d.reference}`));
+    }
+  });
+
 // Recommend bundle command
 program
   .command('recommend')
   .description('Get recommended rule bundle for a scenario')
-  .requiredOption('-t, --type <type>', 'Task type (coding, writing, etc.)')
+  .addOption(new Option('-t, --type <type>', 'Task type').choices(TASK_TYPES))
+  .option('-d, --detect <path>', 'Detect type, language and framework from a project directory')
   .option('-l, --language <language>', 'Programming language')
   .option('-f, --framework <framework>', 'Framework')
-  .option('-p, --priorities <priorities...>', 'Priority areas')
+  .option('-s, --scenario <scenario>', 'Scenario name (e.g. api-development)')
+  .addOption(new Option('-e, --environment <environment>', 'Environment').choices(ENVIRONMENTS))
+  .addOption(new Option('--complexity <complexity>', 'Task complexity').choices(COMPLEXITIES))
+  .addOption(new Option('-p, --priorities <priorities...>', 'Priority areas').choices(PRIORITIES))
+  .option('--max-tokens <tokens>', 'Pack the highest-value sections into this token budget', parsePositiveInteger)
+  .addOption(
+    new Option('--token-estimator <estimator>', 'Token approximation (default: chars)').choices(TOKEN_ESTIMATORS)
+  )
+  .option('--with-prerequisites', 'Add the prerequisites of recommended rules, ordered before them')
   .action(async (options) => {
-    const analyzer = new RuleAnalyzer(path.join(__dirname, '../..'));
+    const format = outputFormat(OUTPUT_FORMATS);
+    const defaults = getConfig().context;
+    if (!options.type && !options.detect && !defaults.type) {
+      console.error('Either --type or --detect <path> is required (or set context.type in .rulesrc)');
+      process.exit(1);
+    }
+
+    let project: DetectedProject | undefined;
+    if (options.detect) {
+      try {
+        project = new ProjectDetector().detect(options.detect);
+        if (format === 'text' && !isQuiet()) {
+          console.log(`Detected languages: ${project.languages.join(', ') || 'none'}`);
+          console.log(`Detected frameworks: ${project.frameworks.join(', ') || 'none'}`);
+          console.log(
+            `Detected environments: ${project.environments.join(', ') || 'none'}` +
+              (project.environments.length > 0 ? ' (informational, not used to rank rules)' : '') +
+              '\n'
+          );
+        }
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    }
+
+    const analyzer = createAnalyzer();
     await analyzer.initialize();
 
+    // Explicit options take precedence over detected values, which take
+    // precedence over configured defaults
+    const detected = project?.context;
     const context: ScenarioContext = {
-      type: options.type as any,
-      language: options.language,
-      framework: options.framework,
-      priorities: options.priorities as any,
+      type: options.type || detected?.type || defaults.type,
+      language: options.language || detected?.language || defaults.language,
+      languages: detected?.languages,
+      framework: options.framework || detected?.framework || defaults.framework,
+      scenario: options.scenario || defaults.scenario,
+      environment: options.environment || defaults.environment,
+      complexity: options.complexity || defaults.complexity,
+      priorities: options.priorities || defaults.priorities,
+      maxTokens: options.maxTokens ?? defaults.maxTokens,
+      tokenEstimator: options.tokenEstimator || defaults.tokenEstimator,
+      includePrerequisites: options.withPrerequisites ?? defaults.includePrerequisites,
     };
 
     const bundle = analyzer.recommendBundle(context);
 
+    // With --detect, data formats report what was detected as the
+    // detect_project_context tool does
+    const summary = project && { ...project, context, bundle: summarizeBundle(bundle) };
+    if (printBundle(bundle, format, summary)) {
+      return;
+    }
+
     console.log(`Bundle: ${bundle.name}`);
     console.log(`Description: ${bundle.description}`);
     console.log(`Scenarios: ${bundle.scenarios.join(', ')}`);
@@ -107,23 +666,71 @@ program
       console.log(`   Category: ${rule.metadata.category}`);
       console.log(`   Priority: ${rule.metadata.priority || 'medium'}`);
       console.log(`   File: ${rule.filePath}`);
+      const score = bundle.scores?.[rule.metadata.id];
+      if (score) {
+        console.log(`   Score: ${score.score}`);
+        score.reasons.forEach((reason) => {
+          const weight = reason.weight >= 0 ? `+${reason.weight}` : `${reason.weight}`;
+          console.log(`     ${weight} ${reason.description}`);
+        });
+      }
+      const allocation = bundle.composition?.allocations.find((a) => a.ruleId === rule.metadata.id);
+      if (allocation) {
+        console.log(`   Budget: ${allocation.status}, ${allocation.tokens}/${allocation.totalTokens} tokens (${allocation.reason})`);
+      }
       console.log('');
     });
+
+    if (bundle.composition) {
+      const { maxTokens, usedTokens, allocations } = bundle.composition;
+      console.log(`Token budget: ${usedTokens}/${maxTokens} used`);
+
+      const omitted = allocations.filter((a) => a.status === 'omitted');
+      if (omitted.length > 0) {
+        console.log(`\nOmitted rules (${omitted.length}):`);
+        omitted.forEach((a) => console.log(`   ${a.ruleId}: ${a.reason}`));
+      }
+    }
   });
 
-// Common bundles command
-program
+// Bundles commands
+const bundlesCommand = program
   .command('bundles')
+  .description('List and inspect bundles');
+
+bundlesCommand
+  .command('list', { isDefault: true })
   .description('List common pre-configured bundles')
   .action(async () => {
-    const analyzer = new RuleAnalyzer(path.join(__dirname, '../..'));
+    const format = outputFormat(OUTPUT_FORMATS);
+    const analyzer = createAnalyzer();
     await analyzer.initialize();
 
-    const bundles = analyzer.getCommonBundles();
+    const entries = Object.entries(analyzer.getCommonBundles());
+
+    if (isQuiet()) {
+      printIds(entries.map(([key]) => key));
+      return;
+    }
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData({ bundles: entries.map(([key, bundle]) => summarizeCommonBundle(key, bundle)) }, format));
+      return;
+    }
+    if (format === 'table' || format === 'markdown') {
+      const columns: Column<[string, RuleBundle]>[] = [
+        { header: 'ID', value: ([key]) => key },
+        { header: 'Rules', value: ([, bundle]) => String(bundle.rules.length) },
+        { header: 'Name', value: ([, bundle]) => bundle.name },
+        { header: 'Scenarios', value: ([, bundle]) => bundle.scenarios.join(', ') },
+      ];
+      console.log(formatTable(entries, columns, { markdown: format === 'markdown', style: getStyle() }));
+      return;
+    }
 
+    const style = getStyle();
     console.log('Common bundles:\n');
-    Object.entries(bundles).forEach(([key, bundle]) => {
-      console.log(`ID: ${key}`);
+    entries.forEach(([key, bundle]) => {
+      console.log(`ID: ${style.id(key)}`);
       console.log(`Name: ${bundle.name}`);
       console.log(`Description: ${bundle.description}`);
       console.log(`Rules: ${bundle.rules.length}`);
@@ -132,42 +739,351 @@ program
     });
   });
 
-// Search command
-program
-  .command('search <query>')
-  .description('Search rules by text query')
-  .option('-c, --category <category>', 'Filter by category')
-  .option('-l, --language <language>', 'Filter by language')
-  .action(async (query, options) => {
-    const analyzer = new RuleAnalyzer(path.join(__dirname, '../..'));
+bundlesCommand
+  .command('show <bundleId>')
+  .description('Show the definition of a bundle and the rules it resolves to')
+  .action(async (bundleId) => {
+    const format = outputFormat(OUTPUT_FORMATS);
+    const analyzer = createAnalyzer();
     await analyzer.initialize();
 
-    let rules = analyzer.getAllRules();
+    const bundle = analyzer.getBundle(bundleId);
+    const declaration = analyzer.getBundleDeclarations().find((d) => d.id === bundleId);
+    if (!bundle || !declaration) {
+      console.error(`Bundle not found: ${bundleId}`);
+      process.exit(1);
+    }
 
-    if (options.category) {
-      rules = rules.filter((r) => r.metadata.category === options.category);
+    if (printBundle(bundle, format, describeDeclaredBundle(declaration, bundle))) {
+      return;
     }
 
-    if (options.language) {
-      rules = analyzer.searchByLanguage(options.language);
+    console.log(`ID: ${bundleId}`);
+    console.log(`Name: ${bundle.name}`);
+    console.log(`Description: ${bundle.description}`);
+    console.log(`Defined in: ${declaration.origin}`);
+    if (declaration.definition.extends) {
+      console.log(`Extends: ${declaration.definition.extends}`);
     }
+    console.log(`\nRules (${bundle.rules.length}):\n`);
 
-    const queryLower = query.toLowerCase();
-    rules = rules.filter(
-      (r) =>
-        r.metadata.title.toLowerCase().includes(queryLower) ||
-        r.metadata.description?.toLowerCase().includes(queryLower) ||
-        r.content.toLowerCase().includes(queryLower)
-    );
+    bundle.rules.forEach((rule, index) => {
+      const score = bundle.scores?.[rule.metadata.id];
+      console.log(`${index + 1}. ${rule.metadata.id} - ${rule.metadata.title}${score ? ` (score ${score.score})` : ''}`);
+    });
+  });
+
+// Search command
+withQueryOptions(program.command('search <query>'))
+  .description('Search rules by text query, with the same filters as list')
+  .action(async (query, options) => {
+    const format = outputFormat(OUTPUT_FORMATS);
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+
+    const result = runQuery(analyzer, toRuleQuery(options, query));
 
-    console.log(`Found ${rules.length} rules matching "${query}":\n`);
-    rules.forEach((rule) => {
-      console.log(`ID: ${rule.metadata.id}`);
+    if (isQuiet()) {
+      printIds(result.items.map(({ rule }) => rule.metadata.id));
+      printNextCursor(result);
+      return;
+    }
+    if (format === 'json' || format === 'yaml') {
+      const rules = result.items.map(summarizeSearchResult);
+      console.log(formatData({ rules, total: result.total, nextCursor: result.nextCursor }, format));
+      return;
+    }
+    if (format === 'table' || format === 'markdown') {
+      const columns: Column<RuleQueryItem>[] = [
+        { header: 'ID', value: ({ rule }) => rule.metadata.id },
+        { header: 'Score', value: ({ hit }) => (hit ? String(hit.score) : '') },
+        { header: 'Section', value: ({ hit }) => hit?.headingPath.join(' > ') ?? '' },
+        { header: 'Title', value: ({ rule }) => rule.metadata.title },
+      ];
+      console.log(formatTable(result.items, columns, { markdown: format === 'markdown', style: getStyle() }));
+      printNextCursor(result);
+      return;
+    }
+
+    const style = getStyle();
+    console.log(`Found ${result.total} rules matching "${query}":\n`);
+    result.items.forEach(({ rule, hit }) => {
+      console.log(`ID: ${style.id(rule.metadata.id)}`);
       console.log(`Title: ${rule.metadata.title}`);
-      console.log(`Category: ${rule.metadata.category}`);
+      if (hit) {
+        console.log(`Score: ${hit.score}`);
+        console.log(`Section: ${hit.headingPath.join(' > ')} (#${hit.anchor})`);
+        console.log(`Snippet: ${hit.snippet}`);
+      }
       console.log(`File: ${rule.filePath}`);
       console.log('---');
     });
+    printNextCursor(result);
+  });
+
+// Export command
+program
+  .command('export')
+  .description('Export a bundle to agent rule files (Cursor, CLAUDE.md, AGENTS.md, Copilot, Windsurf, Cline)')
+  .option('--target <formats...>', `Target formats (${EXPORT_FORMATS.join(', ')}); defaults to export.formats in .rulesrc`)
+  .option('-b, --bundle <bundleId>', 'Export a common bundle')
+  .option('-r, --rules <ruleIds...>', 'Export exactly these rules')
+  .addOption(new Option('-t, --type <type>', 'Task type for a recommended bundle').choices(TASK_TYPES))
+  .option('-l, --language <language>', 'Programming language')
+  .option('-f, --framework <framework>', 'Framework')
+  .addOption(new Option('-p, --priorities <priorities...>', 'Priority areas').choices(PRIORITIES))
+  .option('-o, --out <dir>', 'Target directory (default: export.targetDir in .rulesrc, or .)')
+  .option('--dry-run', 'Show a diff of what would change without writing files')
+  .action(async (options) => {
+    const output = outputFormat(['text', 'json', 'yaml']);
+    const { context: defaults, export: exportDefaults } = getConfig();
+    const formats: string[] = options.target || exportDefaults.formats;
+    if (formats.length === 0) {
+      console.error('No export formats given: use --target or set export.formats in .rulesrc');
+      process.exit(1);
+    }
+
+    const unknown = formats.filter((format: string) => !EXPORT_FORMATS.includes(format as ExportFormat));
+    if (unknown.length > 0) {
+      console.error(`Unknown format: ${unknown.join(', ')}`);
+      process.exit(1);
+    }
+
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+
+    let bundle: RuleBundle;
+    if (options.rules) {
+      const rules = options.rules.map((ruleId: string) => {
+        const rule = analyzer.getRule(ruleId);
+        if (!rule) {
+          console.error(`Rule not found: ${ruleId}`);
+          process.exit(1);
+        }
+        return rule;
+      });
+      bundle = { name: 'Selected rules', description: 'Rules selected by ID', rules, scenarios: [] };
+    } else if (options.bundle) {
+      const declared = analyzer.getBundle(options.bundle);
+      if (!declared) {
+        console.error(`Bundle not found: ${options.bundle}`);
+        process.exit(1);
+      }
+      bundle = declared;
+    } else if (options.type || defaults.type) {
+      bundle = analyzer.recommendBundle({
+        ...defaults,
+        type: options.type || defaults.type,
+        language: options.language || defaults.language,
+        framework: options.framework || defaults.framework,
+        priorities: options.priorities || defaults.priorities,
+      });
+    } else {
+      console.error('One of --rules, --bundle or --type is required (or set context.type in .rulesrc)');
+      process.exit(1);
+    }
+
+    const files = (formats as ExportFormat[]).flatMap((format) => renderExport(bundle, format));
+    const results = applyExport(files, options.out || exportDefaults.targetDir, { dryRun: options.dryRun });
+
+    if (isQuiet()) {
+      printIds(files.filter((file, index) => results[index].status !== 'unchanged').map((file) => file.path));
+      return;
+    }
+    if (output === 'json' || output === 'yaml') {
+      console.log(formatData(summarizeExport(files, results), output));
+      return;
+    }
+
+    files.forEach((file, index) => {
+      const result = results[index];
+      const action = options.dryRun && result.status !== 'unchanged' ? `would be ${result.status}` : result.status;
+      console.log(`${file.path}: ${action}`);
+      file.warnings.forEach((warning) => console.log(`  warning: ${warning}`));
+      if (options.dryRun && result.diff) {
+        console.log(result.diff);
+      }
+    });
+  });
+
+// Validate command
+program
+  .command('validate')
+  .description('Validate rule frontmatter against the rule metadata schema')
+  .action(async () => {
+    const format = outputFormat(DIAGNOSTIC_FORMATS, 2) as DiagnosticFormat;
+
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+
+    const diagnostics = new RuleValidator(analyzer).validateAll();
+    console.log(formatDiagnostics(diagnostics, format, 'rules-cli validate'));
+
+    if (diagnostics.some((d) => d.severity === 'error')) {
+      process.exit(1);
+    }
+  });
+
+// Check command
+program
+  .command('check [path]')
+  .description('Check a directory, or the lines added by a diff, against the checks declared by rules')
+  .option('--diff <file>', 'Check the added lines of a unified diff instead (- for stdin)')
+  .option('-r, --rule <ruleIds...>', 'Only run the checks of these rules')
+  .action(async (targetPath: string | undefined, options) => {
+    const format = outputFormat(DIAGNOSTIC_FORMATS, 2) as DiagnosticFormat;
+    if (targetPath && options.diff) {
+      console.error('Pass either a path or --diff, not both');
+      process.exit(2);
+    }
+
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+    const checker = new ComplianceChecker(analyzer);
+
+    let diagnostics;
+    try {
+      diagnostics = options.diff
+        ? checker.checkDiff(fs.readFileSync(options.diff === '-' ? 0 : options.diff, 'utf-8'), { ruleIds: options.rule })
+        : checker.checkDirectory(path.resolve(targetPath || '.'), { ruleIds: options.rule });
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    console.log(formatDiagnostics(diagnostics, format, 'rules-cli check'));
+
+    if (diagnostics.some((d) => d.severity === 'error')) {
+      process.exit(1);
+    }
+  });
+
+// Lint command
+program
+  .command('lint [ruleIds...]')
+  .description('Lint the markdown of rule files for structure, links, code fences and metadata')
+  .option('--fix', 'Apply safe fixes to the named rules, or to every rule of the --rules-dir sources')
+  .option('--list', 'List the lint rules and their default severities')
+  .action(async (ruleIds: string[], options) => {
+    const format = outputFormat(DIAGNOSTIC_FORMATS, 2) as DiagnosticFormat;
+
+    const resolved = getConfig();
+    const analyzer = createAnalyzer();
+    await analyzer.initialize();
+
+    let diagnostics;
+    try {
+      const linter = new RuleLinter(analyzer, resolved.lint.rules);
+      (await loadLintPlugins(resolved.lint.plugins)).forEach((lintRule) => linter.register(lintRule));
+
+      if (options.list) {
+        linter.getLintRules().forEach((lintRule) => {
+          console.log(`${lintRule.code} (${lintRule.defaultSeverity}): ${lintRule.description}`);
+        });
+        return;
+      }
+
+      if (options.fix) {
+        const result = linter.fix(ruleIds);
+        result.fixedFiles.forEach((filePath) => console.error(`Fixed ${filePath}`));
+        diagnostics = result.diagnostics;
+      } else {
+        diagnostics = linter.lint(ruleIds);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    console.log(formatDiagnostics(diagnostics, format, 'rules-cli lint'));
+
+    if (diagnostics.some((d) => d.severity === 'error')) {
+      process.exit(1);
+    }
+  });
+
+// Config command
+const configCommand = program
+  .command('config')
+  .description('Inspect the project configuration (.rulesrc)');
+
+configCommand
+  .command('show')
+  .description('Print the resolved configuration and where each value came from')
+  .action(() => {
+    const format = outputFormat(['text', 'json', 'yaml']);
+    const resolved = getConfig();
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData(resolved, format));
+      return;
+    }
+
+    const { origins } = resolved;
+    const show = (key: string, value: unknown) => {
+      const text = Array.isArray(value) ? value.join(', ') || '(none)' : String(value);
+      console.log(`${key} = ${text}  (${origins[key] || 'default'})`);
+    };
+
+    console.log(`Config file: ${resolved.filePath || '(none found)'}\n`);
+
+    const contextKeys = Object.keys(resolved.context) as Array<keyof ScenarioContext>;
+    if (contextKeys.length === 0) {
+      console.log('context = (none)  (default)');
+    }
+    contextKeys.forEach((key) => show(`context.${key}`, resolved.context[key]));
+
+    show('pinned', resolved.pinned);
+    show('exclude.rules', resolved.exclude.rules);
+    show('exclude.tags', resolved.exclude.tags);
+    resolved.sources.forEach((source, index) => show(`sources[${index}]`, `${source.name} ${source.path}`));
+    Object.entries(resolved.bundles).forEach(([id, definition]) => show(`bundles.${id}`, JSON.stringify(definition)));
+    show('export.formats', resolved.export.formats);
+    show('export.targetDir', resolved.export.targetDir);
+    show('lint.rules', Object.entries(resolved.lint.rules).map(([code, setting]) => `${code}: ${JSON.stringify(setting)}`));
+    show('lint.plugins', resolved.lint.plugins);
+  });
+
+// Cache command
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the cache of parsed rule files');
+
+cacheCommand
+  .command('clear')
+  .description('Delete the parse cache')
+  .action(() => {
+    const format = outputFormat(['text', 'json', 'yaml']);
+    const cache = new ParseCache();
+    const cleared = cache.clear();
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData({ filePath: cache.filePath, cleared }, format));
+      return;
+    }
+    console.log(cleared ? `Cleared ${cache.filePath}` : `No cache at ${cache.filePath}`);
+  });
+
+cacheCommand
+  .command('stats')
+  .description('Load the rules through the parse cache and report what it holds and how much was reused')
+  .action(async () => {
+    const format = outputFormat(['text', 'json', 'yaml']);
+    const cache = new ParseCache();
+    await createAnalyzer(cache).initialize();
+    const stats = cache.stats();
+
+    if (format === 'json' || format === 'yaml') {
+      console.log(formatData(stats, format));
+      return;
+    }
+
+    const sources = Object.entries(stats.files).map(([source, count]) => `${source} ${count}`);
+    const total = Object.values(stats.files).reduce((sum, count) => sum + count, 0);
+    console.log(`Cache file: ${stats.filePath}${stats.exists ? '' : ' (not written)'}`);
+    console.log(`Size: ${(stats.size / 1024).toFixed(1)} KB`);
+    console.log(`Updated: ${stats.updatedAt ?? '-'}`);
+    console.log(`Files: ${total}${sources.length > 0 ? ` (${sources.join(', ')})` : ''}`);
+    console.log(`Indexed: ${stats.indexed}`);
+    console.log(`This load: ${stats.hits} reused, ${stats.misses} parsed`);
   });
 
 program.parse();
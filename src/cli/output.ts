@@ -0,0 +1,91 @@
+import yaml from 'js-yaml';
+
+export type OutputFormat = 'text' | 'json' | 'yaml' | 'markdown' | 'table';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'yaml', 'markdown', 'table'];
+
+export interface Style {
+  bold(text: string): string;
+  dim(text: string): string;
+  // Rule and bundle ids
+  id(text: string): string;
+  warning(text: string): string;
+}
+
+export interface Column<T> {
+  header: string;
+  value(row: T): string;
+}
+
+/**
+ * Whether text output is colored: --color or --no-color, then NO_COLOR and
+ * FORCE_COLOR, then whether stdout is a terminal
+ */
+export function shouldColor(flag: boolean | undefined, env: NodeJS.ProcessEnv = process.env): boolean {
+  if (flag !== undefined) {
+    return flag;
+  }
+  if (env.NO_COLOR) {
+    return false;
+  }
+  if (env.FORCE_COLOR !== undefined) {
+    return env.FORCE_COLOR !== '0';
+  }
+  return Boolean(process.stdout.isTTY);
+}
+
+export function createStyle(color: boolean): Style {
+  const ansi = (code: string) => (text: string) => (color ? `\x1b[${code}m${text}\x1b[0m` : text);
+  return {
+    bold: ansi('1'),
+    dim: ansi('2'),
+    id: ansi('36'),
+    warning: ansi('33'),
+  };
+}
+
+/**
+ * JSON or YAML of a value, leaving out undefined fields as JSON does
+ */
+export function formatData(value: unknown, format: 'json' | 'yaml'): string {
+  if (format === 'json') {
+    return JSON.stringify(value, null, 2);
+  }
+  return yaml.dump(JSON.parse(JSON.stringify(value)), { lineWidth: -1, noRefs: true }).trimEnd();
+}
+
+/**
+ * Rows as a table with aligned columns, or as a GitHub-flavored markdown table
+ */
+export function formatTable<T>(
+  rows: T[],
+  columns: Column<T>[],
+  options: { markdown?: boolean; style?: Style } = {}
+): string {
+  const cells = rows.map((row) => columns.map((column) => column.value(row).replace(/\s*\n\s*/g, ' ')));
+
+  if (options.markdown) {
+    const escape = (text: string) => text.replace(/\|/g, '\\|');
+    return [
+      `| ${columns.map((column) => escape(column.header)).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...cells.map((row) => `| ${row.map(escape).join(' | ')} |`),
+    ].join('\n');
+  }
+
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map((row) => row[index].length))
+  );
+  // Pad before styling, so escape codes do not count towards the width
+  const line = (values: string[], styleCell: (text: string, index: number) => string) =>
+    values
+      .map((value, index) => styleCell(index === values.length - 1 ? value : value.padEnd(widths[index]), index))
+      .join('  ')
+      .trimEnd();
+
+  const style = options.style;
+  return [
+    line(columns.map((column) => column.header.toUpperCase()), (text) => (style ? style.bold(text) : text)),
+    ...cells.map((row) => line(row, (text, index) => (style && index === 0 ? style.id(text) : text))),
+  ].join('\n');
+}
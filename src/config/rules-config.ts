@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { ResolvedConfig, RulesConfigFile } from '../types/config.js';
+import { ExportFormat } from '../types/export.js';
+import { EXPORT_FORMATS } from '../exporter/bundle-exporter.js';
+import { resolveRuleSources, splitRulesPath } from '../utils/rule-sources.js';
+import { BundleDefinitionSchema, ScenarioContextSchema } from '../bundles/bundle-schema.js';
+
+export const CONFIG_FILE_NAMES = ['.rulesrc', '.rulesrc.json'];
+
+const LintSeveritySchema = z.enum(['off', 'error', 'warning', 'info']);
+
+const LintRuleSettingSchema = z.union([
+  LintSeveritySchema,
+  z.object({ severity: LintSeveritySchema.optional() }).passthrough(),
+]);
+
+const RulesConfigSchema = z
+  .object({
+    context: ScenarioContextSchema.optional(),
+    pinned: z.array(z.string().min(1)).optional(),
+    exclude: z
+      .object({
+        rules: z.array(z.string().min(1)).optional(),
+        tags: z.array(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+    sources: z.array(z.string().min(1)).optional(),
+    bundles: z.record(BundleDefinitionSchema).optional(),
+    export: z
+      .object({
+        formats: z
+          .array(
+            z.string().refine((format) => EXPORT_FORMATS.includes(format as ExportFormat), {
+              message: `Format must be one of ${EXPORT_FORMATS.join(', ')}`,
+            })
+          )
+          .optional(),
+        targetDir: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    lint: z
+      .object({
+        rules: z.record(LintRuleSettingSchema).optional(),
+        plugins: z.array(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export interface LoadConfigOptions {
+  // Directory to start looking for a config file from; defaults to the cwd
+  cwd?: string;
+  // Directory of the bundled rules, always the lowest source
+  builtinDir: string;
+  // Directories from --rules-dir, highest precedence
+  rulesDirs?: string[];
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Find the nearest config file in `startDir` or one of its parents
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a config file
+ */
+export function readConfigFile(filePath: string): RulesConfigFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid config ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = RulesConfigSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    throw new Error(`Invalid config ${filePath}: ${issues.join('; ')}`);
+  }
+
+  return parsed.data as RulesConfigFile;
+}
+
+/**
+ * Resolve the configuration shared by the CLI and the MCP server: built-in
+ * defaults, then the nearest config file, then RULES_D_PATH and --rules-dir
+ * for rule sources. Records where every value came from.
+ */
+export function loadConfig(options: LoadConfigOptions): ResolvedConfig {
+  const env = options.env || process.env;
+  const filePath = findConfigFile(options.cwd || process.cwd());
+  const file = filePath ? readConfigFile(filePath) : {};
+  const origins: Record<string, string> = {};
+  const fromFile = (key: string, value: unknown) => {
+    origins[key] = value === undefined ? 'default' : filePath!;
+  };
+
+  const context = { ...file.context };
+  for (const key of Object.keys(context)) {
+    fromFile(`context.${key}`, context[key as keyof typeof context]);
+  }
+
+  fromFile('pinned', file.pinned);
+  fromFile('exclude.rules', file.exclude?.rules);
+  fromFile('exclude.tags', file.exclude?.tags);
+  fromFile('export.formats', file.export?.formats);
+  fromFile('export.targetDir', file.export?.targetDir);
+  fromFile('lint.rules', file.lint?.rules);
+  fromFile('lint.plugins', file.lint?.plugins);
+  for (const id of Object.keys(file.bundles || {})) {
+    fromFile(`bundles.${id}`, file.bundles![id]);
+  }
+
+  // Config file sources are relative to the file; later layers win
+  const layers = [
+    ...(file.sources || []).map((dir) => ({ dir: path.resolve(path.dirname(filePath!), dir), origin: filePath! })),
+    ...splitRulesPath(env.RULES_D_PATH).map((dir) => ({ dir: path.resolve(dir), origin: 'RULES_D_PATH' })),
+    ...(options.rulesDirs || []).map((dir) => ({ dir: path.resolve(dir), origin: '--rules-dir' })),
+  ];
+  const sources = resolveRuleSources(options.builtinDir, layers.map((layer) => layer.dir));
+  sources.forEach((source, index) => {
+    origins[`sources[${index}]`] = layers.find((layer) => layer.dir === source.path)?.origin || 'built-in';
+  });
+
+  return {
+    filePath,
+    context,
+    pinned: file.pinned || [],
+    exclude: {
+      rules: file.exclude?.rules || [],
+      tags: file.exclude?.tags || [],
+    },
+    sources,
+    bundles: file.bundles || {},
+    export: {
+      formats: file.export?.formats || [],
+      // Relative to the config file, like sources
+      targetDir: file.export?.targetDir
+        ? path.resolve(path.dirname(filePath!), file.export.targetDir)
+        : '.',
+    },
+    lint: {
+      rules: file.lint?.rules || {},
+      plugins: (file.lint?.plugins || []).map((plugin) => path.resolve(path.dirname(filePath!), plugin)),
+    },
+    origins,
+  };
+}
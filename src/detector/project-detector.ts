@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globSync } from 'glob';
+import { DetectedProject, DetectionEvidence } from '../types/project.js';
+import { ScenarioContext } from '../types/rule.js';
+
+// Dependency names (or fragments of them) that identify a framework
+const FRAMEWORK_MARKERS: Record<string, Record<string, string>> = {
+  javascript: {
+    react: 'react',
+    next: 'nextjs',
+    vue: 'vue',
+    nuxt: 'nuxt',
+    '@angular/core': 'angular',
+    svelte: 'svelte',
+    express: 'express',
+    fastify: 'fastify',
+    '@nestjs/core': 'nestjs',
+  },
+  python: {
+    django: 'django',
+    flask: 'flask',
+    fastapi: 'fastapi',
+    pandas: 'pandas',
+    pytest: 'pytest',
+  },
+  go: {
+    'github.com/gin-gonic/gin': 'gin',
+    'github.com/labstack/echo': 'echo',
+    'github.com/gofiber/fiber': 'fiber',
+  },
+  rust: {
+    'actix-web': 'actix-web',
+    axum: 'axum',
+    rocket: 'rocket',
+    tokio: 'tokio',
+  },
+  java: {
+    'spring-boot': 'spring-boot',
+    quarkus: 'quarkus',
+  },
+  csharp: {
+    'Microsoft.NET.Sdk.Web': 'aspnetcore',
+    'Microsoft.AspNetCore': 'aspnetcore',
+  },
+};
+
+const LOCKFILES: Record<string, { language: string; packageManager: string }> = {
+  'package-lock.json': { language: 'javascript', packageManager: 'npm' },
+  'yarn.lock': { language: 'javascript', packageManager: 'yarn' },
+  'pnpm-lock.yaml': { language: 'javascript', packageManager: 'pnpm' },
+  'bun.lockb': { language: 'javascript', packageManager: 'bun' },
+  'poetry.lock': { language: 'python', packageManager: 'poetry' },
+  'Pipfile.lock': { language: 'python', packageManager: 'pipenv' },
+  'uv.lock': { language: 'python', packageManager: 'uv' },
+  'go.sum': { language: 'go', packageManager: 'go-modules' },
+  'Cargo.lock': { language: 'rust', packageManager: 'cargo' },
+};
+
+const IGNORE = ['**/node_modules/**', '**/.git/**', '**/dist/**', '**/build/**', '**/target/**', '**/vendor/**', '**/.venv/**'];
+
+/**
+ * Infers a scenario context from the manifests, lockfiles and infrastructure
+ * files of a local project directory
+ */
+export class ProjectDetector {
+  private maxDepth: number;
+
+  constructor(maxDepth = 3) {
+    this.maxDepth = maxDepth;
+  }
+
+  /**
+   * Scan a directory and describe the project found there
+   */
+  detect(projectDir: string): DetectedProject {
+    const root = path.resolve(projectDir);
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      throw new Error(`Not a directory: ${projectDir}`);
+    }
+
+    const evidence: DetectionEvidence[] = [];
+    const record = (file: string, kind: DetectionEvidence['kind'], value: string) => {
+      evidence.push({ file: path.relative(root, file) || '.', kind, value });
+    };
+
+    for (const file of this.find(root, '**/package.json')) {
+      const manifest = this.readJson(file);
+      const dependencies = [
+        ...new Set([...fieldKeys(manifest, 'dependencies'), ...fieldKeys(manifest, 'devDependencies')]),
+      ];
+      const hasTypeScript =
+        dependencies.includes('typescript') || fs.existsSync(path.join(path.dirname(file), 'tsconfig.json'));
+
+      record(file, 'language', hasTypeScript ? 'typescript' : 'javascript');
+      this.matchFrameworks('javascript', dependencies, file, record);
+    }
+
+    for (const file of this.find(root, '**/{pyproject.toml,requirements*.txt,setup.py,Pipfile}')) {
+      record(file, 'language', 'python');
+      this.matchFrameworks('python', this.dependencyWords(file), file, record);
+    }
+
+    for (const file of this.find(root, '**/go.mod')) {
+      record(file, 'language', 'go');
+      this.matchFrameworks('go', this.dependencyWords(file), file, record);
+    }
+
+    for (const file of this.find(root, '**/Cargo.toml')) {
+      record(file, 'language', 'rust');
+      this.matchFrameworks('rust', this.dependencyWords(file), file, record);
+    }
+
+    for (const file of this.find(root, '**/*.csproj')) {
+      record(file, 'language', 'csharp');
+      this.matchFrameworks('csharp', this.dependencyWords(file), file, record);
+    }
+
+    for (const file of this.find(root, '**/{pom.xml,build.gradle,build.gradle.kts}')) {
+      record(file, 'language', 'java');
+      this.matchFrameworks('java', this.dependencyWords(file), file, record);
+    }
+
+    for (const file of this.find(root, '**/{Dockerfile,*.Dockerfile,docker-compose.yml,docker-compose.yaml,compose.yaml}')) {
+      record(file, 'environment', 'docker');
+    }
+
+    for (const file of this.find(root, '.github/workflows/*.{yml,yaml}')) {
+      record(file, 'environment', 'github-actions');
+    }
+
+    for (const file of this.find(root, '**/{Chart.yaml,kustomization.yaml}')) {
+      record(file, 'environment', 'kubernetes');
+    }
+
+    for (const file of this.find(root, `**/{${Object.keys(LOCKFILES).join(',')}}`)) {
+      const lockfile = LOCKFILES[path.basename(file)];
+      record(file, 'package-manager', lockfile.packageManager);
+      if (!evidence.some((e) => e.kind === 'language' && this.sameLanguage(e.value, lockfile.language))) {
+        record(file, 'language', lockfile.language);
+      }
+    }
+
+    const languages = this.rank(evidence, 'language');
+    const frameworks = this.rank(evidence, 'framework');
+    const environments = this.rank(evidence, 'environment');
+
+    const context: ScenarioContext = {
+      type: languages.length > 0 ? 'coding' : environments.length > 0 ? 'devops' : 'general',
+      language: languages[0],
+      ...(languages.length > 1 && { languages }),
+      framework: frameworks[0],
+    };
+
+    return {
+      root,
+      context,
+      languages,
+      frameworks,
+      environments,
+      packageManagers: this.rank(evidence, 'package-manager'),
+      evidence,
+    };
+  }
+
+  private find(root: string, pattern: string): string[] {
+    return globSync(pattern, {
+      cwd: root,
+      absolute: true,
+      dot: true,
+      nodir: true,
+      maxDepth: this.maxDepth,
+      ignore: IGNORE,
+    }).sort();
+  }
+
+  private readJson(file: string): unknown {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Words of a manifest, good enough to spot dependency names
+   * without parsing TOML, XML or Gradle
+   */
+  private dependencyWords(file: string): string[] {
+    const text = fs.readFileSync(file, 'utf-8');
+    return text.match(/[A-Za-z0-9@._/-]+/g) || [];
+  }
+
+  private matchFrameworks(
+    language: string,
+    words: string[],
+    file: string,
+    record: (file: string, kind: DetectionEvidence['kind'], value: string) => void
+  ): void {
+    const lowerWords = new Set(words.map((word) => word.toLowerCase()));
+    const found = new Set<string>();
+
+    for (const [marker, framework] of Object.entries(FRAMEWORK_MARKERS[language])) {
+      const lowerMarker = marker.toLowerCase();
+      const matched =
+        lowerWords.has(lowerMarker) ||
+        [...lowerWords].some((word) => /^[/.-]/.test(word.slice(lowerMarker.length)) && word.startsWith(lowerMarker));
+      if (matched && !found.has(framework)) {
+        found.add(framework);
+        record(file, 'framework', framework);
+      }
+    }
+  }
+
+  private sameLanguage(a: string, b: string): boolean {
+    const family = (language: string) => (language === 'typescript' ? 'javascript' : language);
+    return family(a) === family(b);
+  }
+
+  /**
+   * Distinct values of one kind, most frequently seen first
+   */
+  private rank(evidence: DetectionEvidence[], kind: DetectionEvidence['kind']): string[] {
+    const counts = new Map<string, number>();
+    for (const item of evidence) {
+      if (item.kind === kind) {
+        counts.set(item.value, (counts.get(item.value) || 0) + 1);
+      }
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+  }
+}
+
+// Keys of an object field of parsed JSON, or none when the JSON or the
+// field is not an object
+function fieldKeys(json: unknown, field: string): string[] {
+  if (typeof json !== 'object' || json === null) {
+    return [];
+  }
+  const value = (json as Record<string, unknown>)[field];
+  return typeof value === 'object' && value !== null ? Object.keys(value) : [];
+}
@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Rule, RuleAllocation, RuleBundle, RuleSection } from '../types/rule.js';
+import { ExportFile, ExportFormat, ExportResult } from '../types/export.js';
+import { flattenSections, renderSections } from '../utils/markdown.js';
+import { formatUnifiedDiff } from '../utils/diff.js';
+
+const BEGIN_MARKER = '<!-- rules.d:begin -->';
+const END_MARKER = '<!-- rules.d:end -->';
+
+// Cursor suggests keeping each rule file under this many lines
+const CURSOR_MAX_LINES = 500;
+
+interface SingleFileFormat {
+  path: string;
+  maxChars?: number;
+}
+
+// Formats that hold every rule in one instruction file, shared with user content
+const SINGLE_FILE_FORMATS: Record<Exclude<ExportFormat, 'cursor'>, SingleFileFormat> = {
+  cursorrules: { path: '.cursorrules' },
+  claude: { path: 'CLAUDE.md' },
+  agents: { path: 'AGENTS.md' },
+  copilot: { path: '.github/copilot-instructions.md' },
+  windsurf: { path: '.windsurfrules', maxChars: 6000 },
+  cline: { path: '.clinerules' },
+};
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  'cursor',
+  ...(Object.keys(SINGLE_FILE_FORMATS) as ExportFormat[]),
+];
+
+const LANGUAGE_GLOBS: Record<string, string[]> = {
+  python: ['**/*.py', '**/*.pyi'],
+  javascript: ['**/*.js', '**/*.jsx', '**/*.mjs', '**/*.cjs'],
+  typescript: ['**/*.ts', '**/*.tsx'],
+  go: ['**/*.go'],
+  rust: ['**/*.rs'],
+  java: ['**/*.java'],
+  csharp: ['**/*.cs'],
+};
+
+/**
+ * Render a bundle into the files an agent reads for the given format; a
+ * bundle with a token budget exports only the sections packed into it
+ */
+export function renderExport(
+  bundle: Pick<RuleBundle, 'name' | 'description' | 'rules' | 'composition'>,
+  format: ExportFormat
+): ExportFile[] {
+  const allocations = new Map(bundle.composition?.allocations.map((allocation) => [allocation.ruleId, allocation]));
+  const packed = bundle.rules
+    .filter((rule) => allocations.get(rule.metadata.id)?.status !== 'omitted')
+    .map((rule) => packRule(rule, allocations.get(rule.metadata.id)));
+
+  if (format === 'cursor') {
+    return packed.map((rule) => renderCursorRule(rule));
+  }
+
+  const spec = SINGLE_FILE_FORMATS[format];
+  if (!spec) {
+    throw new Error(`Unknown export format: ${format}`);
+  }
+
+  // General behavioural rules set the tone, so they come first
+  const rules = [...packed].sort(
+    (a, b) => Number(b.metadata.category === 'general') - Number(a.metadata.category === 'general')
+  );
+
+  const warnings: string[] = [];
+  const header = [
+    BEGIN_MARKER,
+    `# ${bundle.name}`,
+    bundle.description,
+    `<!-- Generated by rules.d from ${rules.map((r) => r.metadata.id).join(', ')}. Edits inside these markers are overwritten on export. -->`,
+  ].join('\n\n');
+  const footer = END_MARKER;
+
+  const parts: string[] = [];
+  let length = header.length + footer.length + 4;
+  const remaining = () => (spec.maxChars === undefined ? Number.POSITIVE_INFINITY : spec.maxChars - length);
+
+  for (const rule of rules) {
+    const rendered = renderSections(rule.sections, 1);
+    if (rendered.length + 2 <= remaining()) {
+      parts.push(rendered);
+      length += rendered.length + 2;
+      continue;
+    }
+
+    // Keep as many leading sections as fit
+    const kept: string[] = [];
+    let keptLength = 0;
+    for (const { section } of flattenSections(rule.sections)) {
+      const piece = renderSections([{ ...section, children: [] }], 1);
+      if (piece.length === 0) {
+        continue;
+      }
+      if (keptLength + piece.length + 2 > remaining()) {
+        break;
+      }
+      kept.push(piece);
+      keptLength += piece.length + 2;
+    }
+
+    if (kept.length > 0) {
+      parts.push(kept.join('\n\n'));
+      length += keptLength;
+      warnings.push(`${rule.metadata.id} truncated to fit the ${spec.maxChars}-character limit of ${spec.path}`);
+    } else {
+      warnings.push(`${rule.metadata.id} omitted: no room left within the ${spec.maxChars}-character limit of ${spec.path}`);
+    }
+  }
+
+  return [
+    {
+      format,
+      path: spec.path,
+      content: [header, ...parts, footer].join('\n\n') + '\n',
+      managed: true,
+      warnings,
+    },
+  ];
+}
+
+/**
+ * A bundle as one markdown document: its name and description, then each
+ * rule, or only its packed sections when the bundle has a token budget
+ */
+export function renderBundleMarkdown(
+  bundle: Pick<RuleBundle, 'name' | 'description' | 'rules' | 'composition'>
+): string {
+  const allocations = new Map(bundle.composition?.allocations.map((allocation) => [allocation.ruleId, allocation]));
+  const rules = bundle.rules
+    .filter((rule) => allocations.get(rule.metadata.id)?.status !== 'omitted')
+    .map((rule) => (allocations.get(rule.metadata.id)?.content ?? rule.content).trim());
+
+  return [[`# ${bundle.name}`, bundle.description].join('\n\n'), ...rules].join('\n\n---\n\n') + '\n';
+}
+
+/**
+ * Write rendered files under a target directory, or only report what would
+ * change when `dryRun` is set. Shared instruction files keep any content
+ * outside the rules.d markers.
+ */
+export function applyExport(
+  files: ExportFile[],
+  targetDir: string,
+  options: { dryRun?: boolean } = {}
+): ExportResult[] {
+  return files.map((file) => {
+    const absolutePath = path.join(targetDir, file.path);
+    const existing = fs.existsSync(absolutePath) ? fs.readFileSync(absolutePath, 'utf-8') : null;
+    const next = file.managed && existing !== null ? mergeManagedBlock(existing, file.content) : file.content;
+
+    const status: ExportResult['status'] =
+      existing === null ? 'created' : existing === next ? 'unchanged' : 'updated';
+    const diff = formatUnifiedDiff(
+      existing === null ? '/dev/null' : `a/${file.path}`,
+      `b/${file.path}`,
+      existing || '',
+      next
+    );
+
+    const written = !options.dryRun && status !== 'unchanged';
+    if (written) {
+      fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+      fs.writeFileSync(absolutePath, next);
+    }
+
+    return { path: file.path, status, diff, written };
+  });
+}
+
+/**
+ * A rule cut down to the sections its allocation packed, with the headings
+ * above them; rules without an allocation or packed whole are unchanged
+ */
+function packRule(rule: Rule, allocation?: RuleAllocation): Rule {
+  if (!allocation || allocation.status === 'included') {
+    return rule;
+  }
+
+  const included = new Set(allocation.includedSections);
+  const prune = (sections: RuleSection[]): RuleSection[] =>
+    sections.flatMap((section) => {
+      const children = prune(section.children);
+      if (included.has(section.anchor)) {
+        return [{ ...section, children }];
+      }
+      return children.length > 0 ? [{ ...section, body: '', children }] : [];
+    });
+
+  return { ...rule, sections: prune(rule.sections) };
+}
+
+function renderCursorRule(rule: Rule): ExportFile {
+  const languages = (Array.isArray(rule.metadata.language) ? rule.metadata.language : [rule.metadata.language])
+    .filter((language) => language in LANGUAGE_GLOBS);
+  const globs = languages.flatMap((language) => LANGUAGE_GLOBS[language]);
+  const description = rule.metadata.description
+    ? `${rule.metadata.title}: ${rule.metadata.description}`
+    : rule.metadata.title;
+
+  const body = renderSections(rule.sections);
+  const content = [
+    '---',
+    `description: ${JSON.stringify(description)}`,
+    `globs: ${globs.join(',')}`,
+    `alwaysApply: ${globs.length === 0}`,
+    '---',
+    '',
+    body,
+    '',
+  ].join('\n');
+
+  const warnings: string[] = [];
+  const lineCount = content.split('\n').length;
+  if (lineCount > CURSOR_MAX_LINES) {
+    warnings.push(`${rule.metadata.id} is ${lineCount} lines; Cursor recommends rules under ${CURSOR_MAX_LINES} lines`);
+  }
+
+  return {
+    format: 'cursor',
+    path: `.cursor/rules/rules-d-${rule.metadata.id.replace(/\//g, '-')}.mdc`,
+    content,
+    managed: false,
+    warnings,
+  };
+}
+
+function mergeManagedBlock(existing: string, block: string): string {
+  const start = existing.indexOf(BEGIN_MARKER);
+  const end = existing.indexOf(END_MARKER, start);
+
+  if (start !== -1 && end !== -1) {
+    const after = existing.slice(end + END_MARKER.length).replace(/^\n/, '');
+    return existing.slice(0, start) + block + after;
+  }
+
+  return existing.length === 0 ? block : `${existing.replace(/\n*$/, '')}\n\n${block}`;
+}
@@ -0,0 +1,123 @@
+import { GraphFormat, RuleGraphEdge, RuleGraphView } from '../types/graph.js';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['json', 'dot', 'mermaid'];
+
+/**
+ * Render a graph view as JSON, Graphviz DOT or a Mermaid flowchart. In the
+ * drawings, prerequisite edges are arrows labelled "requires", related edges
+ * are undirected dashed lines, edges on a prerequisite cycle are red and
+ * unresolved references are dashed red nodes.
+ */
+export function renderGraph(view: RuleGraphView, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return toDot(view);
+    case 'mermaid':
+      return toMermaid(view);
+    default:
+      return JSON.stringify(view, null, 2);
+  }
+}
+
+function toDot(view: RuleGraphView): string {
+  const cyclic = cycleEdges(view);
+  const lines = ['digraph rules {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const node of view.nodes) {
+    const style = node.id === view.root ? ', style=bold' : '';
+    lines.push(`  ${dotString(node.id)} [label="${dotEscape(node.title)}\\n${dotEscape(node.id)}"${style}];`);
+  }
+  for (const reference of missingReferences(view)) {
+    lines.push(`  ${dotString(`missing:${reference}`)} [label=${dotString(reference)}, style=dashed, color=red];`);
+  }
+
+  for (const edge of view.edges) {
+    const attributes =
+      edge.kind === 'related'
+        ? ['style=dashed', 'arrowhead=none']
+        : ['label="requires"', ...(cyclic.has(edgeKey(edge)) ? ['color=red'] : [])];
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [${attributes.join(', ')}];`);
+  }
+  for (const reference of view.dangling) {
+    const attributes = reference.kind === 'related' ? 'style=dashed, arrowhead=none, color=red' : 'label="requires", color=red';
+    lines.push(`  ${dotString(reference.from)} -> ${dotString(`missing:${reference.reference}`)} [${attributes}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function toMermaid(view: RuleGraphView): string {
+  const cyclic = cycleEdges(view);
+  // Mermaid ids cannot contain "/", so nodes are numbered
+  const ids = new Map<string, string>();
+  const lines = ['graph LR'];
+
+  view.nodes.forEach((node) => {
+    ids.set(node.id, `n${ids.size}`);
+    lines.push(`  ${ids.get(node.id)}["${mermaidEscape(node.title)}<br/>${mermaidEscape(node.id)}"]`);
+  });
+  for (const reference of missingReferences(view)) {
+    ids.set(`missing:${reference}`, `n${ids.size}`);
+    lines.push(`  ${ids.get(`missing:${reference}`)}["${mermaidEscape(reference)}"]:::missing`);
+  }
+
+  // Links are styled by their position in the file
+  const cyclicLinks: number[] = [];
+  const links: string[] = [];
+  for (const edge of view.edges) {
+    if (edge.kind === 'related') {
+      links.push(`  ${ids.get(edge.from)} -.- ${ids.get(edge.to)}`);
+    } else {
+      if (cyclic.has(edgeKey(edge))) {
+        cyclicLinks.push(links.length);
+      }
+      links.push(`  ${ids.get(edge.from)} -->|requires| ${ids.get(edge.to)}`);
+    }
+  }
+  for (const reference of view.dangling) {
+    const arrow = reference.kind === 'related' ? '-.-' : '-->|requires|';
+    links.push(`  ${ids.get(reference.from)} ${arrow} ${ids.get(`missing:${reference.reference}`)}`);
+  }
+  lines.push(...links);
+
+  lines.push('  classDef missing stroke:#c00,stroke-dasharray:5 5');
+  if (view.root !== undefined) {
+    lines.push('  classDef root stroke-width:3px', `  class ${ids.get(view.root)} root`);
+  }
+  if (cyclicLinks.length > 0) {
+    lines.push(`  linkStyle ${cyclicLinks.join(',')} stroke:#c00`);
+  }
+
+  return lines.join('\n');
+}
+
+function cycleEdges(view: RuleGraphView): Set<string> {
+  const keys = new Set<string>();
+  for (const cycle of view.cycles) {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      keys.add(edgeKey({ from: cycle[i], to: cycle[i + 1], kind: 'prerequisite' }));
+    }
+  }
+  return keys;
+}
+
+function edgeKey(edge: RuleGraphEdge): string {
+  return `${edge.kind} ${edge.from} ${edge.to}`;
+}
+
+function missingReferences(view: RuleGraphView): string[] {
+  return [...new Set(view.dangling.map((reference) => reference.reference))];
+}
+
+function dotEscape(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function dotString(value: string): string {
+  return `"${dotEscape(value)}"`;
+}
+
+function mermaidEscape(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
@@ -0,0 +1,223 @@
+import { Rule } from '../types/rule.js';
+import {
+  DanglingReference,
+  RuleEdgeKind,
+  RuleGraphEdge,
+  RuleGraphNode,
+  RuleGraphOptions,
+  RuleGraphView,
+} from '../types/graph.js';
+
+/**
+ * Prerequisite and related references between rules, resolved to canonical
+ * ids. Prerequisites are followed transitively; a cycle among them does not
+ * stop traversal (each rule is visited once) and is reported by getCycles.
+ */
+export class RuleGraph {
+  private rules = new Map<string, Rule>();
+  private prerequisites = new Map<string, string[]>();
+  private related = new Map<string, string[]>();
+  private dangling: DanglingReference[] = [];
+  private cycles: string[][];
+
+  /**
+   * @param resolve Looks up a referenced id or alias among the loaded rules
+   */
+  constructor(rules: Rule[], resolve: (reference: string) => Rule | undefined) {
+    for (const rule of rules) {
+      this.rules.set(rule.metadata.id, rule);
+    }
+
+    for (const rule of rules) {
+      const id = rule.metadata.id;
+      this.prerequisites.set(id, this.resolveReferences(rule, 'prerequisite', rule.metadata.prerequisites, resolve));
+      this.related.set(id, this.resolveReferences(rule, 'related', rule.metadata.related, resolve));
+    }
+
+    this.cycles = this.detectCycles();
+  }
+
+  has(ruleId: string): boolean {
+    return this.rules.has(ruleId);
+  }
+
+  /**
+   * Transitive prerequisites of a rule, each after the rules it requires
+   */
+  getPrerequisites(ruleId: string): string[] {
+    return this.sortByPrerequisites([ruleId], true).filter((id) => id !== ruleId);
+  }
+
+  /**
+   * Rules that list the given rule as a direct prerequisite
+   */
+  getDependents(ruleId: string): string[] {
+    return [...this.prerequisites]
+      .filter(([, prerequisites]) => prerequisites.includes(ruleId))
+      .map(([id]) => id);
+  }
+
+  getRelated(ruleId: string): string[] {
+    return this.related.get(ruleId) || [];
+  }
+
+  /**
+   * Order rules so that each comes after its prerequisites, otherwise keeping
+   * the given order. With `expand`, missing transitive prerequisites are
+   * added; without it, only prerequisites among the given rules count.
+   */
+  sortByPrerequisites(ruleIds: string[], expand = false): string[] {
+    const members = new Set(ruleIds);
+    const visited = new Set<string>();
+    const ordered: string[] = [];
+
+    const visit = (id: string) => {
+      // Also stops at a rule still being visited, which breaks cycles
+      if (visited.has(id)) {
+        return;
+      }
+      visited.add(id);
+      for (const prerequisite of this.prerequisites.get(id) || []) {
+        if (expand || members.has(prerequisite)) {
+          visit(prerequisite);
+        }
+      }
+      ordered.push(id);
+    };
+
+    ruleIds.forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * Prerequisite cycles, each starting and ending on the same id
+   */
+  getCycles(): string[][] {
+    return this.cycles;
+  }
+
+  getDanglingReferences(): DanglingReference[] {
+    return this.dangling;
+  }
+
+  /**
+   * The rules reachable from `ruleId` and the references between them, or
+   * the whole graph without a root
+   */
+  getView(ruleId?: string, options: RuleGraphOptions = {}): RuleGraphView {
+    const followRelated = options.related ?? true;
+    const maxDepth = options.depth ?? Infinity;
+    const depths = new Map<string, number>();
+
+    if (ruleId === undefined) {
+      for (const id of this.rules.keys()) {
+        depths.set(id, 0);
+      }
+    } else {
+      // Breadth-first, so that every rule gets its shortest distance
+      depths.set(ruleId, 0);
+      const queue = [ruleId];
+      while (queue.length > 0) {
+        const id = queue.shift()!;
+        const depth = depths.get(id)!;
+        if (depth >= maxDepth) {
+          continue;
+        }
+
+        const neighbours = [...(this.prerequisites.get(id) || []), ...(followRelated ? this.getRelated(id) : [])];
+        for (const next of neighbours) {
+          if (!depths.has(next)) {
+            depths.set(next, depth + 1);
+            queue.push(next);
+          }
+        }
+      }
+    }
+
+    const nodes: RuleGraphNode[] = [...depths].map(([id, depth]) => {
+      const { title, category } = this.rules.get(id)!.metadata;
+      return { id, title, category, depth };
+    });
+
+    const edges: RuleGraphEdge[] = [];
+    for (const id of depths.keys()) {
+      for (const to of this.prerequisites.get(id) || []) {
+        if (depths.has(to)) {
+          edges.push({ from: id, to, kind: 'prerequisite' });
+        }
+      }
+      if (followRelated) {
+        for (const to of this.getRelated(id)) {
+          if (depths.has(to)) {
+            edges.push({ from: id, to, kind: 'related' });
+          }
+        }
+      }
+    }
+
+    return {
+      root: ruleId,
+      nodes,
+      edges,
+      prerequisites: ruleId === undefined ? [] : this.getPrerequisites(ruleId),
+      dependents: ruleId === undefined ? [] : this.getDependents(ruleId),
+      cycles: this.cycles.filter((cycle) => cycle.every((id) => depths.has(id))),
+      dangling: this.dangling.filter(
+        (reference) => depths.has(reference.from) && (followRelated || reference.kind === 'prerequisite')
+      ),
+    };
+  }
+
+  private resolveReferences(
+    rule: Rule,
+    kind: RuleEdgeKind,
+    references: string[] = [],
+    resolve: (reference: string) => Rule | undefined
+  ): string[] {
+    const ids: string[] = [];
+    for (const reference of references) {
+      const target = resolve(reference);
+      if (!target) {
+        this.dangling.push({ from: rule.metadata.id, reference, kind });
+        continue;
+      }
+
+      // Self references are reported by the validator and order nothing
+      if (target.metadata.id !== rule.metadata.id && !ids.includes(target.metadata.id)) {
+        ids.push(target.metadata.id);
+      }
+    }
+    return ids;
+  }
+
+  private detectCycles(): string[][] {
+    const cycles = new Map<string, string[]>();
+    const done = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (id: string) => {
+      const index = stack.indexOf(id);
+      if (index >= 0) {
+        // Start at the smallest id so that each cycle is reported once
+        const cycle = stack.slice(index);
+        const start = cycle.indexOf([...cycle].sort()[0]);
+        const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(rotated.join(' '), [...rotated, rotated[0]]);
+        return;
+      }
+      if (done.has(id)) {
+        return;
+      }
+
+      stack.push(id);
+      for (const prerequisite of this.prerequisites.get(id) || []) {
+        visit(prerequisite);
+      }
+      stack.pop();
+      done.add(id);
+    };
+
+    [...this.rules.keys()].sort().forEach(visit);
+    return [...cycles.values()];
+  }
+}
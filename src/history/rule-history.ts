@@ -0,0 +1,616 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { RuleAnalyzer } from '../analyzer/rule-analyzer.js';
+import { Rule, RuleSection } from '../types/rule.js';
+import {
+  MetadataChange,
+  RuleChange,
+  RuleChangesReport,
+  RuleCommit,
+  RuleHistoryReport,
+  RuleVersionDiff,
+  SectionChange,
+} from '../types/history.js';
+import { diffLines, formatUnifiedDiff } from '../utils/diff.js';
+import { parseSections } from '../utils/markdown.js';
+
+// Revision name for the rule file as it is on disk
+export const WORKING_TREE = 'working';
+
+/**
+ * A revision that is malformed or names no commit in the rule's repository
+ */
+export class RevisionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RevisionError';
+  }
+}
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+const LOG_FORMAT = `${RECORD_SEPARATOR}${['%H', '%h', '%aI', '%an', '%s'].join(FIELD_SEPARATOR)}`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const RULE_FILE_PATTERN = /(?:^|\/)(?:[^/]*-)?rules\.md$/;
+
+interface Located {
+  // Repository root
+  root: string;
+  // Rule file relative to the root, with forward slashes
+  relativePath: string;
+  absolutePath: string;
+}
+
+interface Revision {
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+interface KeyedSection {
+  key: string;
+  headingPath: string[];
+  section: RuleSection;
+}
+
+/**
+ * Reads the history of rule files from the git repository their source is
+ * in: the commits that touched a rule, section-level diffs between two
+ * versions, the rules changed since a date or commit, and markdown changes
+ * that were made without bumping the rule's `version`
+ */
+export class RuleHistory {
+  private analyzer: RuleAnalyzer;
+  private roots = new Map<string, string | undefined>();
+
+  constructor(analyzer: RuleAnalyzer) {
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Commits that touched a rule's file, following renames, newest first
+   */
+  getHistory(ruleId: string, limit?: number): RuleHistoryReport {
+    const rule = this.requireRule(ruleId);
+    const located = this.locate(rule);
+    if (!located) {
+      throw new Error(`${rule.metadata.id} is not in a git repository`);
+    }
+
+    // One extra commit tells whether the oldest listed one bumped the version
+    const commits = this.fileCommits(located, limit !== undefined ? limit + 1 : undefined);
+    const revisions = commits.map((commit) => this.readCommit(located.root, commit.hash, commit.path));
+    commits.forEach((commit, index) => {
+      const revision = revisions[index];
+      const previous = revisions[index + 1];
+      commit.version = revision ? declaredVersion(revision) : undefined;
+      if (revision && previous && isUnbumped(previous, revision)) {
+        commit.unbumped = true;
+      }
+    });
+
+    const report: RuleHistoryReport = {
+      ruleId: rule.metadata.id,
+      filePath: rule.filePath,
+      source: rule.source,
+      version: rule.metadata.version,
+      lastUpdated: rule.metadata.lastUpdated,
+      commits: limit !== undefined ? commits.slice(0, limit) : commits,
+    };
+
+    if (this.isModified(located)) {
+      const current = readWorkingTree(located.absolutePath)!;
+      report.uncommitted = {
+        version: declaredVersion(current),
+        unbumped: revisions[0] !== undefined && isUnbumped(revisions[0], current),
+      };
+    }
+
+    return report;
+  }
+
+  /**
+   * Section-level diff of a rule between two revisions; `to` defaults to
+   * the working tree
+   */
+  diff(ruleId: string, from: string, to: string = WORKING_TREE): RuleVersionDiff {
+    const rule = this.requireRule(ruleId);
+    const located = this.locate(rule);
+    if (!located) {
+      throw new Error(`${rule.metadata.id} is not in a git repository`);
+    }
+
+    const before = this.readRevision(located, from);
+    const after = this.readRevision(located, to);
+    if (!before && !after) {
+      throw new Error(`${rule.metadata.id} does not exist at ${from} or ${to}`);
+    }
+
+    return { ruleId: rule.metadata.id, from, to, ...compareRevisions(before, after) };
+  }
+
+  /**
+   * Rules whose files changed since a date (YYYY-MM-DD or ISO 8601) or a
+   * commit, including uncommitted changes, with what changed in each
+   */
+  getChanges(since: string): RuleChangesReport {
+    const report: RuleChangesReport = { since, base: {}, rules: [], removed: [], skippedSources: [] };
+    const byDate = DATE_PATTERN.test(since);
+    if (!byDate && since.startsWith('-')) {
+      throw new RevisionError(`Invalid revision: ${since}`);
+    }
+
+    for (const source of this.analyzer.getSources()) {
+      const root = this.repositoryRoot(source.path);
+      let base: string | undefined;
+      try {
+        base = !root
+          ? undefined
+          : byDate
+            ? git(root, ['rev-list', '-1', `--before=${since}`, 'HEAD']).trim() || undefined
+            : this.resolveCommit(root, since);
+      } catch {
+        // A revision only names commits in one of the repositories
+      }
+      if (!root || (!byDate && !base)) {
+        report.skippedSources.push(source.name);
+        continue;
+      }
+      report.base[source.name] = base;
+
+      const sourcePath = relativeTo(root, source.path);
+      const log = git(root, [
+        'log',
+        `--format=${LOG_FORMAT}`,
+        '--name-status',
+        '--find-renames',
+        base ? `${base}..HEAD` : 'HEAD',
+        '--',
+        sourcePath || '.',
+      ]);
+
+      // Commits by the path they touched, and renamed files by their new path
+      const commitsByPath = new Map<string, RuleCommit[]>();
+      const previousPaths = new Map<string, string>();
+      for (const { commit, files } of parseLog(log)) {
+        for (const line of files) {
+          const [status, ...paths] = line.split('\t').map(unquote);
+          const file = paths[paths.length - 1];
+          if (status.startsWith('R') && paths.length === 2 && !previousPaths.has(file)) {
+            previousPaths.set(file, paths[0]);
+          }
+          commitsByPath.set(file, [...(commitsByPath.get(file) ?? []), { ...commit, path: file }]);
+        }
+      }
+      const uncommitted = this.uncommittedPaths(root, sourcePath || '.');
+
+      const current = new Set<string>();
+      const renamedFrom = new Set<string>();
+      for (const rule of this.analyzer.getAllRules().filter((r) => r.source === source.name)) {
+        const located = this.locate(rule)!;
+        current.add(located.relativePath);
+
+        const paths = [located.relativePath];
+        while (previousPaths.has(paths[paths.length - 1]) && paths.length <= previousPaths.size) {
+          paths.push(previousPaths.get(paths[paths.length - 1])!);
+        }
+        paths.slice(1).forEach((previous) => renamedFrom.add(previous));
+
+        // Newer paths were touched by newer commits, so this stays newest first
+        const commits = paths.flatMap((file) => commitsByPath.get(file) ?? []);
+        if (commits.length === 0 && !uncommitted.has(located.relativePath)) {
+          continue;
+        }
+
+        const before = base ? this.readCommit(root, base, paths[paths.length - 1]) : undefined;
+        const after = readWorkingTree(located.absolutePath);
+        const comparison = compareRevisions(before, after);
+        if (!comparison.added && comparison.metadata.length === 0 && comparison.sections.length === 0) {
+          // Renamed, or changed and changed back
+          continue;
+        }
+
+        report.rules.push({
+          ruleId: rule.metadata.id,
+          title: rule.metadata.title,
+          filePath: rule.filePath,
+          source: rule.source,
+          status: comparison.added ? 'added' : 'modified',
+          version: comparison.toVersion,
+          previousVersion: comparison.fromVersion,
+          versionBumped: comparison.versionBumped,
+          commits,
+          uncommitted: uncommitted.has(located.relativePath),
+          metadata: comparison.metadata,
+          sections: comparison.sections,
+        });
+      }
+
+      const touched = new Set([...commitsByPath.keys(), ...previousPaths.values(), ...uncommitted]);
+      for (const file of [...touched].sort()) {
+        const absolutePath = path.join(root, file);
+        if (
+          RULE_FILE_PATTERN.test(file) &&
+          !current.has(file) &&
+          !renamedFrom.has(file) &&
+          !fs.existsSync(absolutePath) &&
+          base !== undefined &&
+          this.readCommit(root, base, file) !== undefined
+        ) {
+          report.removed.push({ source: source.name, filePath: relativeTo(source.path, absolutePath) });
+        }
+      }
+    }
+
+    if (!byDate && Object.keys(report.base).length === 0) {
+      throw new RevisionError(`Unknown revision: ${since}`);
+    }
+
+    report.rules.sort((a, b) => a.ruleId.localeCompare(b.ruleId));
+    return report;
+  }
+
+  /**
+   * Describe the latest change to a rule's markdown if it left the version
+   * as it was: uncommitted edits, or else the last commit that touched the
+   * file. Rules outside git repositories have no such change.
+   */
+  findUnbumpedChange(rule: Rule): string | undefined {
+    const located = this.locate(rule);
+    if (!located) {
+      return undefined;
+    }
+
+    if (this.isModified(located)) {
+      const head = this.fileCommits(located, 1)[0];
+      const committed = head ? this.readCommit(located.root, head.hash, head.path) : undefined;
+      const current = readWorkingTree(located.absolutePath);
+      return committed && current && isUnbumped(committed, current)
+        ? `content changed since ${head.shortHash} without a version bump (still ${versionLabel(current)})`
+        : undefined;
+    }
+
+    const [latest, previous] = this.fileCommits(located, 2);
+    if (!latest || !previous) {
+      return undefined;
+    }
+    const after = this.readCommit(located.root, latest.hash, latest.path);
+    const before = this.readCommit(located.root, previous.hash, previous.path);
+    return before && after && isUnbumped(before, after)
+      ? `content changed in ${latest.shortHash} ("${latest.subject}") without a version bump (still ${versionLabel(after)})`
+      : undefined;
+  }
+
+  private requireRule(ruleId: string): Rule {
+    const rule = this.analyzer.getRule(ruleId);
+    if (!rule) {
+      throw new Error(`Rule not found: ${ruleId}`);
+    }
+    return rule;
+  }
+
+  private locate(rule: Rule): Located | undefined {
+    const sourcePath = this.analyzer.getSources().find((s) => s.name === rule.source)?.path;
+    if (!sourcePath) {
+      return undefined;
+    }
+    const root = this.repositoryRoot(sourcePath);
+    if (!root) {
+      return undefined;
+    }
+
+    const absolutePath = path.resolve(sourcePath, rule.filePath);
+    return { root, relativePath: relativeTo(root, absolutePath), absolutePath };
+  }
+
+  private repositoryRoot(dir: string): string | undefined {
+    if (!this.roots.has(dir)) {
+      let root: string | undefined;
+      try {
+        root = git(dir, ['rev-parse', '--show-toplevel']).trim() || undefined;
+      } catch {
+        // Not a repository, or git is not installed
+      }
+      this.roots.set(dir, root);
+    }
+    return this.roots.get(dir);
+  }
+
+  private fileCommits(located: Located, limit?: number): RuleCommit[] {
+    const log = git(located.root, [
+      'log',
+      '--follow',
+      `--format=${LOG_FORMAT}`,
+      '--name-only',
+      ...(limit !== undefined ? [`--max-count=${limit}`] : []),
+      '--',
+      located.relativePath,
+    ]);
+    return parseLog(log).map(({ commit, files }) => ({ ...commit, path: files[0] ?? located.relativePath }));
+  }
+
+  private isModified(located: Located): boolean {
+    return this.uncommittedPaths(located.root, located.relativePath).size > 0;
+  }
+
+  private uncommittedPaths(root: string, pathspec: string): Set<string> {
+    const status = git(root, ['status', '--porcelain', '--untracked-files=all', '--', pathspec]);
+    return new Set(
+      status
+        .split('\n')
+        .filter((line) => line.length > 3)
+        .map((line) => unquote(line.slice(3).split(' -> ').pop()!))
+    );
+  }
+
+  private resolveCommit(root: string, revision: string): string {
+    try {
+      return git(root, ['rev-parse', '--verify', '--quiet', `${revision}^{commit}`]).trim();
+    } catch {
+      throw new RevisionError(`Unknown revision: ${revision}`);
+    }
+  }
+
+  /**
+   * The rule at a revision, under the path it had then, or undefined when
+   * the file did not exist yet
+   */
+  private readRevision(located: Located, revision: string): Revision | undefined {
+    if (revision === WORKING_TREE) {
+      return readWorkingTree(located.absolutePath);
+    }
+    if (revision.startsWith('-')) {
+      throw new RevisionError(`Invalid revision: ${revision}`);
+    }
+
+    const commit = this.resolveCommit(located.root, revision);
+    const current = this.readCommit(located.root, commit, located.relativePath);
+    if (current) {
+      return current;
+    }
+
+    // The file may have been renamed since; use its path in the newest commit
+    // of its history that the revision contains
+    for (const entry of this.fileCommits(located)) {
+      if (entry.path !== located.relativePath && isAncestor(located.root, entry.hash, commit)) {
+        return this.readCommit(located.root, commit, entry.path);
+      }
+    }
+    return undefined;
+  }
+
+  private readCommit(root: string, commit: string, file: string): Revision | undefined {
+    let text: string;
+    try {
+      text = git(root, ['show', `${commit}:${file}`]);
+    } catch {
+      return undefined;
+    }
+    return parseRevision(text);
+  }
+}
+
+/**
+ * Compare two versions of a rule's markdown section by section. Sections
+ * are matched by their heading path below the title, so renaming the rule
+ * does not change every section, and a section whose heading changed but
+ * whose text did not is reported as renamed.
+ */
+export function diffRuleSections(before: string, after: string): SectionChange[] {
+  const oldSections = keyedSections(before);
+  const newSections = keyedSections(after);
+  const oldByKey = new Map(oldSections.map((entry) => [entry.key, entry]));
+  const newKeys = new Set(newSections.map((entry) => entry.key));
+  const changes: SectionChange[] = [];
+
+  for (const entry of newSections) {
+    const previous = oldByKey.get(entry.key);
+    if (!previous) {
+      changes.push({
+        type: 'added',
+        headingPath: entry.headingPath,
+        anchor: entry.section.anchor,
+        linesAdded: countLines(entry.section.body),
+        linesRemoved: 0,
+      });
+      continue;
+    }
+
+    const renamed = previous.section.heading !== entry.section.heading;
+    if (previous.section.body === entry.section.body) {
+      if (renamed) {
+        changes.push({
+          type: 'renamed',
+          headingPath: entry.headingPath,
+          anchor: entry.section.anchor,
+          previousHeadingPath: previous.headingPath,
+          linesAdded: 0,
+          linesRemoved: 0,
+        });
+      }
+      continue;
+    }
+
+    const ops = diffLines(previous.section.body, entry.section.body);
+    const label = entry.headingPath.join(' > ') || '(preamble)';
+    changes.push({
+      type: 'modified',
+      headingPath: entry.headingPath,
+      anchor: entry.section.anchor,
+      ...(renamed && { previousHeadingPath: previous.headingPath }),
+      linesAdded: ops.filter((op) => op.type === 'insert').length,
+      linesRemoved: ops.filter((op) => op.type === 'delete').length,
+      diff: formatUnifiedDiff(`a/${label}`, `b/${label}`, previous.section.body, entry.section.body),
+    });
+  }
+
+  for (const entry of oldSections.filter((e) => !newKeys.has(e.key))) {
+    // A section that moved under another heading, or was renamed, with its text intact
+    const moved = changes.findIndex(
+      (change) =>
+        change.type === 'added' &&
+        entry.section.body !== '' &&
+        newSections.find((e) => e.headingPath === change.headingPath)?.section.body === entry.section.body
+    );
+    if (moved >= 0) {
+      changes[moved] = { ...changes[moved], type: 'renamed', previousHeadingPath: entry.headingPath, linesAdded: 0 };
+      continue;
+    }
+
+    changes.push({
+      type: 'removed',
+      headingPath: entry.headingPath,
+      anchor: entry.section.anchor,
+      linesAdded: 0,
+      linesRemoved: countLines(entry.section.body),
+    });
+  }
+
+  return changes;
+}
+
+function compareRevisions(
+  before: Revision | undefined,
+  after: Revision | undefined
+): Omit<RuleVersionDiff, 'ruleId' | 'from' | 'to'> {
+  const fromVersion = before ? declaredVersion(before) : undefined;
+  const toVersion = after ? declaredVersion(after) : undefined;
+  return {
+    fromVersion,
+    toVersion,
+    added: !before,
+    removed: !after,
+    versionBumped: before !== undefined && after !== undefined && fromVersion !== toVersion,
+    contentChanged: (before?.body ?? '') !== (after?.body ?? ''),
+    metadata: diffFrontmatter(before?.frontmatter ?? {}, after?.frontmatter ?? {}),
+    sections: diffRuleSections(before?.body ?? '', after?.body ?? ''),
+  };
+}
+
+function diffFrontmatter(before: Record<string, unknown>, after: Record<string, unknown>): MetadataChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({
+      field,
+      ...(before[field] !== undefined && { before: before[field] }),
+      ...(after[field] !== undefined && { after: after[field] }),
+    }));
+}
+
+function keyedSections(content: string): KeyedSection[] {
+  const keyed: KeyedSection[] = [];
+  const seen = new Map<string, number>();
+
+  const visit = (sections: RuleSection[], parentPath: string[], parentKey: string[]) => {
+    for (const section of sections) {
+      const headingPath = section.level > 0 ? [...parentPath, section.heading] : parentPath;
+      const keyPath = section.level > 1 ? [...parentKey, section.heading.trim().toLowerCase()] : parentKey;
+      // The preamble and the title are matched by level
+      const base = section.level > 1 ? keyPath.join('\n') : `level ${section.level}`;
+      const occurrence = seen.get(base) ?? 0;
+      seen.set(base, occurrence + 1);
+
+      keyed.push({ key: occurrence > 0 ? `${base}\n${occurrence}` : base, headingPath, section });
+      visit(section.children, headingPath, keyPath);
+    }
+  };
+
+  visit(parseSections(content), [], []);
+  return keyed;
+}
+
+function parseRevision(text: string): Revision {
+  try {
+    const parsed = matter(text);
+    return { frontmatter: parsed.data, body: parsed.content.trim() };
+  } catch {
+    // Invalid YAML is reported by `rules-cli validate`
+    return { frontmatter: {}, body: text.trim() };
+  }
+}
+
+function readWorkingTree(absolutePath: string): Revision | undefined {
+  return fs.existsSync(absolutePath) ? parseRevision(fs.readFileSync(absolutePath, 'utf-8')) : undefined;
+}
+
+function declaredVersion(revision: Revision): string | undefined {
+  const version = revision.frontmatter.version;
+  return version === undefined || version === null ? undefined : String(version);
+}
+
+function isUnbumped(before: Revision, after: Revision): boolean {
+  return before.body !== after.body && declaredVersion(before) === declaredVersion(after);
+}
+
+function versionLabel(revision: Revision): string {
+  const version = declaredVersion(revision);
+  return version ? `version ${version}` : 'no version';
+}
+
+function countLines(text: string): number {
+  return text === '' ? 0 : text.split('\n').length;
+}
+
+function parseLog(log: string): Array<{ commit: Omit<RuleCommit, 'path'>; files: string[] }> {
+  return log
+    .split(RECORD_SEPARATOR)
+    .filter((record) => record.trim() !== '')
+    .map((record) => {
+      const [header, ...files] = record.split('\n');
+      const [hash, shortHash, date, author, subject] = header.split(FIELD_SEPARATOR);
+      return {
+        commit: { hash, shortHash, date, author, subject },
+        files: files.filter((file) => file.trim() !== '').map(unquote),
+      };
+    });
+}
+
+function isAncestor(root: string, commit: string, descendant: string): boolean {
+  try {
+    git(root, ['merge-base', '--is-ancestor', commit, descendant]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// git quotes paths with unusual characters in C style
+function unquote(file: string): string {
+  if (!file.startsWith('"')) {
+    return file;
+  }
+  try {
+    return JSON.parse(file);
+  } catch {
+    return file.slice(1, -1);
+  }
+}
+
+function relativeTo(root: string, file: string): string {
+  return path.relative(realPath(root), realPath(file)).split(path.sep).join('/');
+}
+
+function realPath(file: string): string {
+  try {
+    return fs.realpathSync(file);
+  } catch {
+    return path.resolve(file);
+  }
+}
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch (error) {
+    const stderr = String((error as { stderr?: unknown }).stderr ?? '').trim();
+    throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Public API of rules.d, the package entry point. Everything exported here
+ * is stable; other modules under dist/ are internal and may change in any
+ * release.
+ */
+
+import * as path from 'path';
+import { AnalyzerOptions, RuleAnalyzer } from './analyzer/rule-analyzer.js';
+import { RuleBundle, ScenarioContext } from './types/rule.js';
+import { RuleSource } from './types/source.js';
+import { RuleQuery, RuleQueryResult } from './types/query.js';
+import { DEFAULT_SOURCE_NAME } from './utils/rule-loader.js';
+
+export { RuleAnalyzer } from './analyzer/rule-analyzer.js';
+export type { AnalyzerOptions } from './analyzer/rule-analyzer.js';
+export { RuleLoader, DEFAULT_SOURCE_NAME } from './utils/rule-loader.js';
+export { ParseCache, defaultCacheDir } from './utils/parse-cache.js';
+export { RULE_SORT_KEYS } from './analyzer/rule-query.js';
+export { EXPORT_FORMATS, renderBundleMarkdown, renderExport } from './exporter/bundle-exporter.js';
+
+export type {
+  BundleComposition,
+  CodeBlock,
+  Rule,
+  RuleAllocation,
+  RuleBundle,
+  RuleCategory,
+  RuleChangeSet,
+  RuleMetadata,
+  RuleScore,
+  RuleScoreReason,
+  RuleSection,
+  ScenarioContext,
+  TokenEstimator,
+} from './types/rule.js';
+export type { RuleLayerDirectives, RuleSource } from './types/source.js';
+export type { RuleFilter, RuleQuery, RuleQueryItem, RuleQueryResult, RuleSortKey } from './types/query.js';
+export type { SearchHit, SearchOptions } from './types/search.js';
+export type { BundleDefinition, BundleIssue, DeclaredBundle } from './types/bundle.js';
+export type { ExportFile, ExportFormat, ExportResult } from './types/export.js';
+export type {
+  DanglingReference,
+  GraphFormat,
+  RuleEdgeKind,
+  RuleGraphEdge,
+  RuleGraphNode,
+  RuleGraphOptions,
+  RuleGraphView,
+} from './types/graph.js';
+export type { InspectedField, RuleInspection } from './types/inspection.js';
+export type { ParseCacheStats } from './types/cache.js';
+export type { RuleRegistryIssue } from './utils/rule-registry.js';
+
+// Name of the source created for in-memory rule files
+export const MEMORY_SOURCE_NAME = 'memory';
+
+export interface LoadRulesOptions extends AnalyzerOptions {
+  // Rule directories or sources, lowest precedence first; defaults to the
+  // bundled rules unless only `files` are given
+  sources?: string | RuleSource[];
+  // Rule files by path, e.g. "coding/team-rules.md", and bundle files under
+  // "bundles/", layered over the sources without touching the filesystem
+  files?: Record<string, string>;
+}
+
+/**
+ * A source whose rule files are given as strings, keyed by path relative to
+ * the source like files in a rules directory ("coding/team-rules.md")
+ */
+export function createMemorySource(files: Record<string, string>, name = MEMORY_SOURCE_NAME): RuleSource {
+  // Never read, bundles included: paths only give rules their ids
+  return { name, path: path.join(path.sep, name), files };
+}
+
+/**
+ * Load rules into an analyzer, ready to query
+ */
+export async function loadRules(options: LoadRulesOptions = {}): Promise<RuleAnalyzer> {
+  const { sources, files, ...analyzerOptions } = options;
+
+  let layers: RuleSource[] | undefined =
+    typeof sources === 'string' ? [{ name: DEFAULT_SOURCE_NAME, path: path.resolve(sources) }] : sources;
+  if (files) {
+    layers = [...(layers ?? []), createMemorySource(files)];
+  }
+
+  const analyzer = new RuleAnalyzer(layers, analyzerOptions);
+  await analyzer.initialize();
+  return analyzer;
+}
+
+/**
+ * Filter, search, sort and page loaded rules
+ */
+export function query(analyzer: RuleAnalyzer, ruleQuery: RuleQuery = {}): RuleQueryResult {
+  return analyzer.query(ruleQuery);
+}
+
+/**
+ * Recommend a bundle of rules for a task, ranked by relevance
+ */
+export function recommend(analyzer: RuleAnalyzer, context: ScenarioContext): RuleBundle {
+  return analyzer.recommendBundle(context);
+}
@@ -0,0 +1,381 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { LintContext, LintFix, LintProblem, LintRule } from '../types/lint.js';
+import { RuleSection } from '../types/rule.js';
+import { flattenSections } from '../utils/markdown.js';
+
+const LINK_PATTERN = /\[(?:[^\]\\]|\\.)*\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)]*)?\)/g;
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/;
+
+const NEGATIVE_HEADING = /\b(?:don['’]?t|do not|avoid\w*|never|bad|anti-?patterns?|pitfalls?|mistakes?)\b/i;
+const NEGATIVE_PREFIX = /^(?:❌\s*|(?:never|don['’]?t|do not|avoid)\b:?\s*)/i;
+const POSITIVE_PREFIX = /^(?:✅\s*|(?:always|do|prefer)\b:?\s*)/i;
+
+const singleTitle: LintRule = {
+  code: 'single-title',
+  description: 'The first heading is the level-1 title, and the only level-1 heading',
+  defaultSeverity: 'warning',
+  check(context) {
+    if (definesNoRule(context)) {
+      return [];
+    }
+
+    const headings = headingSections(context.sections);
+    if (headings.length === 0) {
+      return [{ message: 'No title heading', line: (context.frontmatterEnd ?? 0) + 1 }];
+    }
+
+    const problems: LintProblem[] = [];
+    if (headings[0].level !== 1) {
+      problems.push({ message: 'The first heading should be the level-1 title', line: headings[0].line });
+    }
+    for (const heading of headings.slice(1)) {
+      if (heading.level === 1) {
+        problems.push({ message: `Only the title should be a level-1 heading: "${heading.heading}"`, line: heading.line });
+      }
+    }
+    return problems;
+  },
+};
+
+const headingIncrement: LintRule = {
+  code: 'heading-increment',
+  description: 'Heading levels go down one level at a time',
+  defaultSeverity: 'warning',
+  check(context) {
+    const problems: LintProblem[] = [];
+    const headings = headingSections(context.sections);
+
+    headings.forEach((heading, index) => {
+      const previous = headings[index - 1]?.level;
+      if (previous !== undefined && heading.level > previous + 1) {
+        const text = context.lines[heading.line - 1];
+        problems.push({
+          message: `Heading level jumps from ${previous} to ${heading.level}: "${heading.heading}"`,
+          line: heading.line,
+          fix: { line: heading.line, remove: 1, insert: [text.replace(/^(\s*)#+/, `$1${'#'.repeat(previous + 1)}`)] },
+        });
+      }
+    });
+
+    return problems;
+  },
+};
+
+const fencedCodeLanguage: LintRule = {
+  code: 'fenced-code-language',
+  description: 'Fenced code blocks declare a language (`text` for plain text)',
+  defaultSeverity: 'warning',
+  check(context) {
+    return flattenSections(context.sections)
+      .flatMap(({ section }) => section.codeBlocks)
+      .filter((block) => !block.language)
+      .map((block) => ({
+        message: 'Code block has no language; use `text` for plain text',
+        line: block.line,
+      }));
+  },
+};
+
+const linkTarget: LintRule = {
+  code: 'link-target',
+  description: 'Relative links point at existing files, rule ids or section anchors',
+  defaultSeverity: 'error',
+  check(context) {
+    const problems: LintProblem[] = [];
+    const ownAnchors = new Set(flattenSections(context.sections).map(({ section }) => section.anchor));
+
+    for (const { line, text } of context.proseLines) {
+      // Blank out inline code so that examples of link syntax are not checked
+      const prose = text.replace(/`[^`]*`/g, (code) => ' '.repeat(code.length));
+
+      for (const match of prose.matchAll(LINK_PATTERN)) {
+        const target = match[1];
+        if (SCHEME_PATTERN.test(target)) {
+          continue;
+        }
+
+        const column = match.index! + match[0].indexOf(target, match[0].indexOf('](')) + 1;
+        const [linkPath, anchor] = splitAnchor(target);
+
+        if (linkPath === '') {
+          if (anchor && !ownAnchors.has(anchor)) {
+            problems.push({ message: `No section with anchor "#${anchor}" in this rule`, line, column });
+          }
+          continue;
+        }
+
+        let decoded = linkPath;
+        try {
+          decoded = decodeURI(linkPath);
+        } catch {
+          // Keep the raw path
+        }
+        const absolutePath = path.resolve(path.dirname(context.filePath), decoded);
+        // A file missing next to this one may come from another layer once
+        // the sources are merged, so look it up by its path within a source
+        const targetRule = fs.existsSync(absolutePath)
+          ? context.findRuleByFile(absolutePath)
+          : path.extname(decoded) === ''
+            ? context.resolveRule(decoded)
+            : context.findRuleByPath(path.posix.join(path.posix.dirname(context.rule.filePath), decoded));
+
+        if (!targetRule && !fs.existsSync(absolutePath)) {
+          problems.push({
+            message: `Link target "${linkPath}" is neither a file nor a rule id`,
+            line,
+            column,
+            fix: relinkFix(context, line, column, linkPath),
+          });
+        } else if (targetRule && anchor && !hasAnchor(targetRule.sections, anchor)) {
+          problems.push({ message: `No section with anchor "#${anchor}" in ${targetRule.metadata.id}`, line, column });
+        }
+      }
+    }
+
+    return problems;
+  },
+};
+
+const maxSectionLength: LintRule = {
+  code: 'max-section-length',
+  description: 'Sections stay short enough to read and to pack into token budgets',
+  defaultSeverity: 'warning',
+  defaultOptions: { maxLines: 150 },
+  check(context, options) {
+    const maxLines = Number(options.maxLines);
+    return headingSections(context.sections)
+      .map((section) => ({ section, length: section.body === '' ? 0 : section.body.split('\n').length }))
+      .filter(({ length }) => length > maxLines)
+      .map(({ section, length }) => ({
+        message: `Section "${section.heading}" is ${length} lines long (max ${maxLines}); split it into subsections`,
+        line: section.line,
+      }));
+  },
+};
+
+const noDuplicateSections: LintRule = {
+  code: 'no-duplicate-sections',
+  description: 'Sibling sections have different headings',
+  defaultSeverity: 'warning',
+  check(context) {
+    const problems: LintProblem[] = [];
+    const visit = (siblings: RuleSection[]) => {
+      const seen = new Map<string, number>();
+      for (const section of siblings) {
+        const key = section.heading.trim().toLowerCase();
+        if (section.level > 0 && seen.has(key)) {
+          problems.push({
+            message: `Duplicate section "${section.heading}" (first at line ${seen.get(key)})`,
+            line: section.line,
+          });
+        } else if (section.level > 0) {
+          seen.set(key, section.line);
+        }
+        visit(section.children);
+      }
+    };
+
+    visit(context.sections);
+    return problems;
+  },
+};
+
+const missingDescription: LintRule = {
+  code: 'missing-description',
+  description: 'Frontmatter has a description, shown in listings and search results',
+  defaultSeverity: 'info',
+  check(context) {
+    if (
+      definesNoRule(context) ||
+      (typeof context.frontmatter.description === 'string' && context.frontmatter.description.trim() !== '')
+    ) {
+      return [];
+    }
+
+    // The paragraph under the title is the author's own summary
+    const summary = firstParagraph(context);
+    return [
+      {
+        message: 'No description in frontmatter',
+        line: 1,
+        fix: summary ? frontmatterFix(context, 'description', summary) : undefined,
+      },
+    ];
+  },
+};
+
+const missingTags: LintRule = {
+  code: 'missing-tags',
+  description: 'Frontmatter declares tags instead of relying on inferred ones',
+  defaultSeverity: 'info',
+  check(context) {
+    if (definesNoRule(context) || (Array.isArray(context.frontmatter.tags) && context.frontmatter.tags.length > 0)) {
+      return [];
+    }
+
+    const inferred = context.rule.metadata.tags;
+    return [
+      {
+        message: inferred.length > 0 ? `No tags in frontmatter (inferred: ${inferred.join(', ')})` : 'No tags in frontmatter',
+        line: 1,
+      },
+    ];
+  },
+};
+
+const contradictoryItems: LintRule = {
+  code: 'contradictory-items',
+  description: 'No item is both something to do and something to avoid',
+  defaultSeverity: 'warning',
+  check(context) {
+    const problems: LintProblem[] = [];
+    const headings = headingSections(context.sections);
+    const seen = new Map<string, { line: number; negative: boolean }>();
+
+    for (const { line, text } of context.proseLines) {
+      const item = LIST_ITEM_PATTERN.exec(text)?.[1].trim();
+      if (!item) {
+        continue;
+      }
+
+      const plain = item.replace(/[*_`~]/g, '');
+      const heading = [...headings].reverse().find((section) => section.line < line)?.heading || '';
+      const negative = NEGATIVE_HEADING.test(heading) || NEGATIVE_PREFIX.test(plain);
+      const statement = normalizeItem(plain);
+      if (statement === '') {
+        continue;
+      }
+
+      const previous = seen.get(statement);
+      if (previous && previous.negative !== negative) {
+        problems.push({
+          message: `"${item}" contradicts the item at line ${previous.line}`,
+          line,
+          column: text.indexOf(item) + 1,
+        });
+      } else if (!previous) {
+        seen.set(statement, { line, negative });
+      }
+    }
+
+    return problems;
+  },
+};
+
+export const BUILTIN_LINT_RULES: LintRule[] = [
+  singleTitle,
+  headingIncrement,
+  fencedCodeLanguage,
+  linkTarget,
+  maxSectionLength,
+  noDuplicateSections,
+  missingDescription,
+  missingTags,
+  contradictoryItems,
+];
+
+function headingSections(sections: RuleSection[]): RuleSection[] {
+  return flattenSections(sections)
+    .map(({ section }) => section)
+    .filter((section) => section.level > 0);
+}
+
+function hasAnchor(sections: RuleSection[], anchor: string): boolean {
+  return flattenSections(sections).some(({ section }) => section.anchor === anchor);
+}
+
+function splitAnchor(target: string): [string, string | undefined] {
+  const hash = target.indexOf('#');
+  return hash < 0 ? [target, undefined] : [target.slice(0, hash), target.slice(hash + 1) || undefined];
+}
+
+/**
+ * Point a broken link at the rule its file name refers to, when that rule
+ * is in the same rule source
+ */
+function relinkFix(context: LintContext, line: number, column: number, linkPath: string): LintFix | undefined {
+  const candidate = context.resolveRule(path.basename(linkPath, '.md'));
+  if (!candidate || candidate.source !== context.rule.source) {
+    return undefined;
+  }
+
+  const relative = path
+    .relative(path.dirname(context.filePath), context.filePathOf(candidate))
+    .split(path.sep)
+    .join('/');
+  const text = context.lines[line - 1];
+  return {
+    line,
+    remove: 1,
+    insert: [text.slice(0, column - 1) + relative + text.slice(column - 1 + linkPath.length)],
+  };
+}
+
+// Files that extend or disable a lower-layer rule take its title and metadata
+function definesNoRule(context: LintContext): boolean {
+  return context.directives.extends !== undefined || context.directives.disabled === true;
+}
+
+/**
+ * Set a frontmatter key, replacing the value it has (an empty or mistyped
+ * one) or creating the block when there is none
+ */
+function frontmatterFix(context: LintContext, key: string, value: unknown): LintFix {
+  const lines = yaml.dump({ [key]: value }, { lineWidth: -1 }).trimEnd().split('\n');
+  const end = context.frontmatterEnd;
+  if (end === undefined) {
+    return { line: 1, remove: 0, insert: ['---', ...lines, '---'] };
+  }
+
+  // The YAML is on lines 2 to end - 1; a value continues on indented lines
+  // and list items below its key
+  const keyPattern = new RegExp(`^${key}\\s*:`);
+  const start = context.lines.findIndex((text, index) => index > 0 && index < end - 1 && keyPattern.test(text));
+  if (start < 0) {
+    return { line: end, remove: 0, insert: lines };
+  }
+
+  let next = start + 1;
+  while (next < end - 1 && /^(\s|-(\s|$)|$)/.test(context.lines[next])) {
+    next++;
+  }
+  return { line: start + 1, remove: next - start, insert: lines };
+}
+
+function firstParagraph(context: LintContext): string | undefined {
+  const title = headingSections(context.sections)[0];
+  const paragraph: string[] = [];
+
+  for (const { line, text } of context.proseLines) {
+    if (title && line <= title.line) {
+      continue;
+    }
+    const trimmed = text.trim();
+    if (trimmed === '') {
+      if (paragraph.length > 0) {
+        break;
+      }
+      continue;
+    }
+    // Only a plain paragraph directly under the title will do
+    if (/^(#|[-*+>|]|\d+[.)]\s)/.test(trimmed)) {
+      break;
+    }
+    paragraph.push(trimmed);
+  }
+
+  return paragraph.length > 0 ? paragraph.join(' ') : undefined;
+}
+
+// The statement an item makes, without its do/don't marker
+function normalizeItem(item: string): string {
+  return item
+    .replace(NEGATIVE_PREFIX, '')
+    .replace(POSITIVE_PREFIX, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
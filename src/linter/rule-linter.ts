@@ -0,0 +1,300 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import matter from 'gray-matter';
+import { RuleAnalyzer } from '../analyzer/rule-analyzer.js';
+import { Rule, RuleSection } from '../types/rule.js';
+import { ParsedRuleFile } from '../types/cache.js';
+import { RuleLayerDirectives } from '../types/source.js';
+import { DiagnosticSeverity } from '../types/diagnostic.js';
+import {
+  LintContext,
+  LintDiagnostic,
+  LintFix,
+  LintFixResult,
+  LintRule,
+  LintRuleSetting,
+} from '../types/lint.js';
+import { parseSections, proseLines } from '../utils/markdown.js';
+import { DEFAULT_SOURCE_NAME } from '../utils/rule-loader.js';
+import { BUILTIN_LINT_RULES } from './lint-rules.js';
+
+// A fix can uncover another problem, e.g. a subheading that is now too deep
+// under a fixed heading, so fixing repeats until nothing is left to fix
+const MAX_FIX_PASSES = 10;
+
+/**
+ * Lints the markdown of rule files for content quality: heading structure,
+ * code fences, links, section length, duplicate sections and metadata.
+ * Lint rules are pluggable, and configured by code in .rulesrc `lint.rules`.
+ */
+export class RuleLinter {
+  private analyzer: RuleAnalyzer;
+  private settings: Record<string, LintRuleSetting>;
+  private lintRules = new Map<string, LintRule>();
+
+  constructor(
+    analyzer: RuleAnalyzer,
+    settings: Record<string, LintRuleSetting> = {},
+    lintRules: LintRule[] = BUILTIN_LINT_RULES
+  ) {
+    this.analyzer = analyzer;
+    this.settings = settings;
+    lintRules.forEach((lintRule) => this.register(lintRule));
+  }
+
+  /**
+   * Add a lint rule; one with the same code replaces the earlier rule
+   */
+  register(lintRule: LintRule): void {
+    this.lintRules.set(lintRule.code, lintRule);
+  }
+
+  getLintRules(): LintRule[] {
+    return [...this.lintRules.values()];
+  }
+
+  /**
+   * Lint the files of the given rules, including the files that extend
+   * them, or every rule file of every source
+   */
+  lint(ruleIds?: string[]): LintDiagnostic[] {
+    return this.targets(ruleIds).flatMap((file) =>
+      this.lintSource(file.rule, this.readFile(file.rule), file.directives)
+    );
+  }
+
+  /**
+   * Apply every fix offered, rewrite the files that changed, and report
+   * what is left. Without rule ids only the rules of the sources layered
+   * over the bundled ones are fixed, so the package's own files are never
+   * rewritten unless named.
+   */
+  fix(ruleIds?: string[]): LintFixResult {
+    const fixedFiles: string[] = [];
+    const diagnostics: LintDiagnostic[] = [];
+
+    let files = this.targets(ruleIds);
+    if (!ruleIds || ruleIds.length === 0) {
+      const ownSources = this.analyzer
+        .getSources()
+        .filter((source) => source.name !== DEFAULT_SOURCE_NAME && !source.files)
+        .map((source) => source.name);
+      if (ownSources.length === 0) {
+        throw new Error(
+          'Nothing to fix outside the bundled rules: name the rules to fix, or add a rules directory with --rules-dir'
+        );
+      }
+      files = files.filter((file) => ownSources.includes(file.rule.source));
+    }
+
+    for (const { rule, directives } of files) {
+      const filePath = this.filePathOf(rule);
+      const original = this.readFile(rule);
+      let source = original;
+      let remaining = this.lintSource(rule, source, directives);
+
+      for (let pass = 0; pass < MAX_FIX_PASSES && remaining.some((d) => d.fix); pass++) {
+        const fixed = applyFixes(source, remaining.flatMap((d) => (d.fix ? [d.fix] : [])));
+        // A pass that changes nothing would repeat forever, and one that
+        // breaks the frontmatter would be fixed again on every pass
+        if (fixed === source || !parses(fixed)) {
+          break;
+        }
+        source = fixed;
+        remaining = this.lintSource(rule, source, directives);
+      }
+
+      if (source !== original) {
+        fs.writeFileSync(filePath, source);
+        fixedFiles.push(filePath);
+      }
+      diagnostics.push(...remaining);
+    }
+
+    return { fixedFiles, diagnostics };
+  }
+
+  /**
+   * Lint the text of a rule's file, which need not be saved yet
+   */
+  lintSource(rule: Rule, source: string, directives: RuleLayerDirectives = {}): LintDiagnostic[] {
+    const context = this.createContext(rule, source, directives);
+    const diagnostics: LintDiagnostic[] = [];
+
+    for (const lintRule of this.lintRules.values()) {
+      const { severity, options } = this.resolveSetting(lintRule);
+      if (severity === 'off') {
+        continue;
+      }
+
+      for (const problem of lintRule.check(context, options)) {
+        diagnostics.push({
+          code: lintRule.code,
+          message: problem.message,
+          severity,
+          ruleId: rule.metadata.id,
+          filePath: rule.filePath,
+          line: problem.line,
+          column: problem.column ?? 1,
+          ...(problem.fix && { fix: problem.fix }),
+        });
+      }
+    }
+
+    return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  /**
+   * The files of the named rules and of the rules extending them, or every
+   * rule file of every source
+   */
+  private targets(ruleIds?: string[]): ParsedRuleFile[] {
+    const unknown = Object.keys(this.settings).filter((code) => !this.lintRules.has(code));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown lint rule: ${unknown.join(', ')}`);
+    }
+
+    const files = this.analyzer.getRuleFiles();
+    if (!ruleIds || ruleIds.length === 0) {
+      return files;
+    }
+    return ruleIds.flatMap((ruleId) => {
+      const rule = this.analyzer.getRule(ruleId);
+      if (!rule) {
+        throw new Error(`Rule not found: ${ruleId}`);
+      }
+      return files.filter(
+        (file) =>
+          (file.rule.source === rule.source && file.rule.filePath === rule.filePath) ||
+          (file.directives.extends !== undefined &&
+            this.analyzer.getRule(file.directives.extends)?.metadata.id === rule.metadata.id)
+      );
+    });
+  }
+
+  private resolveSetting(lintRule: LintRule): {
+    severity: 'off' | DiagnosticSeverity;
+    options: Record<string, unknown>;
+  } {
+    const setting = this.settings[lintRule.code];
+    if (setting === undefined || typeof setting === 'string') {
+      return { severity: setting ?? lintRule.defaultSeverity, options: { ...lintRule.defaultOptions } };
+    }
+
+    const { severity, ...options } = setting;
+    return { severity: severity ?? lintRule.defaultSeverity, options: { ...lintRule.defaultOptions, ...options } };
+  }
+
+  private createContext(rule: Rule, source: string, directives: RuleLayerDirectives): LintContext {
+    const lines = source.split(/\r?\n/);
+    const closing = lines[0]?.trim() === '---' ? lines.findIndex((line, i) => i > 0 && line.trim() === '---') : -1;
+    const frontmatterEnd = closing > 0 ? closing + 1 : undefined;
+
+    let frontmatter: Record<string, unknown> = {};
+    try {
+      frontmatter = matter(source).data;
+    } catch {
+      // Invalid YAML is reported by `rules-cli validate`
+    }
+
+    // Parse the markdown after the frontmatter, then shift lines to the file's
+    const offset = frontmatterEnd ?? 0;
+    const body = lines.slice(offset).join('\n');
+
+    return {
+      rule,
+      directives,
+      filePath: this.filePathOf(rule),
+      lines,
+      frontmatter,
+      frontmatterEnd,
+      sections: shiftSections(parseSections(body), offset),
+      proseLines: proseLines(body).map(({ line, text }) => ({ line: line + offset, text })),
+      resolveRule: (reference) => this.analyzer.getRule(reference),
+      findRuleByFile: (filePath) =>
+        this.analyzer.getAllRules().find((candidate) => this.filePathOf(candidate) === path.resolve(filePath)),
+      findRuleByPath: (relativePath) =>
+        this.analyzer.getAllRules().find((candidate) => candidate.filePath === relativePath),
+      filePathOf: (candidate) => this.filePathOf(candidate),
+    };
+  }
+
+  // In-memory sources are read from their files, keyed with / separators
+  private readFile(rule: Rule): string {
+    const files = this.analyzer.getSources().find((s) => s.name === rule.source)?.files;
+    if (files) {
+      return files[rule.filePath.split(path.sep).join('/')] ?? '';
+    }
+    return fs.readFileSync(this.filePathOf(rule), 'utf-8');
+  }
+
+  private filePathOf(rule: Rule): string {
+    const rulesDir = this.analyzer.getSources().find((s) => s.name === rule.source)?.path || '';
+    return path.resolve(rulesDir, rule.filePath);
+  }
+}
+
+/**
+ * Import lint rules from plugin modules, each exporting an array of them as
+ * its default export or as `lintRules`
+ */
+export async function loadLintPlugins(modulePaths: string[]): Promise<LintRule[]> {
+  const lintRules: LintRule[] = [];
+
+  for (const modulePath of modulePaths) {
+    const plugin = await import(pathToFileURL(modulePath).href);
+    const exported: unknown = plugin.default ?? plugin.lintRules;
+    const valid =
+      Array.isArray(exported) &&
+      exported.every((candidate) => typeof candidate?.code === 'string' && typeof candidate?.check === 'function');
+    if (!valid) {
+      throw new Error(`Lint plugin ${modulePath} must export an array of lint rules with a code and a check function`);
+    }
+    lintRules.push(...(exported as LintRule[]));
+  }
+
+  return lintRules;
+}
+
+// Whether the frontmatter of a file still parses
+function parses(source: string): boolean {
+  try {
+    matter(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply fixes that do not overlap; the rest wait for the next pass
+ */
+function applyFixes(source: string, fixes: LintFix[]): string {
+  const newline = source.includes('\r\n') ? '\r\n' : '\n';
+  const lines = source.split(/\r?\n/);
+
+  const accepted: LintFix[] = [];
+  let nextFreeLine = 1;
+  for (const fix of [...fixes].sort((a, b) => a.line - b.line)) {
+    if (fix.line >= nextFreeLine) {
+      accepted.push(fix);
+      nextFreeLine = fix.line + Math.max(fix.remove, 1);
+    }
+  }
+
+  for (const fix of accepted.reverse()) {
+    lines.splice(fix.line - 1, fix.remove, ...fix.insert);
+  }
+  return lines.join(newline);
+}
+
+function shiftSections(sections: RuleSection[], offset: number): RuleSection[] {
+  return sections.map((section) => ({
+    ...section,
+    line: section.line + offset,
+    endLine: section.endLine + offset,
+    codeBlocks: section.codeBlocks.map((block) => ({ ...block, line: block.line + offset })),
+    children: shiftSections(section.children, offset),
+  }));
+}
@@ -0,0 +1,60 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ZodIssue } from 'zod';
+
+// MCP's error code for a resource that does not exist; also used for rules,
+// sections and bundles named in tool arguments
+export const NOT_FOUND = -32002;
+
+export interface ArgumentIssue {
+  // Path of the argument, e.g. "priorities.1"; empty for the arguments object
+  path: string;
+  message: string;
+}
+
+/**
+ * Arguments that do not match a tool's input schema or a prompt's arguments,
+ * with a message per field
+ */
+export class InvalidArgumentsError extends McpError {
+  readonly issues: ArgumentIssue[];
+
+  constructor(toolName: string, issues: ZodIssue[]) {
+    const described = issues.map(describeIssue);
+    const details = described.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+    super(ErrorCode.InvalidParams, `Invalid arguments for ${toolName}: ${details.join('; ')}`, { issues: described });
+    this.name = 'InvalidArgumentsError';
+    this.issues = described;
+  }
+}
+
+/**
+ * A rule, section, bundle, tool or prompt that does not exist, with the closest
+ * names that do
+ */
+export class NotFoundError extends McpError {
+  readonly kind: string;
+  readonly id: string;
+  readonly suggestions: string[];
+
+  constructor(kind: 'rule' | 'section' | 'bundle' | 'tool' | 'prompt', id: string, suggestions: string[] = []) {
+    const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.join(', ')}?)` : '';
+    // The MCP specification reports unknown tools and prompts as invalid params
+    super(
+      kind === 'tool' || kind === 'prompt' ? ErrorCode.InvalidParams : NOT_FOUND,
+      `${kind[0].toUpperCase()}${kind.slice(1)} not found: ${id}${hint}`,
+      { kind, id, suggestions }
+    );
+    this.name = 'NotFoundError';
+    this.kind = kind;
+    this.id = id;
+    this.suggestions = suggestions;
+  }
+}
+
+function describeIssue(issue: ZodIssue): ArgumentIssue {
+  const path = issue.path.join('.');
+  if (issue.code === 'unrecognized_keys') {
+    return { path, message: `Unknown argument(s): ${issue.keys.join(', ')}` };
+  }
+  return { path, message: issue.message };
+}
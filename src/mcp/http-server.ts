@@ -0,0 +1,275 @@
+import * as http from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Streamable HTTP endpoint, and the endpoints of the older HTTP+SSE transport
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_SESSION_TIMEOUT_SECONDS = 30 * 60;
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  // Origins allowed to call from a browser; '*' allows any
+  corsOrigins: string[];
+  // Bearer token required on every request except the health check
+  token?: string;
+  // Streamable HTTP sessions with no request for this long are closed
+  sessionTimeoutMs: number;
+}
+
+interface StreamableSession {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  // Requests still being answered, such as an open notification stream
+  openRequests: number;
+}
+
+/**
+ * HTTP options from `--http`, `--port`, `--host`, `--cors-origin` (repeatable),
+ * `--token` and `--session-timeout` (seconds) or their RULES_D_* variables;
+ * undefined without `--http`
+ */
+export function parseHttpOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): HttpServerOptions | undefined {
+  if (!argv.includes('--http')) {
+    return undefined;
+  }
+
+  const port = Number(flagValues(argv, '--port').pop() ?? env.RULES_D_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${flagValues(argv, '--port').pop() ?? env.RULES_D_PORT}`);
+  }
+
+  const sessionTimeout = Number(
+    flagValues(argv, '--session-timeout').pop() ?? env.RULES_D_SESSION_TIMEOUT ?? DEFAULT_SESSION_TIMEOUT_SECONDS
+  );
+  if (!(sessionTimeout > 0)) {
+    throw new Error(`Invalid session timeout: ${flagValues(argv, '--session-timeout').pop() ?? env.RULES_D_SESSION_TIMEOUT}`);
+  }
+
+  const corsOrigins = flagValues(argv, '--cors-origin');
+  return {
+    port,
+    host: flagValues(argv, '--host').pop() ?? env.RULES_D_HOST ?? '127.0.0.1',
+    corsOrigins: corsOrigins.length > 0 ? corsOrigins : (env.RULES_D_CORS_ORIGINS || '').split(',').filter(Boolean),
+    token: flagValues(argv, '--token').pop() ?? env.RULES_D_TOKEN,
+    sessionTimeoutMs: sessionTimeout * 1000,
+  };
+}
+
+/**
+ * Serve MCP over Streamable HTTP at /mcp and over HTTP+SSE at /sse and
+ * /messages for older clients. Each session gets its own server from
+ * `createServer`, so all sessions share the same handlers and rules.
+ * Streamable HTTP sessions that stay idle past the session timeout are
+ * closed; HTTP+SSE sessions end with their connection.
+ */
+export function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions,
+  health: () => Record<string, unknown> = () => ({})
+): Promise<http.Server> {
+  const streamable = new Map<string, StreamableSession>();
+  const sse = new Map<string, SSEServerTransport>();
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    setCorsHeaders(req, res, options.corsOrigins);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: streamable.size + sse.size, ...health() });
+      return;
+    }
+
+    if (options.token && !isAuthorized(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, jsonRpcError(-32001, 'Unauthorized'));
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      let body: unknown;
+      if (req.method === 'POST') {
+        const parsed = await readJson(req, res);
+        if (!parsed) {
+          return;
+        }
+        body = parsed.body;
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      const session = typeof sessionId === 'string' ? streamable.get(sessionId) : undefined;
+      let transport: StreamableHTTPServerTransport;
+      if (session) {
+        transport = session.transport;
+        session.openRequests++;
+        res.on('close', () => {
+          session.openRequests--;
+          session.lastActive = Date.now();
+        });
+      } else {
+        if (sessionId !== undefined) {
+          sendJson(res, 404, jsonRpcError(-32001, 'Session not found'));
+          return;
+        }
+        if (req.method !== 'POST' || !isInitializeRequest(body)) {
+          sendJson(res, 400, jsonRpcError(-32000, 'No session: send an initialize request first'));
+          return;
+        }
+
+        const created = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            streamable.set(id, { transport: created, lastActive: Date.now(), openRequests: 0 });
+          },
+        });
+        created.onclose = () => {
+          if (created.sessionId) {
+            streamable.delete(created.sessionId);
+          }
+        };
+        await createServer().connect(created);
+        transport = created;
+      }
+
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      sse.set(transport.sessionId, transport);
+      res.on('close', () => {
+        sse.delete(transport.sessionId);
+      });
+      await createServer().connect(transport);
+      return;
+    }
+
+    if (url.pathname === MESSAGES_PATH && req.method === 'POST') {
+      const transport = sse.get(url.searchParams.get('sessionId') || '');
+      if (!transport) {
+        sendJson(res, 404, jsonRpcError(-32001, 'Session not found'));
+        return;
+      }
+
+      const parsed = await readJson(req, res);
+      if (parsed) {
+        await transport.handlePostMessage(req, res, parsed.body);
+      }
+      return;
+    }
+
+    sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, jsonRpcError(-32603, 'Internal error'));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const session of streamable.values()) {
+      if (session.openRequests === 0 && now - session.lastActive > options.sessionTimeoutMs) {
+        // Removed from the map by the transport's onclose
+        session.transport.close().catch((error) => console.error('Failed to close an idle session:', error));
+      }
+    }
+  }, Math.min(options.sessionTimeoutMs, 60 * 1000));
+  sweep.unref();
+  server.on('close', () => clearInterval(sweep));
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
+
+function flagValues(argv: string[], flag: string): string[] {
+  const values: string[] = [];
+  argv.forEach((arg, index) => {
+    if (arg === flag && argv[index + 1] !== undefined) {
+      values.push(argv[index + 1]);
+    } else if (arg.startsWith(`${flag}=`)) {
+      values.push(arg.slice(flag.length + 1));
+    }
+  });
+  return values;
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  // Compare digests so that the comparison takes the same time for any header
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(req.headers.authorization || ''), digest(`Bearer ${token}`));
+}
+
+function setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse, origins: string[]): void {
+  const origin = req.headers.origin;
+  if (!origin || !(origins.includes('*') || origins.includes(origin))) {
+    return;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', origins.includes('*') ? '*' : origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+  );
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+}
+
+/**
+ * Read a JSON request body; on failure the error response is sent and
+ * undefined returned, so a body of `null` is told apart from a failure
+ */
+async function readJson(req: http.IncomingMessage, res: http.ServerResponse): Promise<{ body: unknown } | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      sendJson(res, 413, jsonRpcError(-32600, 'Request body too large'));
+      return undefined;
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return { body: JSON.parse(Buffer.concat(chunks).toString('utf-8')) };
+  } catch {
+    sendJson(res, 400, jsonRpcError(-32700, 'Parse error'));
+    return undefined;
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function jsonRpcError(code: number, message: string) {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
+}
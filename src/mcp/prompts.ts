@@ -0,0 +1,168 @@
+import { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { RuleAnalyzer } from '../analyzer/rule-analyzer.js';
+import { PRIORITIES, TASK_TYPES } from '../bundles/bundle-schema.js';
+import { RuleBundle, ScenarioContext } from '../types/rule.js';
+import { closestMatches } from '../utils/suggestions.js';
+import { InvalidArgumentsError, NotFoundError } from './errors.js';
+
+// Prefix of the prompt generated for each declared bundle
+const BUNDLE_PROMPT_PREFIX = 'bundle-';
+
+const APPLY_RULES_PROMPT = 'apply-rules';
+
+const TASK_ARGUMENT = {
+  name: 'task',
+  description: 'What you are about to work on; appended after the rules',
+  required: false,
+};
+
+/**
+ * One prompt per declared bundle, plus `apply-rules` for a recommended
+ * bundle built from the prompt arguments
+ */
+export function listPrompts(analyzer: RuleAnalyzer): Prompt[] {
+  const bundlePrompts = analyzer.getBundleDeclarations().map((declaration) => ({
+    name: `${BUNDLE_PROMPT_PREFIX}${declaration.id}`,
+    description: declaration.definition.description || declaration.definition.name || `Rules of the ${declaration.id} bundle`,
+    arguments: [TASK_ARGUMENT],
+  }));
+
+  return [
+    {
+      name: APPLY_RULES_PROMPT,
+      description: 'Apply the rules recommended for a language, framework and task type',
+      arguments: [
+        { name: 'language', description: 'Programming language, e.g. python', required: false },
+        { name: 'framework', description: 'Framework, e.g. django', required: false },
+        { name: 'type', description: `Task type (${TASK_TYPES.join(', ')}); defaults to coding`, required: false },
+        { name: 'priorities', description: `Comma-separated priorities (${PRIORITIES.join(', ')})`, required: false },
+        { name: 'maxTokens', description: 'Token budget for the rules', required: false },
+        TASK_ARGUMENT,
+      ],
+    },
+    ...bundlePrompts,
+  ];
+}
+
+/**
+ * Render a prompt's rules as messages for the conversation. Prompt
+ * arguments are strings, so they are parsed into a ScenarioContext here;
+ * unset arguments fall back to `defaults`.
+ */
+export function getPrompt(
+  analyzer: RuleAnalyzer,
+  name: string,
+  args: Record<string, string> = {},
+  defaults: Partial<ScenarioContext> = {}
+): GetPromptResult {
+  if (name === APPLY_RULES_PROMPT) {
+    const type = (args.type || defaults.type || 'coding') as ScenarioContext['type'];
+    if (!TASK_TYPES.includes(type)) {
+      throw invalidArgument(name, 'type', `Invalid type: ${type} (expected one of ${TASK_TYPES.join(', ')})`);
+    }
+
+    const priorities = args.priorities
+      ? args.priorities.split(',').map((priority) => priority.trim()).filter(Boolean)
+      : defaults.priorities;
+    const unknown = (priorities || []).filter((priority) => !(PRIORITIES as readonly string[]).includes(priority));
+    if (unknown.length > 0) {
+      throw invalidArgument(
+        name,
+        'priorities',
+        `Invalid priorities: ${unknown.join(', ')} (expected ${PRIORITIES.join(', ')})`
+      );
+    }
+
+    const maxTokens = args.maxTokens ? Number(args.maxTokens) : defaults.maxTokens;
+    if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+      throw invalidArgument(name, 'maxTokens', `Invalid maxTokens: ${args.maxTokens}`);
+    }
+
+    const bundle = analyzer.recommendBundle({
+      ...defaults,
+      type,
+      language: args.language || defaults.language,
+      framework: args.framework || defaults.framework,
+      priorities: priorities as ScenarioContext['priorities'],
+      maxTokens,
+    });
+    return renderBundlePrompt(bundle, args.task);
+  }
+
+  if (name.startsWith(BUNDLE_PROMPT_PREFIX)) {
+    const bundle = analyzer.getBundle(name.slice(BUNDLE_PROMPT_PREFIX.length));
+    if (bundle) {
+      return renderBundlePrompt(bundle, args.task);
+    }
+  }
+
+  const names = listPrompts(analyzer).map((prompt) => prompt.name);
+  throw new NotFoundError('prompt', name, closestMatches(name, names));
+}
+
+function invalidArgument(promptName: string, argument: string, message: string): InvalidArgumentsError {
+  return new InvalidArgumentsError(promptName, [{ code: 'custom', path: [argument], message }]);
+}
+
+/**
+ * An instruction message, each rule as an embedded `rule:///` resource (only
+ * the packed sections when the bundle has a token budget), then the task
+ */
+function renderBundlePrompt(bundle: RuleBundle, task?: string): GetPromptResult {
+  const allocations = new Map(bundle.composition?.allocations.map((allocation) => [allocation.ruleId, allocation]));
+  const rules = bundle.rules.filter((rule) => allocations.get(rule.metadata.id)?.status !== 'omitted');
+
+  const messages: PromptMessage[] = [
+    {
+      role: 'user',
+      content: {
+        type: 'text',
+        text: [
+          `Follow these rules for the rest of this conversation (${bundle.name}: ${bundle.description}).`,
+          '',
+          ...rules.map((rule, index) => `${index + 1}. ${rule.metadata.title} (${rule.metadata.id})`),
+        ].join('\n'),
+      },
+    },
+    ...rules.map((rule): PromptMessage => ({
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: {
+          uri: `rule:///${rule.metadata.id}`,
+          mimeType: 'text/markdown',
+          text: allocations.get(rule.metadata.id)?.content ?? rule.content,
+        },
+      },
+    })),
+  ];
+
+  if (task) {
+    messages.push({ role: 'user', content: { type: 'text', text: task } });
+  }
+
+  return { description: bundle.description, messages };
+}
+
+/**
+ * Values for a prompt argument, before filtering by what was typed
+ */
+export function completePromptArgument(analyzer: RuleAnalyzer, name: string, argument: string): string[] {
+  if (name !== APPLY_RULES_PROMPT) {
+    return [];
+  }
+
+  const rules = analyzer.getAllRules();
+  switch (argument) {
+    case 'type':
+      return [...TASK_TYPES];
+    case 'priorities':
+      return [...PRIORITIES];
+    case 'language':
+      return rules.flatMap((rule) => [rule.metadata.language].flat().map((language) => language.toLowerCase()));
+    case 'framework':
+      return rules.flatMap((rule) => rule.metadata.applicability?.frameworks || []);
+    default:
+      return [];
+  }
+}
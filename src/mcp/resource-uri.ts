@@ -0,0 +1,119 @@
+// URIs of the resources served by the MCP server:
+//   rule:///<id>                    a rule's markdown
+//   rule:///<id>/section/<anchor>   one section of it (also rule:///<id>#<anchor>)
+//   bundle:///<bundleId>            a declared bundle, resolved
+//   category:///<category>          the rules of a category
+//   rules://language/<language>     the rules written for a language
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export type ResourceUri =
+  | { kind: 'rule'; ruleId: string; anchor?: string }
+  | { kind: 'bundle'; bundleId: string }
+  | { kind: 'category'; category: string }
+  | { kind: 'language'; language: string };
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'rule:///{id}',
+    name: 'Rule',
+    description: 'Markdown of a rule by id or alias',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'rule:///{id}/section/{anchor}',
+    name: 'Rule section',
+    description: 'One section of a rule, by anchor (e.g. "error-handling") or heading text',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'bundle:///{bundleId}',
+    name: 'Bundle',
+    description: 'A declared bundle with its ordered rules',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'category:///{category}',
+    name: 'Category',
+    description: 'Rules of a category',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'rules://language/{lang}',
+    name: 'Language',
+    description: 'Rules written for a language, including universal ones',
+    mimeType: 'application/json',
+  },
+];
+
+const SECTION_SEPARATOR = '/section/';
+
+/**
+ * Parse a resource URI; throws an invalid params error on unknown schemes
+ * and missing parts, as the URI comes from the client
+ */
+export function parseResourceUri(uri: string): ResourceUri {
+  const match = /^([a-z]+):\/\/([^/]*)\/(.*)$/.exec(uri);
+  if (!match) {
+    throw invalidUri(uri);
+  }
+
+  const [, scheme, authority, encodedPath] = match;
+  let resourcePath: string;
+  try {
+    resourcePath = decodeURIComponent(encodedPath);
+  } catch {
+    throw invalidUri(uri, ' (bad percent-encoding)');
+  }
+
+  const resource = parsePath(scheme, authority, resourcePath);
+  if (!resource) {
+    throw invalidUri(uri);
+  }
+  return resource;
+}
+
+/**
+ * URI of a rule, or of one of its sections
+ */
+export function formatRuleUri(ruleId: string, anchor?: string): string {
+  return anchor ? `rule:///${ruleId}${SECTION_SEPARATOR}${anchor}` : `rule:///${ruleId}`;
+}
+
+function parsePath(scheme: string, authority: string, resourcePath: string): ResourceUri | undefined {
+  if (scheme === 'rules') {
+    const language = authority === 'language' ? resourcePath : '';
+    return language && !language.includes('/') ? { kind: 'language', language } : undefined;
+  }
+  if (authority !== '' || resourcePath === '') {
+    return undefined;
+  }
+
+  switch (scheme) {
+    case 'rule': {
+      const hash = resourcePath.indexOf('#');
+      if (hash >= 0) {
+        const [ruleId, anchor] = [resourcePath.slice(0, hash), resourcePath.slice(hash + 1)];
+        return ruleId && anchor ? { kind: 'rule', ruleId, anchor } : undefined;
+      }
+
+      const separator = resourcePath.lastIndexOf(SECTION_SEPARATOR);
+      if (separator < 0) {
+        return { kind: 'rule', ruleId: resourcePath };
+      }
+      const ruleId = resourcePath.slice(0, separator);
+      const anchor = resourcePath.slice(separator + SECTION_SEPARATOR.length);
+      return ruleId && anchor ? { kind: 'rule', ruleId, anchor } : undefined;
+    }
+    case 'bundle':
+      return resourcePath.includes('/') ? undefined : { kind: 'bundle', bundleId: resourcePath };
+    case 'category':
+      return resourcePath.includes('/') ? undefined : { kind: 'category', category: resourcePath };
+    default:
+      return undefined;
+  }
+}
+
+function invalidUri(uri: string, detail = ''): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}${detail}`, { uri });
+}
@@ -2,332 +2,569 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { parseHttpOptions, startHttpServer } from './http-server.js';
+import { completePromptArgument, getPrompt, listPrompts } from './prompts.js';
+import { formatRuleUri, parseResourceUri, RESOURCE_TEMPLATES } from './resource-uri.js';
+import { InvalidArgumentsError, NotFoundError } from './errors.js';
+import { ZodType } from 'zod';
+import { describeTool, ToolArgs, ToolDefinition, ToolName, TOOLS } from './tools.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  CompleteRequestSchema,
+  CallToolRequest,
+  CompleteRequest,
+  ErrorCode,
+  McpError,
+  CompleteResult,
+  ListResourceTemplatesResult,
+  CallToolResult,
+  ListResourcesRequest,
+  ListResourcesResult,
+  ListToolsResult,
+  ReadResourceRequest,
+  ReadResourceResult,
 } from '@modelcontextprotocol/sdk/types.js';
 import { RuleAnalyzer } from '../analyzer/rule-analyzer.js';
-import { ScenarioContext } from '../types/rule.js';
-import { ListRulesArgs, GetRuleArgs, RecommendBundleArgs, SearchRulesArgs } from './types.js';
+import { Rule, RuleBundle, RuleChangeSet, ScenarioContext } from '../types/rule.js';
+import {
+  RuleQueryArgs,
+} from './types.js';
+import { applyExport, renderExport } from '../exporter/bundle-exporter.js';
+import { ProjectDetector } from '../detector/project-detector.js';
+import { flattenSections, getSectionMarkdown } from '../utils/markdown.js';
+import {
+  describeDeclaredBundle,
+  describeRule,
+  describeSection,
+  outlineRule,
+  summarizeBundle,
+  summarizeCommonBundle,
+  summarizeExport,
+  summarizeRule,
+  summarizeSearchResult,
+} from '../utils/rule-summaries.js';
+import { RuleWatcher } from '../utils/rule-watcher.js';
+import { renderGraph } from '../graph/graph-renderer.js';
+import { ComplianceChecker } from '../checker/compliance-checker.js';
+import { RevisionError, RuleHistory } from '../history/rule-history.js';
+import { QueryError } from '../analyzer/rule-query.js';
+import { RuleQuery, RuleQueryResult } from '../types/query.js';
+import { RuleChangesReport } from '../types/history.js';
+import { parseRulesDirArgs } from '../utils/rule-sources.js';
+import { loadConfig } from '../config/rules-config.js';
+import { ResolvedConfig } from '../types/config.js';
+import { closestMatches } from '../utils/suggestions.js';
+import { ParseCache } from '../utils/parse-cache.js';
+import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Initialize analyzer
+// Initialize analyzer from the nearest .rulesrc, with layered sources from
+// RULES_D_PATH and --rules-dir over the bundled rules
 const rulesDir = path.join(__dirname, '../..');
-const analyzer = new RuleAnalyzer(rulesDir);
-
-// Create server instance
-const server = new Server(
-  {
-    name: 'rules-d-server',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
+let config: ResolvedConfig;
+try {
+  config = loadConfig({ builtinDir: rulesDir, rulesDirs: parseRulesDirArgs(process.argv.slice(2)) });
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+// Parsed rules are cached on disk unless disabled with --no-cache or RULES_D_CACHE=0
+const cache = process.argv.includes('--no-cache') || process.env.RULES_D_CACHE === '0' ? undefined : new ParseCache();
+const analyzer = new RuleAnalyzer(config.sources, { ...config, cache });
+
+// Tools that read local paths given by the client. Over HTTP without a token
+// anyone who can reach the port could call them, so they are only served
+// over stdio or with a token; export_bundle is served but cannot write files.
+const LOCAL_FILE_TOOLS = ['check_compliance', 'detect_project_context'];
+let localFileAccess = true;
+
+// Connected servers, one per stdio process or HTTP session, with the
+// resource URIs (with or without a #anchor) each client subscribed to
+const sessions = new Map<Server, Set<string>>();
+
+/**
+ * Create a server with all handlers, connected to a single client
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'rules-d-server',
+      version: '1.0.0',
     },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {
+          listChanged: true,
+        },
+        completions: {},
+      },
+    }
+  );
+
+  const subscriptions = new Set<string>();
+  sessions.set(server, subscriptions);
+  server.onclose = () => {
+    sessions.delete(server);
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+  server.setRequestHandler(ListResourcesRequestSchema, listResources);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
+  server.setRequestHandler(CompleteRequestSchema, complete);
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts(analyzer) }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(analyzer, request.params.name, request.params.arguments, config.context)
+  );
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    // Reject malformed URIs up front rather than on the next reload
+    parseResourceUri(request.params.uri);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return server;
+}
+
+function ruleNotFound(ruleId: string): McpError {
+  const candidates = analyzer.getRuleCandidates(ruleId);
+  return candidates.length > 1
+    ? new McpError(ErrorCode.InvalidParams, `Ambiguous rule id: ${ruleId} (matches ${candidates.join(', ')})`, {
+        id: ruleId,
+        candidates,
+      })
+    : new NotFoundError('rule', ruleId, analyzer.suggestRuleIds(ruleId));
+}
+
+function sectionNotFound(rule: Rule, anchor: string): McpError {
+  const anchors = flattenSections(rule.sections)
+    .filter(({ section }) => section.level > 0)
+    .map(({ section }) => section.anchor);
+  return new NotFoundError('section', `${anchor} in ${rule.metadata.id}`, closestMatches(anchor, anchors));
+}
+
+function bundleNotFound(bundleId: string): McpError {
+  const bundleIds = analyzer.getBundleDeclarations().map((bundle) => bundle.id);
+  return new NotFoundError('bundle', bundleId, closestMatches(bundleId, bundleIds));
+}
+
+/**
+ * Reload rules and tell clients what changed: the resource list when rules
+ * were added or removed, the prompt list when bundles were, and every
+ * subscribed URI of a changed or removed rule
+ */
+async function reloadRules(): Promise<RuleChangeSet> {
+  const bundleIds = () => analyzer.getBundleDeclarations().map((bundle) => bundle.id).join('\n');
+  const previousBundles = bundleIds();
+  const changes = await analyzer.reload();
+  const bundlesChanged = bundleIds() !== previousBundles;
+
+  const affected = new Set([...changes.changed, ...changes.removed]);
+  for (const [server, subscriptions] of sessions) {
+    // One session that cannot be notified, e.g. a dropped connection, must
+    // not keep the others from hearing about the change
+    try {
+      if (changes.added.length > 0 || changes.removed.length > 0) {
+        await server.sendResourceListChanged();
+      }
+      // Every declared bundle is a prompt
+      if (bundlesChanged) {
+        await server.sendPromptListChanged();
+      }
+
+      for (const uri of subscriptions) {
+        // Rule URIs follow their rule; listings may change with any rule
+        const resource = parseResourceUri(uri);
+        const changed = resource.kind === 'rule'
+          ? affected.has(analyzer.getRule(resource.ruleId)?.metadata.id ?? resource.ruleId)
+          : changes.added.length + changes.changed.length + changes.removed.length > 0;
+        if (changed) {
+          await server.sendResourceUpdated({ uri });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to notify a session of reloaded rules:', error);
+    }
   }
-);
 
-// Initialize analyzer when server starts
+  return changes;
+}
+
+// Initialize analyzer when server starts, then follow edits to rule files
+// unless disabled with --no-watch or RULES_D_WATCH=0
 analyzer.initialize().then(() => {
   console.error('Rules loaded successfully');
+
+  if (!process.argv.includes('--no-watch') && process.env.RULES_D_WATCH !== '0') {
+    const onChange = () => {
+      reloadRules().then((changes) => {
+        const count = changes.added.length + changes.removed.length + changes.changed.length;
+        if (count > 0) {
+          console.error(`Rules reloaded: ${changes.added.length} added, ${changes.removed.length} removed, ${changes.changed.length} changed`);
+        }
+      }).catch((error) => {
+        console.error('Failed to reload rules:', error);
+      });
+    };
+    for (const source of analyzer.getSources()) {
+      new RuleWatcher(source.path, onChange).start();
+    }
+  }
 }).catch((error) => {
   console.error('Failed to load rules:', error);
 });
 
+function toRuleQuery(args: RuleQueryArgs, text?: string): RuleQuery {
+  return {
+    filter: {
+      category: args.category,
+      subcategory: args.subcategory,
+      language: args.language,
+      tags: { any: args.tags, all: args.allTags, none: args.excludeTags },
+      priority: args.priority,
+      difficulty: args.difficulty,
+      framework: args.framework,
+      author: args.author,
+      updatedSince: args.updatedSince,
+    },
+    text,
+    sort: args.sort,
+    order: args.order,
+    limit: args.limit,
+    cursor: args.cursor,
+  };
+}
+
+// Run a rule query built from tool arguments, rejecting the arguments it
+// cannot answer as invalid params
+function queryArguments(toolName: string, query: RuleQuery): RuleQueryResult {
+  try {
+    return analyzer.query(query);
+  } catch (error) {
+    if (error instanceof QueryError) {
+      throw new InvalidArgumentsError(toolName, [{ code: 'custom', path: [error.field], message: error.message }]);
+    }
+    throw error;
+  }
+}
+
+// A directory named by a tool argument, resolved against the working directory
+function directoryArgument(toolName: string, field: string, dir: string): string {
+  const resolved = path.resolve(dir);
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+    throw new InvalidArgumentsError(toolName, [{ code: 'custom', path: [field], message: `Not a directory: ${dir}` }]);
+  }
+  return resolved;
+}
+
 // List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function listTools(): Promise<ListToolsResult> {
   return {
-    tools: [
-      {
-        name: 'list_rules',
-        description: 'List all available rule files with their metadata',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            category: {
-              type: 'string',
-              description: 'Filter by category (general, coding, writing, etc.)',
-            },
-            language: {
-              type: 'string',
-              description: 'Filter by programming language',
-            },
-            tags: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Filter by tags',
-            },
-          },
-        },
-      },
-      {
-        name: 'get_rule',
-        description: 'Get the full content of a specific rule file',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            ruleId: {
-              type: 'string',
-              description: 'The ID of the rule to retrieve',
-            },
-          },
-          required: ['ruleId'],
-        },
-      },
-      {
-        name: 'recommend_bundle',
-        description: 'Get a recommended bundle of rules for a specific scenario',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            type: {
-              type: 'string',
-              enum: ['coding', 'writing', 'research', 'communication', 'data', 'devops', 'security', 'project-management', 'general'],
-              description: 'Type of task',
-            },
-            language: {
-              type: 'string',
-              description: 'Programming language (for coding tasks)',
-            },
-            framework: {
-              type: 'string',
-              description: 'Framework being used',
-            },
-            priorities: {
-              type: 'array',
-              items: {
-                type: 'string',
-                enum: ['performance', 'security', 'maintainability', 'accessibility'],
-              },
-              description: 'Priority areas to focus on',
-            },
-          },
-          required: ['type'],
-        },
-      },
-      {
-        name: 'get_common_bundles',
-        description: 'Get pre-configured bundles for common scenarios',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
+    tools: TOOLS.filter((tool) => localFileAccess || !LOCAL_FILE_TOOLS.includes(tool.name)).map(describeTool),
+  };
+}
+
+// A tool result as structured content, with its JSON (or the given text)
+// as the text content for clients that do not read structured content
+function toolResult(structured: Record<string, unknown>, text?: string): CallToolResult {
+  return {
+    content: [
       {
-        name: 'search_rules',
-        description: 'Search rules by various criteria',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            query: {
-              type: 'string',
-              description: 'Search query',
-            },
-            category: {
-              type: 'string',
-              description: 'Category filter',
-            },
-            language: {
-              type: 'string',
-              description: 'Language filter',
-            },
-            tags: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Tags to match',
-            },
-          },
-        },
+        type: 'text',
+        text: text ?? JSON.stringify(structured, null, 2),
       },
     ],
+    structuredContent: structured,
   };
-});
+}
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+type ToolHandlers = { [Name in ToolName]: (args: ToolArgs<Name>) => Promise<CallToolResult> };
 
-  try {
-    switch (name) {
-      case 'list_rules': {
-        const listArgs = args as ListRulesArgs;
-        let rules = analyzer.getAllRules();
+// Each tool's handler, called with the arguments its input schema parsed
+const toolHandlers: ToolHandlers = {
+  list_rules: async (args) => {
+    const result = queryArguments('list_rules', toRuleQuery(args));
 
-        if (listArgs?.category) {
-          rules = rules.filter((r) => r.metadata.category === listArgs.category);
-        }
+    return toolResult({
+      rules: result.items.map(({ rule }) => summarizeRule(rule)),
+      total: result.total,
+      nextCursor: result.nextCursor,
+    });
+  },
 
-        if (listArgs?.language) {
-          rules = analyzer.searchByLanguage(listArgs.language);
-        }
+  get_rule: async (getRuleArgs) => {
+    const rule = analyzer.getRule(getRuleArgs.ruleId);
 
-        if (listArgs?.tags) {
-          rules = analyzer.searchByTags(listArgs.tags);
-        }
+    if (!rule) {
+      throw ruleNotFound(getRuleArgs.ruleId);
+    }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                rules.map((r) => ({
-                  id: r.metadata.id,
-                  title: r.metadata.title,
-                  category: r.metadata.category,
-                  language: r.metadata.language,
-                  tags: r.metadata.tags,
-                  filePath: r.filePath,
-                })),
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      }
+    return toolResult(describeRule(rule));
+  },
+
+  get_rule_section: async (sectionArgs) => {
+    const rule = analyzer.getRule(sectionArgs.ruleId);
+
+    if (!rule) {
+      throw ruleNotFound(sectionArgs.ruleId);
+    }
+
+    if (!sectionArgs.anchor) {
+      return toolResult(outlineRule(rule));
+    }
+
+    const section = analyzer.getRuleSection(rule.metadata.id, sectionArgs.anchor);
+    if (!section) {
+      throw sectionNotFound(rule, sectionArgs.anchor);
+    }
+
+    return toolResult(describeSection(rule, section));
+  },
+
+  recommend_bundle: async (bundleArgs) => {
+    const defaults = config.context;
+    const type = bundleArgs.type || defaults.type;
+    if (!type) {
+      throw new InvalidArgumentsError('recommend_bundle', [
+        { code: 'custom', path: ['type'], message: 'Required (no default context.type is configured)' },
+      ]);
+    }
+
+    // Arguments take precedence over the configured defaults
+    const context: ScenarioContext = {
+      type,
+      language: bundleArgs.language ?? defaults.language,
+      framework: bundleArgs.framework ?? defaults.framework,
+      scenario: bundleArgs.scenario ?? defaults.scenario,
+      environment: bundleArgs.environment ?? defaults.environment,
+      complexity: bundleArgs.complexity ?? defaults.complexity,
+      priorities: bundleArgs.priorities ?? defaults.priorities,
+      maxTokens: bundleArgs.maxTokens ?? defaults.maxTokens,
+      tokenEstimator: bundleArgs.tokenEstimator ?? defaults.tokenEstimator,
+      includePrerequisites: bundleArgs.includePrerequisites ?? defaults.includePrerequisites,
+    };
+
+    return toolResult(summarizeBundle(analyzer.recommendBundle(context)));
+  },
 
-      case 'get_rule': {
-        const getRuleArgs = args as unknown as GetRuleArgs;
-        const rules = analyzer.getAllRules();
-        const rule = rules.find((r) => r.metadata.id === getRuleArgs.ruleId);
+  detect_project_context: async (detectArgs) => {
+    const project = new ProjectDetector().detect(directoryArgument('detect_project_context', 'path', detectArgs.path));
+    const context: ScenarioContext = {
+      ...project.context,
+      ...(detectArgs.type && { type: detectArgs.type }),
+      priorities: detectArgs.priorities,
+      maxTokens: detectArgs.maxTokens,
+    };
+
+    return toolResult({
+      ...project,
+      context,
+      ...(detectArgs.recommend !== false && {
+        bundle: summarizeBundle(analyzer.recommendBundle(context)),
+      }),
+    });
+  },
 
+  export_bundle: async (exportArgs) => {
+    let bundle: RuleBundle;
+
+    if (exportArgs.ruleIds) {
+      const rules = exportArgs.ruleIds.map((ruleId) => {
+        const rule = analyzer.getRule(ruleId);
         if (!rule) {
-          throw new Error(`Rule not found: ${getRuleArgs.ruleId}`);
+          throw ruleNotFound(ruleId);
         }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  metadata: rule.metadata,
-                  content: rule.content,
-                  filePath: rule.filePath,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
+        return rule;
+      });
+      bundle = { name: 'Selected rules', description: 'Rules selected by ID', rules, scenarios: [] };
+    } else if (exportArgs.bundleId) {
+      const declared = analyzer.getBundle(exportArgs.bundleId);
+      if (!declared) {
+        throw bundleNotFound(exportArgs.bundleId);
       }
+      bundle = declared;
+    } else if (exportArgs.type || config.context.type) {
+      bundle = analyzer.recommendBundle({
+        ...config.context,
+        type: (exportArgs.type || config.context.type)!,
+        language: exportArgs.language ?? config.context.language,
+        framework: exportArgs.framework ?? config.context.framework,
+        priorities: exportArgs.priorities ?? config.context.priorities,
+      });
+    } else {
+      throw new InvalidArgumentsError('export_bundle', [
+        { code: 'custom', path: [], message: 'One of ruleIds, bundleId or type is required' },
+      ]);
+    }
 
-      case 'recommend_bundle': {
-        const bundleArgs = args as unknown as RecommendBundleArgs;
-        const context: ScenarioContext = {
-          type: bundleArgs.type,
-          language: bundleArgs.language,
-          framework: bundleArgs.framework,
-          priorities: bundleArgs.priorities,
-        };
-
-        const bundle = analyzer.recommendBundle(context);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  name: bundle.name,
-                  description: bundle.description,
-                  scenarios: bundle.scenarios,
-                  rules: bundle.rules.map((r) => ({
-                    id: r.metadata.id,
-                    title: r.metadata.title,
-                    category: r.metadata.category,
-                    filePath: r.filePath,
-                    priority: r.metadata.priority,
-                  })),
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      }
+    const formats = exportArgs.formats || config.export.formats;
+    if (formats.length === 0) {
+      throw new InvalidArgumentsError('export_bundle', [
+        { code: 'custom', path: ['formats'], message: 'Required (no default export.formats is configured)' },
+      ]);
+    }
 
-      case 'get_common_bundles': {
-        const bundles = analyzer.getCommonBundles();
-        const bundleList = Object.entries(bundles).map(([key, bundle]) => ({
-          id: key,
-          name: bundle.name,
-          description: bundle.description,
-          ruleCount: bundle.rules.length,
-          scenarios: bundle.scenarios,
-        }));
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(bundleList, null, 2),
-            },
-          ],
-        };
-      }
+    if (exportArgs.targetDir && !localFileAccess) {
+      throw new InvalidArgumentsError('export_bundle', [
+        {
+          code: 'custom',
+          path: ['targetDir'],
+          message: 'Writing files needs a bearer token over HTTP (--token); omit targetDir to get their content',
+        },
+      ]);
+    }
 
-      case 'search_rules': {
-        const searchArgs = args as SearchRulesArgs;
-        let rules = analyzer.getAllRules();
+    const files = formats.flatMap((format) => renderExport(bundle, format));
+    const results = exportArgs.targetDir
+      ? applyExport(files, exportArgs.targetDir, { dryRun: exportArgs.dryRun })
+      : null;
 
-        if (searchArgs?.category) {
-          rules = rules.filter((r) => r.metadata.category === searchArgs.category);
-        }
+    return toolResult(summarizeExport(files, results));
+  },
 
-        if (searchArgs?.language) {
-          rules = analyzer.searchByLanguage(searchArgs.language);
-        }
+  get_common_bundles: async () => {
+    const bundles = analyzer.getCommonBundles();
 
-        if (searchArgs?.tags) {
-          rules = analyzer.searchByTags(searchArgs.tags);
-        }
+    return toolResult({
+      bundles: Object.entries(bundles).map(([key, bundle]) => summarizeCommonBundle(key, bundle)),
+    });
+  },
 
-        if (searchArgs?.query) {
-          const query = searchArgs.query.toLowerCase();
-          rules = rules.filter(
-            (r) =>
-              r.metadata.title.toLowerCase().includes(query) ||
-              r.metadata.description?.toLowerCase().includes(query) ||
-              r.content.toLowerCase().includes(query)
-          );
-        }
+  get_bundle: async ({ bundleId }) => {
+    const bundle = analyzer.getBundle(bundleId);
+    const declaration = analyzer.getBundleDeclarations().find((b) => b.id === bundleId);
+    if (!bundle || !declaration) {
+      throw bundleNotFound(bundleId);
+    }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                rules.map((r) => ({
-                  id: r.metadata.id,
-                  title: r.metadata.title,
-                  description: r.metadata.description,
-                  category: r.metadata.category,
-                  tags: r.metadata.tags,
-                  filePath: r.filePath,
-                })),
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      }
+    return toolResult(describeDeclaredBundle(declaration, bundle));
+  },
+
+  get_rule_graph: async (graphArgs) => {
+    const view = analyzer.getRuleGraph(graphArgs.ruleId, { depth: graphArgs.depth, related: graphArgs.related });
+    if (!view) {
+      throw ruleNotFound(graphArgs.ruleId!);
+    }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    // DOT and Mermaid are text; structured content wraps them
+    const format = graphArgs.format || 'json';
+    const graph = renderGraph(view, format);
+    return format === 'json'
+      ? toolResult(JSON.parse(graph), graph)
+      : toolResult({ format, graph }, graph);
+  },
+
+  check_compliance: async (checkArgs) => {
+    const checker = new ComplianceChecker(analyzer);
+    const diagnostics =
+      checkArgs.diff !== undefined
+        ? checker.checkDiff(checkArgs.diff, { ruleIds: checkArgs.ruleIds })
+        : checker.checkDirectory(directoryArgument('check_compliance', 'path', checkArgs.path!), { ruleIds: checkArgs.ruleIds });
+
+    return toolResult({
+      violations: diagnostics.map(({ ruleId, filePath, line, column, severity, code, message }) => ({
+        ruleId,
+        file: filePath,
+        line,
+        column,
+        severity,
+        check: code,
+        message,
+      })),
+    });
+  },
+
+  get_rule_changes: async (changesArgs) => {
+    let report: RuleChangesReport;
+    try {
+      report = new RuleHistory(analyzer).getChanges(changesArgs.since);
+    } catch (error) {
+      if (error instanceof RevisionError) {
+        throw new InvalidArgumentsError('get_rule_changes', [{ code: 'custom', path: ['since'], message: error.message }]);
+      }
+      throw error;
+    }
+    if (!changesArgs.includeDiff) {
+      report.rules.forEach((change) => change.sections.forEach((section) => delete section.diff));
     }
+
+    return toolResult({ ...report });
+  },
+
+  search_rules: async (searchArgs) => {
+    const result = queryArguments('search_rules', toRuleQuery(searchArgs, searchArgs.query));
+
+    return toolResult({
+      rules: result.items.map(summarizeSearchResult),
+      total: result.total,
+      nextCursor: result.nextCursor,
+    });
+  },
+
+  reload_rules: async () => {
+    const changes = await reloadRules();
+
+    return toolResult({ ...changes, total: analyzer.getAllRules().length });
+  },
+};
+
+// Parse arguments with the tool's own input schema and hand them to its handler
+async function runTool<Name extends ToolName>(
+  tool: ToolDefinition<Name, ZodType<ToolArgs<Name>>>,
+  input: unknown
+): Promise<CallToolResult> {
+  const parsed = tool.input.safeParse(input);
+  if (!parsed.success) {
+    throw new InvalidArgumentsError(tool.name, parsed.error.issues);
+  }
+
+  if (!localFileAccess && LOCAL_FILE_TOOLS.includes(tool.name)) {
+    throw new McpError(ErrorCode.InvalidRequest, `${tool.name} reads local files and needs a bearer token over HTTP (--token)`);
+  }
+
+  return toolHandlers[tool.name](parsed.data);
+}
+
+// Handle tool calls
+async function callTool(request: CallToolRequest): Promise<CallToolResult> {
+  const { name } = request.params;
+  const tool = TOOLS.find((candidate) => candidate.name === name);
+  if (!tool) {
+    throw new NotFoundError('tool', name, closestMatches(name, TOOLS.map((candidate) => candidate.name)));
+  }
+
+  try {
+    return await runTool(tool, request.params.arguments ?? {});
   } catch (error) {
+    // Protocol errors keep their code; anything else failed while running the tool
+    if (error instanceof McpError) {
+      throw error;
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
     return {
       content: [
@@ -339,32 +576,88 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+const RESOURCES_PAGE_SIZE = 100;
+
+// Relative importance of rules for clients choosing what to read, 0 to 1
+const PRIORITY_ANNOTATIONS: Record<string, number> = {
+  critical: 1,
+  high: 0.75,
+  medium: 0.5,
+  low: 0.25,
+};
 
 // List resources (rule files as resources)
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  const rules = analyzer.getAllRules();
+async function listResources(request: ListResourcesRequest): Promise<ListResourcesResult> {
+  const cursor = request.params?.cursor;
+  let page: RuleQueryResult;
+  try {
+    page = analyzer.query({ limit: RESOURCES_PAGE_SIZE, cursor });
+  } catch (error) {
+    // Only the cursor comes from the client
+    if (error instanceof QueryError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message, { cursor });
+    }
+    throw error;
+  }
+  const { items, nextCursor } = page;
 
   return {
-    resources: rules.map((rule) => ({
-      uri: `rule:///${rule.metadata.id}`,
+    nextCursor,
+    resources: items.map(({ rule }) => ({
+      uri: formatRuleUri(rule.metadata.id),
       name: rule.metadata.title,
       description: rule.metadata.description,
       mimeType: 'text/markdown',
+      size: Buffer.byteLength(rule.content),
+      annotations: {
+        priority: PRIORITY_ANNOTATIONS[rule.metadata.priority || 'medium'],
+        ...(rule.metadata.lastUpdated && { lastModified: `${rule.metadata.lastUpdated}T00:00:00Z` }),
+      },
     })),
   };
-});
+}
+
+async function listResourceTemplates(): Promise<ListResourceTemplatesResult> {
+  return { resourceTemplates: RESOURCE_TEMPLATES };
+}
 
 // Read resource content
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+async function readResource(request: ReadResourceRequest): Promise<ReadResourceResult> {
   const uri = request.params.uri;
-  const ruleId = uri.replace('rule:///', '');
+  const resource = parseResourceUri(uri);
+  const json = (value: unknown): ReadResourceResult => ({
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
+  });
+
+  switch (resource.kind) {
+    case 'bundle': {
+      const bundle = analyzer.getBundle(resource.bundleId);
+      if (!bundle) {
+        throw bundleNotFound(resource.bundleId);
+      }
+      return json({ id: resource.bundleId, ...summarizeBundle(bundle) });
+    }
+    case 'category':
+      return json(analyzer.searchByCategory(resource.category).map(describeRuleResource));
+    case 'language':
+      return json(analyzer.searchByLanguage(resource.language).map(describeRuleResource));
+  }
 
-  const rules = analyzer.getAllRules();
-  const rule = rules.find((r) => r.metadata.id === ruleId);
+  const rule = analyzer.getRule(resource.ruleId);
 
   if (!rule) {
-    throw new Error(`Rule not found: ${ruleId}`);
+    throw ruleNotFound(resource.ruleId);
+  }
+
+  let text = rule.content;
+  if (resource.anchor) {
+    const section = analyzer.getRuleSection(rule.metadata.id, resource.anchor);
+    if (!section) {
+      throw sectionNotFound(rule, resource.anchor);
+    }
+    text = getSectionMarkdown(rule.content, section);
   }
 
   return {
@@ -372,16 +665,85 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       {
         uri,
         mimeType: 'text/markdown',
-        text: rule.content,
+        text,
       },
     ],
   };
-});
+}
+
+function describeRuleResource(rule: Rule) {
+  return {
+    uri: formatRuleUri(rule.metadata.id),
+    id: rule.metadata.id,
+    title: rule.metadata.title,
+    description: rule.metadata.description,
+    priority: rule.metadata.priority,
+    tags: rule.metadata.tags,
+  };
+}
+
+// Servers may return at most 100 completion values
+const MAX_COMPLETIONS = 100;
+
+// Complete resource template and prompt arguments by prefix
+async function complete(request: CompleteRequest): Promise<CompleteResult> {
+  const { ref, argument, context } = request.params;
+  const candidates =
+    ref.type === 'ref/resource'
+      ? completeTemplateArgument(ref.uri, argument.name, context?.arguments || {})
+      : completePromptArgument(analyzer, ref.name, argument.name);
+
+  const prefix = argument.value.toLowerCase();
+  const values = [...new Set(candidates)].filter((value) => value.toLowerCase().startsWith(prefix)).sort();
+  return {
+    completion: {
+      values: values.slice(0, MAX_COMPLETIONS),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETIONS,
+    },
+  };
+}
+
+function completeTemplateArgument(uriTemplate: string, name: string, known: Record<string, string>): string[] {
+  const rules = analyzer.getAllRules();
 
-// Start server
+  switch (`${uriTemplate} ${name}`) {
+    case 'rule:///{id} id':
+    case 'rule:///{id}/section/{anchor} id':
+      return rules.flatMap((rule) => [rule.metadata.id, ...(rule.metadata.aliases || [])]);
+    case 'rule:///{id}/section/{anchor} anchor': {
+      const rule = known.id ? analyzer.getRule(known.id) : undefined;
+      return rule
+        ? flattenSections(rule.sections).filter(({ section }) => section.level > 0).map(({ section }) => section.anchor)
+        : [];
+    }
+    case 'bundle:///{bundleId} bundleId':
+      return analyzer.getBundleDeclarations().map((bundle) => bundle.id);
+    case 'category:///{category} category':
+      return rules.map((rule) => rule.metadata.category);
+    case 'rules://language/{lang} lang':
+      return rules.flatMap((rule) => [rule.metadata.language].flat().map((language) => language.toLowerCase()));
+    default:
+      return [];
+  }
+}
+
+// Start server on stdio, or over HTTP with --http
 async function main() {
+  const httpOptions = parseHttpOptions(process.argv.slice(2));
+  if (httpOptions) {
+    localFileAccess = Boolean(httpOptions.token);
+    await startHttpServer(createServer, httpOptions, () => ({ rules: analyzer.getAllRules().length }));
+    const auth = httpOptions.token ? ' (bearer token required)' : '';
+    console.error(`Rules.d MCP server listening on http://${httpOptions.host}:${httpOptions.port}/mcp${auth}`);
+    if (!localFileAccess) {
+      console.error(`Without --token, ${LOCAL_FILE_TOOLS.join(' and ')} are disabled and export_bundle cannot write files`);
+    }
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error('Rules.d MCP server running on stdio');
 }
 
@@ -0,0 +1,147 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z, ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  CheckComplianceArgsSchema,
+  CheckComplianceResultSchema,
+  DetectProjectContextArgsSchema,
+  DetectProjectContextResultSchema,
+  ExportBundleArgsSchema,
+  ExportBundleResultSchema,
+  GetBundleArgsSchema,
+  GetBundleResultSchema,
+  GetCommonBundlesArgsSchema,
+  GetCommonBundlesResultSchema,
+  GetRuleArgsSchema,
+  GetRuleChangesArgsSchema,
+  GetRuleChangesResultSchema,
+  GetRuleGraphArgsSchema,
+  GetRuleGraphResultSchema,
+  GetRuleResultSchema,
+  GetRuleSectionArgsSchema,
+  GetRuleSectionResultSchema,
+  ListRulesArgsSchema,
+  ListRulesResultSchema,
+  RecommendBundleArgsSchema,
+  RecommendBundleResultSchema,
+  ReloadRulesArgsSchema,
+  ReloadRulesResultSchema,
+  SearchRulesArgsSchema,
+  SearchRulesResultSchema,
+} from './types.js';
+
+export interface ToolDefinition<Name extends string = string, Input extends ZodTypeAny = ZodTypeAny> {
+  name: Name;
+  description: string;
+  input: Input;
+  output: ZodTypeAny;
+}
+
+// Keeps the literal name and input schema of a tool, so handlers are typed
+function defineTool<Name extends string, Input extends ZodTypeAny>(tool: ToolDefinition<Name, Input>) {
+  return tool;
+}
+
+export const TOOLS = [
+  defineTool({
+    name: 'list_rules',
+    description: 'List rule files with their metadata; filters narrow the list together, and results are sorted and paged with a cursor',
+    input: ListRulesArgsSchema,
+    output: ListRulesResultSchema,
+  }),
+  defineTool({
+    name: 'get_rule',
+    description: 'Get the full content of a specific rule file',
+    input: GetRuleArgsSchema,
+    output: GetRuleResultSchema,
+  }),
+  defineTool({
+    name: 'get_rule_section',
+    description: 'Get one section of a rule (with its subsections) by anchor, or the rule outline when no anchor is given',
+    input: GetRuleSectionArgsSchema,
+    output: GetRuleSectionResultSchema,
+  }),
+  defineTool({
+    name: 'recommend_bundle',
+    description: 'Get a recommended bundle of rules for a specific scenario, ranked by relevance with the reasons for each rule',
+    input: RecommendBundleArgsSchema,
+    output: RecommendBundleResultSchema,
+  }),
+  defineTool({
+    name: 'detect_project_context',
+    description: 'Detect languages, frameworks and environments of a local project directory and recommend a bundle for it',
+    input: DetectProjectContextArgsSchema,
+    output: DetectProjectContextResultSchema,
+  }),
+  defineTool({
+    name: 'get_common_bundles',
+    description: 'List the bundles declared in bundle files and the project .rulesrc',
+    input: GetCommonBundlesArgsSchema,
+    output: GetCommonBundlesResultSchema,
+  }),
+  defineTool({
+    name: 'get_bundle',
+    description: 'Resolve a declared bundle into its ordered rules, following extends',
+    input: GetBundleArgsSchema,
+    output: GetBundleResultSchema,
+  }),
+  defineTool({
+    name: 'get_rule_graph',
+    description: 'Get the prerequisites (in reading order), dependents and related rules of a rule, with prerequisite cycles and unresolved references, as JSON, Graphviz DOT or Mermaid',
+    input: GetRuleGraphArgsSchema,
+    output: GetRuleGraphResultSchema,
+  }),
+  defineTool({
+    name: 'check_compliance',
+    description: 'Check a project directory, or the lines added by a unified diff, against the machine-checkable checks declared by rules; reports each violation with rule id, file, line and severity',
+    input: CheckComplianceArgsSchema,
+    output: CheckComplianceResultSchema,
+  }),
+  defineTool({
+    name: 'get_rule_changes',
+    description: 'List the rules changed since a date or git commit, from the git history of the rule sources, with the sections and metadata that changed and whether the version was bumped; use it to refresh only updated guidance',
+    input: GetRuleChangesArgsSchema,
+    output: GetRuleChangesResultSchema,
+  }),
+  defineTool({
+    name: 'export_bundle',
+    description: 'Render a bundle into agent rule files (Cursor .mdc, .cursorrules, CLAUDE.md, AGENTS.md, Copilot instructions, .windsurfrules, .clinerules), optionally writing them to a directory',
+    input: ExportBundleArgsSchema,
+    output: ExportBundleResultSchema,
+  }),
+  defineTool({
+    name: 'search_rules',
+    description: 'Search rules by the same filters as list_rules; text queries return hits ranked by relevance with the matching section and a snippet',
+    input: SearchRulesArgsSchema,
+    output: SearchRulesResultSchema,
+  }),
+  defineTool({
+    name: 'reload_rules',
+    description: 'Re-read rule files from disk and report which rules were added, removed or changed',
+    input: ReloadRulesArgsSchema,
+    output: ReloadRulesResultSchema,
+  }),
+];
+
+export type ToolName = (typeof TOOLS)[number]['name'];
+
+// Arguments of a tool as its input schema parses them
+export type ToolArgs<Name extends ToolName> = z.infer<Extract<(typeof TOOLS)[number], { name: Name }>['input']>;
+
+/**
+ * The tool as tools/list advertises it, with JSON schemas generated from
+ * its zod schemas
+ */
+export function describeTool(tool: ToolDefinition): Tool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toJsonSchema(tool.input),
+    outputSchema: toJsonSchema(tool.output),
+  };
+}
+
+function toJsonSchema(schema: ZodTypeAny): Tool['inputSchema'] {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' });
+  return { ...jsonSchema, type: 'object' };
+}
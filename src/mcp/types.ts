@@ -1,25 +1,357 @@
-// Type definitions for MCP tool arguments
+// Schemas of MCP tool arguments and results. The argument types are inferred
+// from them, and the input and output schemas that tools/list advertises are
+// generated from them.
+import { z } from 'zod';
+import { EXPORT_FORMATS } from '../exporter/bundle-exporter.js';
+import { GRAPH_FORMATS } from '../graph/graph-renderer.js';
+import { RULE_SORT_KEYS } from '../analyzer/rule-query.js';
+import { ExportFormat } from '../types/export.js';
+import { GraphFormat } from '../types/graph.js';
+import { RuleSortKey } from '../types/query.js';
+import { ScenarioContextSchema } from '../bundles/bundle-schema.js';
 
-export interface ListRulesArgs {
-  category?: string;
-  language?: string;
-  tags?: string[];
-}
+// Scenario fields are shared with bundle contexts in .rulesrc and bundle files
+const scenario = ScenarioContextSchema.shape;
+const TaskType = scenario.type.unwrap();
+const Priority = scenario.priorities.unwrap().element;
+const PositiveInteger = z.number().int().positive();
 
-export interface GetRuleArgs {
-  ruleId: string;
+// A filter value, or several of which a rule matches any
+function oneOrMany<T extends z.ZodTypeAny>(value: T) {
+  return z.union([value, z.array(value)]);
 }
 
-export interface RecommendBundleArgs {
-  type: 'coding' | 'writing' | 'research' | 'communication' | 'data' | 'devops' | 'security' | 'project-management' | 'general';
-  language?: string;
-  framework?: string;
-  priorities?: Array<'performance' | 'security' | 'maintainability' | 'accessibility'>;
-}
+// Filter, sort and paging arguments shared by list_rules and search_rules
+const ruleQueryShape = {
+  category: oneOrMany(z.string())
+    .optional()
+    .describe('Filter by one or more categories (general, coding, writing, etc.)'),
+  subcategory: z.string().optional().describe('Filter by subcategory'),
+  language: oneOrMany(z.string())
+    .optional()
+    .describe('Filter by one or more programming languages; universal rules match any language'),
+  tags: z.array(z.string()).optional().describe('Rules with any of these tags'),
+  allTags: z.array(z.string()).optional().describe('Rules with all of these tags'),
+  excludeTags: z.array(z.string()).optional().describe('Rules with none of these tags'),
+  priority: oneOrMany(z.enum(['critical', 'high', 'medium', 'low']))
+    .optional()
+    .describe('Filter by one or more priorities; rules without one are medium'),
+  difficulty: oneOrMany(z.enum(['beginner', 'intermediate', 'advanced', 'expert']))
+    .optional()
+    .describe('Filter by one or more difficulties'),
+  framework: oneOrMany(z.string()).optional().describe('Rules that apply to any of these frameworks'),
+  author: z.string().optional().describe('Filter by author'),
+  updatedSince: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+    .optional()
+    .describe('Rules whose lastUpdated is on or after this date (YYYY-MM-DD)'),
+  sort: z
+    .enum(RULE_SORT_KEYS as [RuleSortKey, ...RuleSortKey[]])
+    .optional()
+    .describe('Sort key; defaults to relevance for text queries and id otherwise'),
+  order: z
+    .enum(['asc', 'desc'])
+    .optional()
+    .describe('Sort order; defaults to desc for relevance and updated, asc otherwise'),
+  limit: PositiveInteger.optional().describe('Maximum number of rules per page'),
+  cursor: z.string().optional().describe('nextCursor of the previous page'),
+};
 
-export interface SearchRulesArgs {
-  query?: string;
-  category?: string;
-  language?: string;
-  tags?: string[];
-}
+export const RuleQueryArgsSchema = z.object(ruleQueryShape).strict();
+
+export const ListRulesArgsSchema = RuleQueryArgsSchema;
+
+export const GetRuleArgsSchema = z
+  .object({
+    ruleId: z.string().min(1).describe('The ID of the rule to retrieve'),
+  })
+  .strict();
+
+export const GetRuleSectionArgsSchema = z
+  .object({
+    ruleId: z.string().min(1).describe('The ID of the rule'),
+    anchor: z
+      .string()
+      .optional()
+      .describe('Section anchor (e.g. "error-handling") or heading text; omit to list sections'),
+  })
+  .strict();
+
+export const RecommendBundleArgsSchema = z
+  .object({
+    type: TaskType.optional().describe('Type of task; defaults to context.type in the project .rulesrc'),
+    language: z.string().optional().describe('Programming language (for coding tasks)'),
+    framework: z.string().optional().describe('Framework being used'),
+    scenario: z
+      .string()
+      .optional()
+      .describe('Scenario name matched against rule applicability (e.g. "api-development")'),
+    environment: scenario.environment.describe('Target environment'),
+    complexity: scenario.complexity.describe('Task complexity, matched against rule difficulty'),
+    priorities: z.array(Priority).optional().describe('Priority areas to focus on'),
+    maxTokens: PositiveInteger.optional().describe(
+      'Token budget; when set, the highest-value sections are packed into it and returned as content'
+    ),
+    tokenEstimator: scenario.tokenEstimator.describe('How to approximate tokens: ~4 characters per token (default) or ~0.75 words per token'),
+    includePrerequisites: z
+      .boolean()
+      .optional()
+      .describe('Add the transitive prerequisites of recommended rules, ordered before the rules that need them'),
+  })
+  .strict();
+
+export const DetectProjectContextArgsSchema = z
+  .object({
+    path: z.string().min(1).describe('Absolute path of the project directory to scan'),
+    type: TaskType.optional().describe('Override the detected task type'),
+    priorities: z.array(Priority).optional().describe('Priority areas to focus on'),
+    maxTokens: PositiveInteger.optional().describe('Token budget for the recommended bundle'),
+    recommend: z
+      .boolean()
+      .optional()
+      .describe('Include a recommended bundle for the detected context (default true)'),
+  })
+  .strict();
+
+export const GetCommonBundlesArgsSchema = z.object({}).strict();
+
+export const GetBundleArgsSchema = z
+  .object({
+    bundleId: z.string().min(1).describe('ID of the bundle (see get_common_bundles)'),
+  })
+  .strict();
+
+export const GetRuleGraphArgsSchema = z
+  .object({
+    ruleId: z.string().min(1).optional().describe('Rule to expand from; omit for the graph of all rules'),
+    format: z
+      .enum(GRAPH_FORMATS as [GraphFormat, ...GraphFormat[]])
+      .optional()
+      .describe('Output format (default json)'),
+    depth: z.number().int().nonnegative().optional().describe('Maximum hops from the rule (default unlimited)'),
+    related: z
+      .boolean()
+      .optional()
+      .describe('Follow related references as well as prerequisites (default true)'),
+  })
+  .strict();
+
+export const CheckComplianceArgsSchema = z
+  .object({
+    path: z.string().min(1).optional().describe('Project directory to check'),
+    diff: z.string().optional().describe('Unified diff whose added lines are checked, instead of a directory'),
+    ruleIds: z.array(z.string()).optional().describe('Only run the checks of these rules'),
+  })
+  .strict()
+  .refine((args) => (args.path === undefined) !== (args.diff === undefined), {
+    message: 'Exactly one of path or diff is required',
+    path: ['path'],
+  });
+
+export const GetRuleChangesArgsSchema = z
+  .object({
+    since: z.string().min(1).describe('Date (YYYY-MM-DD or ISO 8601) or git revision to compare against'),
+    includeDiff: z
+      .boolean()
+      .optional()
+      .describe('Include a unified diff of each modified section (default: false)'),
+  })
+  .strict();
+
+export const ExportBundleArgsSchema = z
+  .object({
+    formats: z
+      .array(z.enum(EXPORT_FORMATS as [ExportFormat, ...ExportFormat[]]))
+      .min(1)
+      .optional()
+      .describe('Target formats; defaults to export.formats in the project .rulesrc'),
+    bundleId: z.string().min(1).optional().describe('ID of a common bundle to export'),
+    ruleIds: z.array(z.string()).optional().describe('Export exactly these rules instead of a bundle'),
+    type: TaskType.optional().describe('Task type for a recommended bundle'),
+    language: z.string().optional().describe('Programming language for a recommended bundle'),
+    framework: z.string().optional().describe('Framework for a recommended bundle'),
+    priorities: z.array(Priority).optional().describe('Priority areas for a recommended bundle'),
+    targetDir: z.string().min(1).optional().describe('Directory to write files into; omit to return the rendered files'),
+    dryRun: z.boolean().optional().describe('With targetDir, return a diff of what would change without writing'),
+  })
+  .strict();
+
+export const SearchRulesArgsSchema = z
+  .object({
+    query: z
+      .string()
+      .optional()
+      .describe('Search query. Terms are ANDed; supports "quoted phrases", OR, NOT/-term and parentheses'),
+    ...ruleQueryShape,
+  })
+  .strict();
+
+export const ReloadRulesArgsSchema = z.object({}).strict();
+
+export type RuleQueryArgs = z.infer<typeof RuleQueryArgsSchema>;
+export type ListRulesArgs = z.infer<typeof ListRulesArgsSchema>;
+export type GetRuleArgs = z.infer<typeof GetRuleArgsSchema>;
+export type GetRuleSectionArgs = z.infer<typeof GetRuleSectionArgsSchema>;
+export type RecommendBundleArgs = z.infer<typeof RecommendBundleArgsSchema>;
+export type DetectProjectContextArgs = z.infer<typeof DetectProjectContextArgsSchema>;
+export type GetBundleArgs = z.infer<typeof GetBundleArgsSchema>;
+export type GetRuleGraphArgs = z.infer<typeof GetRuleGraphArgsSchema>;
+export type CheckComplianceArgs = z.infer<typeof CheckComplianceArgsSchema>;
+export type GetRuleChangesArgs = z.infer<typeof GetRuleChangesArgsSchema>;
+export type ExportBundleArgs = z.infer<typeof ExportBundleArgsSchema>;
+export type SearchRulesArgs = z.infer<typeof SearchRulesArgsSchema>;
+
+// Results; nested objects only name the fields clients can rely on
+
+const RuleSummary = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    category: z.string(),
+    filePath: z.string(),
+  })
+  .passthrough();
+
+const BundleSummary = z
+  .object({
+    name: z.string(),
+    description: z.string().optional(),
+    scenarios: z.array(z.string()),
+    rules: z.array(RuleSummary),
+    budget: z
+      .object({ maxTokens: z.number(), usedTokens: z.number(), tokenEstimator: z.string() })
+      .passthrough()
+      .optional(),
+    omitted: z.array(z.object({ id: z.string() }).passthrough()).optional(),
+  })
+  .passthrough();
+
+const RuleList = z.object({
+  rules: z.array(RuleSummary),
+  // Matches across all pages
+  total: z.number(),
+  nextCursor: z.string().optional(),
+});
+
+export const ListRulesResultSchema = RuleList;
+
+export const GetRuleResultSchema = z.object({
+  metadata: z.object({ id: z.string(), title: z.string() }).passthrough(),
+  content: z.string(),
+  filePath: z.string(),
+  source: z.string(),
+  overrides: z.array(z.string()).optional(),
+  extendedBy: z.array(z.string()).optional(),
+});
+
+// The outline of a rule without an anchor, otherwise the section
+export const GetRuleSectionResultSchema = z
+  .object({
+    ruleId: z.string(),
+    title: z.string().optional(),
+    sections: z.array(z.unknown()).optional(),
+    heading: z.string().optional(),
+    anchor: z.string().optional(),
+    level: z.number().optional(),
+    content: z.string().optional(),
+    codeBlocks: z.array(z.unknown()).optional(),
+    subsections: z.array(z.unknown()).optional(),
+  })
+  .passthrough();
+
+export const RecommendBundleResultSchema = BundleSummary;
+
+export const DetectProjectContextResultSchema = z
+  .object({
+    context: z.object({}).passthrough(),
+    environments: z
+      .array(z.string())
+      .describe('Deployment and CI tooling found (docker, github-actions, kubernetes); informational, not used to rank rules'),
+    bundle: BundleSummary.optional(),
+  })
+  .passthrough();
+
+export const GetCommonBundlesResultSchema = z.object({
+  bundles: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string().optional(),
+      ruleCount: z.number(),
+      scenarios: z.array(z.string()),
+    })
+  ),
+});
+
+export const GetBundleResultSchema = BundleSummary.extend({
+  id: z.string(),
+  origin: z.string(),
+  extends: z.string().optional(),
+});
+
+// The graph view for the json format, otherwise the rendered graph
+export const GetRuleGraphResultSchema = z
+  .object({
+    format: z.string().optional(),
+    graph: z.string().optional(),
+  })
+  .passthrough();
+
+export const CheckComplianceResultSchema = z.object({
+  violations: z.array(
+    z.object({
+      ruleId: z.string(),
+      file: z.string(),
+      line: z.number(),
+      column: z.number(),
+      severity: z.enum(['error', 'warning', 'info']),
+      check: z.string(),
+      message: z.string(),
+    })
+  ),
+});
+
+export const GetRuleChangesResultSchema = z
+  .object({
+    since: z.string(),
+    base: z.record(z.string()),
+    rules: z.array(
+      z
+        .object({
+          ruleId: z.string(),
+          status: z.enum(['added', 'modified']),
+          versionBumped: z.boolean(),
+          sections: z.array(z.object({ type: z.string(), headingPath: z.array(z.string()) }).passthrough()),
+        })
+        .passthrough()
+    ),
+    removed: z.array(z.object({ source: z.string(), filePath: z.string() })),
+    skippedSources: z.array(z.string()),
+  })
+  .passthrough();
+
+export const ExportBundleResultSchema = z.object({
+  files: z.array(
+    z
+      .object({
+        format: z.string(),
+        path: z.string(),
+        warnings: z.array(z.string()),
+        status: z.string().optional(),
+        written: z.boolean().optional(),
+        diff: z.string().optional(),
+        content: z.string().optional(),
+      })
+      .passthrough()
+  ),
+});
+
+export const SearchRulesResultSchema = RuleList;
+
+export const ReloadRulesResultSchema = z.object({
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  changed: z.array(z.string()),
+  total: z.number(),
+});
@@ -0,0 +1,179 @@
+import { isStopWord, tokenize } from './tokenizer.js';
+
+export type QueryNode =
+  | { type: 'term'; term: string }
+  | { type: 'phrase'; terms: string[] }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+type Token =
+  | { kind: 'word'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+/**
+ * Parse a search query.
+ *
+ * Terms are combined with AND by default. Supports "quoted phrases",
+ * explicit AND / OR / NOT (uppercase), a leading "-" for negation and
+ * parentheses for grouping. Malformed input is parsed leniently rather than
+ * rejected. Returns null when the query has no searchable terms.
+ */
+export function parseQuery(query: string): QueryNode | null {
+  const tokens = lex(query);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    let node = parseAnd();
+    if (node) {
+      children.push(node);
+    }
+    while (peek()?.kind === 'or') {
+      position++;
+      node = parseAnd();
+      if (node) {
+        children.push(node);
+      }
+    }
+    return combine('or', children);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    for (let token = peek(); token && token.kind !== 'or' && token.kind !== 'close'; token = peek()) {
+      if (token.kind === 'and') {
+        position++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) {
+        children.push(node);
+      }
+    }
+    return combine('and', children);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++];
+
+    switch (token.kind) {
+      case 'not': {
+        const child = peek() ? parseUnary() : null;
+        return child ? { type: 'not', child } : null;
+      }
+      case 'open': {
+        const node = parseOr();
+        if (peek()?.kind === 'close') {
+          position++;
+        }
+        return node;
+      }
+      case 'phrase':
+        return textNode(token.value, true);
+      case 'word':
+        return textNode(token.value, false);
+      default:
+        return null;
+    }
+  };
+
+  // Stray closing parentheses end parseOr early; skip them and keep going
+  const roots: QueryNode[] = [];
+  while (position < tokens.length) {
+    const node = parseOr();
+    if (node) {
+      roots.push(node);
+    }
+    if (peek()?.kind === 'close') {
+      position++;
+    }
+  }
+
+  return combine('and', roots);
+}
+
+/**
+ * Terms that contribute to a match (everything outside NOT clauses)
+ */
+export function collectTerms(node: QueryNode | null): string[] {
+  if (!node) {
+    return [];
+  }
+
+  switch (node.type) {
+    case 'term':
+      return [node.term];
+    case 'phrase':
+      return node.terms;
+    case 'not':
+      return [];
+    default:
+      return [...new Set(node.children.flatMap(collectTerms))];
+  }
+}
+
+function textNode(text: string, quoted: boolean): QueryNode | null {
+  const terms = tokenize(text);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  if (terms.length === 1) {
+    return quoted || !isStopWord(terms[0]) ? { type: 'term', term: terms[0] } : null;
+  }
+
+  // Quoted text and hyphenated words such as "error-handling" are phrases
+  return { type: 'phrase', terms };
+}
+
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) {
+    return null;
+  }
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'open' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'close' });
+      i++;
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      const stop = end === -1 ? query.length : end;
+      tokens.push({ kind: 'phrase', value: query.slice(i + 1, stop) });
+      i = stop + 1;
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s()"]/.test(query[end])) {
+        end++;
+      }
+      const word = query.slice(i, end);
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ kind: 'word', value: word });
+      }
+      i = end;
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,253 @@
+import { Rule } from '../types/rule.js';
+import { SearchHit, SearchOptions } from '../types/search.js';
+import { flattenSections } from '../utils/markdown.js';
+import { collectTerms, parseQuery, QueryNode } from './query-parser.js';
+import { normalizeTerm, tokenize } from './tokenizer.js';
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Field boosts applied to term frequencies
+const TITLE_BOOST = 3;
+const TAG_BOOST = 2.5;
+const HEADING_BOOST = 2;
+
+// Bonus when all query terms appear next to each other, in order
+const PROXIMITY_BOOST = 1.5;
+
+const SNIPPET_LENGTH = 200;
+
+interface IndexedSection {
+  ruleId: string;
+  headingPath: string[];
+  anchor: string;
+  body: string;
+  title: string[];
+  tags: string[];
+  heading: string[];
+  text: string[];
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// An indexed section as a cache stores it, in plain JSON
+export type CachedSection = Omit<IndexedSection, 'termFrequencies'> & {
+  termFrequencies: [string, number][];
+};
+
+/**
+ * Indexed sections of rules indexed before, so an unchanged rule is not
+ * tokenized again
+ */
+export interface SearchIndexCache {
+  get(rule: Rule): CachedSection[] | undefined;
+  set(rule: Rule, sections: CachedSection[]): void;
+}
+
+/**
+ * BM25 full-text index over rule sections. Each markdown section is indexed
+ * as its own document, with the rule title, tags and heading path boosted.
+ */
+export class SearchIndex {
+  private sections: IndexedSection[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(rules: Rule[], cache?: SearchIndexCache) {
+    for (const rule of rules) {
+      const cached = cache?.get(rule);
+      const sections = cached
+        ? cached.map((section) => ({ ...section, termFrequencies: new Map(section.termFrequencies) }))
+        : this.indexRule(rule);
+      if (!cached && cache) {
+        cache.set(rule, sections.map((section) => ({ ...section, termFrequencies: [...section.termFrequencies] })));
+      }
+
+      for (const section of sections) {
+        for (const term of section.termFrequencies.keys()) {
+          this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+        }
+        this.sections.push(section);
+      }
+    }
+
+    const totalLength = this.sections.reduce((sum, section) => sum + section.length, 0);
+    this.averageLength = this.sections.length > 0 ? totalLength / this.sections.length : 0;
+  }
+
+  /**
+   * Search the index, returning the best-matching section of each rule
+   * ordered by descending score
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const root = parseQuery(query);
+    if (!root) {
+      return [];
+    }
+
+    const terms = collectTerms(root);
+    const allowed = options.ruleIds ? new Set(options.ruleIds) : null;
+    const best = new Map<string, { section: IndexedSection; score: number }>();
+
+    for (const section of this.sections) {
+      if (allowed && !allowed.has(section.ruleId)) {
+        continue;
+      }
+      if (!this.matches(root, section)) {
+        continue;
+      }
+
+      const score = this.score(terms, section);
+      const current = best.get(section.ruleId);
+      if (!current || score > current.score) {
+        best.set(section.ruleId, { section, score });
+      }
+    }
+
+    const hits = [...best.values()]
+      .sort((a, b) => b.score - a.score)
+      .map(({ section, score }) => ({
+        ruleId: section.ruleId,
+        score: Math.round(score * 1000) / 1000,
+        headingPath: section.headingPath,
+        anchor: section.anchor,
+        snippet: this.snippet(section, terms),
+      }));
+
+    return options.limit !== undefined ? hits.slice(0, options.limit) : hits;
+  }
+
+  private indexRule(rule: Rule): IndexedSection[] {
+    const title = tokenize(rule.metadata.title);
+    const tags = rule.metadata.tags.flatMap((tag) => tokenize(tag));
+    const sections: IndexedSection[] = [];
+
+    for (const { section, headingPath } of flattenSections(rule.sections)) {
+      // Headings with no text of their own are covered by their
+      // subsections, which carry the full heading path
+      if (section.body.length === 0) {
+        continue;
+      }
+
+      const heading = tokenize(headingPath.join(' '));
+      const text = tokenize(section.body);
+      const termFrequencies = new Map<string, number>();
+
+      const add = (tokens: string[], weight: number) => {
+        for (const token of tokens) {
+          termFrequencies.set(token, (termFrequencies.get(token) || 0) + weight);
+        }
+      };
+      add(text, 1);
+      add(heading, HEADING_BOOST);
+      add(title, TITLE_BOOST);
+      add(tags, TAG_BOOST);
+
+      sections.push({
+        ruleId: rule.metadata.id,
+        headingPath,
+        anchor: section.anchor,
+        body: section.body,
+        title,
+        tags,
+        heading,
+        text,
+        termFrequencies,
+        length: text.length + heading.length,
+      });
+    }
+
+    return sections;
+  }
+
+  private matches(node: QueryNode, section: IndexedSection): boolean {
+    switch (node.type) {
+      case 'term':
+        return section.termFrequencies.has(node.term);
+      case 'phrase':
+        return [section.text, section.heading, section.title].some((tokens) =>
+          containsSequence(tokens, node.terms)
+        );
+      case 'and':
+        return node.children.every((child) => this.matches(child, section));
+      case 'or':
+        return node.children.some((child) => this.matches(child, section));
+      case 'not':
+        return !this.matches(node.child, section);
+    }
+  }
+
+  private score(terms: string[], section: IndexedSection): number {
+    const total = this.sections.length;
+    const lengthNorm = 1 - B + B * (section.length / (this.averageLength || 1));
+    let score = 0;
+
+    for (const term of terms) {
+      const frequency = section.termFrequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const documents = this.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+      score += idf * ((frequency * (K1 + 1)) / (frequency + K1 * lengthNorm));
+    }
+
+    if (
+      terms.length > 1 &&
+      (containsSequence(section.text, terms) || containsSequence(section.heading, terms))
+    ) {
+      score *= PROXIMITY_BOOST;
+    }
+
+    return score;
+  }
+
+  /**
+   * Excerpt of the section body around the first matching term, with
+   * matching words wrapped in ** for highlighting
+   */
+  private snippet(section: IndexedSection, terms: string[]): string {
+    const body = section.body.replace(/\s+/g, ' ').trim();
+    const termSet = new Set(terms);
+    const wordPattern = /[A-Za-z0-9]+[#+]*/g;
+
+    let start = 0;
+    for (let match = wordPattern.exec(body); match; match = wordPattern.exec(body)) {
+      if (termSet.has(normalizeTerm(match[0]))) {
+        start = Math.max(0, match.index - Math.floor(SNIPPET_LENGTH / 4));
+        break;
+      }
+    }
+
+    // Align the window to word boundaries
+    if (start > 0) {
+      const space = body.indexOf(' ', start);
+      start = space === -1 ? start : space + 1;
+    }
+    let end = Math.min(body.length, start + SNIPPET_LENGTH);
+    if (end < body.length) {
+      const space = body.lastIndexOf(' ', end);
+      end = space > start ? space : end;
+    }
+
+    const excerpt = body
+      .slice(start, end)
+      .replace(wordPattern, (word) => (termSet.has(normalizeTerm(word)) ? `**${word}**` : word));
+
+    return `${start > 0 ? '…' : ''}${excerpt}${end < body.length ? '…' : ''}`;
+  }
+}
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  if (sequence.length === 0 || sequence.length > tokens.length) {
+    return false;
+  }
+
+  for (let i = 0; i <= tokens.length - sequence.length; i++) {
+    if (sequence.every((term, offset) => tokens[i + offset] === term)) {
+      return true;
+    }
+  }
+  return false;
+}
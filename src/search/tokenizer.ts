@@ -0,0 +1,30 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with',
+]);
+
+const TOKEN_PATTERN = /[a-z0-9]+[#+]*/g;
+
+/**
+ * Normalize a single word: lowercase and strip a plural "s" so that
+ * "tests" matches "test" (but "process" stays intact)
+ */
+export function normalizeTerm(word: string): string {
+  const lower = word.toLowerCase();
+  if (lower.length > 3 && lower.endsWith('s') && !lower.endsWith('ss')) {
+    return lower.slice(0, -1);
+  }
+  return lower;
+}
+
+/**
+ * Split text into normalized terms, keeping stop words so that
+ * positions stay usable for phrase matching
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) || []).map(normalizeTerm);
+}
+
+export function isStopWord(term: string): boolean {
+  return STOP_WORDS.has(term);
+}
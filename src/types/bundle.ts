@@ -0,0 +1,40 @@
+import { ScenarioContext } from './rule.js';
+
+// Shape of a bundle file in a `bundles/` directory, or of a bundle in .rulesrc
+export interface BundleDefinition {
+  name?: string;
+  description?: string;
+  // Id of a bundle whose definition this one starts from
+  extends?: string;
+  // Scenario whose recommended rules seed the bundle; needs a type once
+  // merged with the bundles it extends
+  context?: Partial<ScenarioContext>;
+  // Rules matching every given criterion are added
+  query?: {
+    categories?: string[];
+    languages?: string[];
+    tags?: string[];
+  };
+  // Rule ids added explicitly
+  include?: string[];
+  exclude?: {
+    rules?: string[];
+    tags?: string[];
+  };
+  // Rule ids listed first, in this order; the rest keep their ranking
+  order?: string[];
+}
+
+export interface DeclaredBundle {
+  id: string;
+  definition: BundleDefinition;
+  // Bundle file or config file that declared the bundle
+  origin: string;
+}
+
+export interface BundleIssue {
+  bundleId: string;
+  origin: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
@@ -0,0 +1,26 @@
+import { Rule } from './rule.js';
+import { RuleLayerDirectives } from './source.js';
+
+// A rule file as parsed by the loader, before sources are layered
+export interface ParsedRuleFile {
+  rule: Rule;
+  // Keys declared in frontmatter, as opposed to inferred ones
+  declared: string[];
+  directives: RuleLayerDirectives;
+}
+
+export interface ParseCacheStats {
+  // Cache file, and whether it has been written yet
+  filePath: string;
+  exists: boolean;
+  // Size of the cache file in bytes
+  size: number;
+  // Cached rule files by source name
+  files: Record<string, number>;
+  // Cached rule files that also hold their search index sections
+  indexed: number;
+  updatedAt?: string;
+  // Rule files reused and re-parsed by this process
+  hits: number;
+  misses: number;
+}
@@ -0,0 +1,39 @@
+import { DiagnosticSeverity } from './diagnostic.js';
+
+interface RuleCheckBase {
+  // Reported as the diagnostic code; defaults to `<type>-<position>`
+  id?: string;
+  message?: string;
+  // Defaults to warning
+  severity?: DiagnosticSeverity;
+  // Globs of the files the check applies to (e.g. "**/*.py"); all files by default
+  files?: string[];
+}
+
+// A regular expression that must not match any line
+export interface PatternCheck extends RuleCheckBase {
+  type: 'pattern';
+  pattern: string;
+  // RegExp flags such as "i"
+  flags?: string;
+}
+
+// Modules (and their submodules) that must not be imported
+export interface ForbiddenImportCheck extends RuleCheckBase {
+  type: 'forbidden-import';
+  modules: string[];
+}
+
+export interface FileSizeCheck extends RuleCheckBase {
+  type: 'file-size';
+  maxLines?: number;
+  maxBytes?: number;
+}
+
+// At least one file must match one of the globs in `paths`
+export interface RequiredFileCheck extends RuleCheckBase {
+  type: 'required-file';
+  paths: string[];
+}
+
+export type RuleCheck = PatternCheck | ForbiddenImportCheck | FileSizeCheck | RequiredFileCheck;
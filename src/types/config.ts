@@ -0,0 +1,57 @@
+import { ScenarioContext } from './rule.js';
+import { RuleSource } from './source.js';
+import { ExportFormat } from './export.js';
+import { BundleDefinition } from './bundle.js';
+import { LintRuleSetting } from './lint.js';
+
+// Shape of a .rulesrc / .rulesrc.json file
+export interface RulesConfigFile {
+  // Defaults for recommendations when a value is not given explicitly
+  context?: Partial<ScenarioContext>;
+  // Rule ids always included in recommended bundles
+  pinned?: string[];
+  // Rules left out of recommended bundles, by id or tag
+  exclude?: {
+    rules?: string[];
+    tags?: string[];
+  };
+  // Extra rule directories, relative to the config file
+  sources?: string[];
+  bundles?: Record<string, BundleDefinition>;
+  export?: {
+    formats?: ExportFormat[];
+    targetDir?: string;
+  };
+  lint?: {
+    // Severity and options by lint rule code
+    rules?: Record<string, LintRuleSetting>;
+    // Modules exporting extra lint rules, relative to the config file
+    plugins?: string[];
+  };
+}
+
+export interface ResolvedConfig {
+  // Config file that was found, if any
+  filePath?: string;
+  context: Partial<ScenarioContext>;
+  pinned: string[];
+  exclude: {
+    rules: string[];
+    tags: string[];
+  };
+  // Rule sources from lowest to highest precedence, bundled rules first
+  sources: RuleSource[];
+  bundles: Record<string, BundleDefinition>;
+  export: {
+    formats: ExportFormat[];
+    targetDir: string;
+  };
+  lint: {
+    rules: Record<string, LintRuleSetting>;
+    // Absolute module paths
+    plugins: string[];
+  };
+  // Where each value came from, keyed like "context.language" or "sources[1]":
+  // a config file path, an environment variable, a flag, or "default"
+  origins: Record<string, string>;
+}
@@ -0,0 +1,15 @@
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found in a rule file, or in code checked against a rule, positioned
+ * at a 1-based line and column
+ */
+export interface Diagnostic {
+  code: string;
+  message: string;
+  severity: DiagnosticSeverity;
+  ruleId: string;
+  filePath: string;
+  line: number;
+  column: number;
+}
@@ -0,0 +1,25 @@
+export type ExportFormat =
+  | 'cursor'
+  | 'cursorrules'
+  | 'claude'
+  | 'agents'
+  | 'copilot'
+  | 'windsurf'
+  | 'cline';
+
+export interface ExportFile {
+  format: ExportFormat;
+  // Path relative to the export target directory
+  path: string;
+  content: string;
+  // Whether the file is shared with user content, so only the managed block is replaced
+  managed: boolean;
+  warnings: string[];
+}
+
+export interface ExportResult {
+  path: string;
+  status: 'created' | 'updated' | 'unchanged';
+  diff: string;
+  written: boolean;
+}
@@ -0,0 +1,49 @@
+export type RuleEdgeKind = 'prerequisite' | 'related';
+
+export type GraphFormat = 'json' | 'dot' | 'mermaid';
+
+/**
+ * A reference from one rule to another; `prerequisite` edges point from a
+ * rule to the rule it requires
+ */
+export interface RuleGraphEdge {
+  from: string;
+  to: string;
+  kind: RuleEdgeKind;
+}
+
+export interface RuleGraphNode {
+  id: string;
+  title: string;
+  category: string;
+  // Hops from the root of the view; 0 for the root itself
+  depth: number;
+}
+
+// A prerequisite or related entry that does not resolve to a loaded rule
+export interface DanglingReference {
+  from: string;
+  reference: string;
+  kind: RuleEdgeKind;
+}
+
+export interface RuleGraphView {
+  // Rule the view was expanded from; absent for the whole graph
+  root?: string;
+  nodes: RuleGraphNode[];
+  edges: RuleGraphEdge[];
+  // Transitive prerequisites of the root, each after the rules it requires
+  prerequisites: string[];
+  // Rules that list the root as a prerequisite
+  dependents: string[];
+  // Prerequisite cycles among the nodes, each starting and ending on the same id
+  cycles: string[][];
+  dangling: DanglingReference[];
+}
+
+export interface RuleGraphOptions {
+  // Maximum hops from the root; unlimited by default
+  depth?: number;
+  // Follow `related` references as well as prerequisites (default true)
+  related?: boolean;
+}
@@ -0,0 +1,94 @@
+// A commit that touched a rule's file
+export interface RuleCommit {
+  hash: string;
+  shortHash: string;
+  // ISO 8601 author date
+  date: string;
+  author: string;
+  subject: string;
+  // Path of the rule file at this commit, relative to the repository root
+  path: string;
+  // `version` declared in the frontmatter at this commit
+  version?: string;
+  // The markdown changed but the version is the same as in the commit before
+  unbumped?: boolean;
+}
+
+export interface RuleHistoryReport {
+  ruleId: string;
+  filePath: string;
+  source: string;
+  version?: string;
+  lastUpdated?: string;
+  // The file differs from the last commit that touched it
+  uncommitted?: {
+    version?: string;
+    unbumped: boolean;
+  };
+  // Newest first
+  commits: RuleCommit[];
+}
+
+export interface SectionChange {
+  type: 'added' | 'removed' | 'modified' | 'renamed';
+  // Heading path in the newer version, or the older one for removed sections
+  headingPath: string[];
+  anchor: string;
+  // Heading path in the older version, for renamed sections
+  previousHeadingPath?: string[];
+  linesAdded: number;
+  linesRemoved: number;
+  // Unified diff of the section's own text, for modified sections
+  diff?: string;
+}
+
+export interface MetadataChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface RuleVersionDiff {
+  ruleId: string;
+  from: string;
+  to: string;
+  fromVersion?: string;
+  toVersion?: string;
+  // The file does not exist at `from`
+  added: boolean;
+  // The file does not exist at `to`
+  removed: boolean;
+  versionBumped: boolean;
+  // The markdown changed, not only the frontmatter
+  contentChanged: boolean;
+  metadata: MetadataChange[];
+  sections: SectionChange[];
+}
+
+export interface RuleChange {
+  ruleId: string;
+  title: string;
+  filePath: string;
+  source: string;
+  status: 'added' | 'modified';
+  version?: string;
+  previousVersion?: string;
+  versionBumped: boolean;
+  // Commits since the base that touched the file, newest first
+  commits: RuleCommit[];
+  uncommitted: boolean;
+  metadata: MetadataChange[];
+  sections: SectionChange[];
+}
+
+export interface RuleChangesReport {
+  since: string;
+  // Commits per source that the changes are relative to; absent when every
+  // commit of the source is newer than `since`
+  base: Record<string, string | undefined>;
+  rules: RuleChange[];
+  // Rule files deleted since then, relative to their source
+  removed: Array<{ source: string; filePath: string }>;
+  // Sources that are not in a git repository
+  skippedSources: string[];
+}
@@ -0,0 +1,33 @@
+export interface Classification {
+  value: string;
+  // 0 to 1; values reaching the classifier's threshold are inferred
+  confidence: number;
+  // The signals that added up to the confidence
+  evidence: string[];
+}
+
+export interface RuleClassification {
+  // Every candidate with any evidence, most confident first
+  languages: Classification[];
+  tags: Classification[];
+}
+
+export interface InspectedField {
+  field: string;
+  value: unknown;
+  // Where the value came from: frontmatter, or the signal it was inferred from
+  origin: 'frontmatter' | 'path' | 'directory' | 'heading' | 'file name' | 'classifier' | 'default' | 'none';
+  declared?: unknown;
+  // What would be used without the declaration
+  inferred?: unknown;
+}
+
+export interface RuleInspection {
+  ruleId: string;
+  filePath: string;
+  source: string;
+  fields: InspectedField[];
+  classification: RuleClassification;
+  // Confidence needed for a language or tag to be inferred
+  threshold: number;
+}
@@ -0,0 +1,70 @@
+import { DiagnosticSeverity, Diagnostic } from './diagnostic.js';
+import { Rule, RuleSection } from './rule.js';
+import { RuleLayerDirectives } from './source.js';
+
+// Severity of a lint rule in .rulesrc, or 'off'; the object form also carries
+// the rule's options, e.g. { "severity": "error", "maxLines": 80 }
+export type LintRuleSetting =
+  | 'off'
+  | DiagnosticSeverity
+  | ({ severity?: 'off' | DiagnosticSeverity } & Record<string, unknown>);
+
+// Replace `remove` lines of the rule file starting at 1-based `line` with `insert`
+export interface LintFix {
+  line: number;
+  remove: number;
+  insert: string[];
+}
+
+export interface LintProblem {
+  message: string;
+  line: number;
+  column?: number;
+  // Only offered when applying it cannot change what the rule says
+  fix?: LintFix;
+}
+
+export interface LintContext {
+  rule: Rule;
+  // Set for files that extend or disable a rule of a lower layer instead of defining one
+  directives: RuleLayerDirectives;
+  // Absolute path of the rule file
+  filePath: string;
+  // Every line of the file, frontmatter included
+  lines: string[];
+  frontmatter: Record<string, unknown>;
+  // 1-based line of the closing `---` of the frontmatter, if there is one
+  frontmatterEnd?: number;
+  // Section tree with line numbers in the file rather than the markdown body
+  sections: RuleSection[];
+  // Lines outside fenced code blocks and frontmatter
+  proseLines: Array<{ line: number; text: string }>;
+  // A rule by id or alias
+  resolveRule(reference: string): Rule | undefined;
+  // The rule loaded from an absolute file path
+  findRuleByFile(filePath: string): Rule | undefined;
+  // The rule at a path relative to its source, from whichever layer provides it
+  findRuleByPath(relativePath: string): Rule | undefined;
+  // Absolute path of a rule's file
+  filePathOf(rule: Rule): string;
+}
+
+export interface LintRule {
+  // Reported as the diagnostic code and used as the key in .rulesrc
+  code: string;
+  description: string;
+  defaultSeverity: DiagnosticSeverity;
+  defaultOptions?: Record<string, unknown>;
+  check(context: LintContext, options: Record<string, unknown>): LintProblem[];
+}
+
+export interface LintDiagnostic extends Diagnostic {
+  fix?: LintFix;
+}
+
+export interface LintFixResult {
+  // Rule files that were rewritten, absolute
+  fixedFiles: string[];
+  // What is left after fixing
+  diagnostics: LintDiagnostic[];
+}
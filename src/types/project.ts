@@ -0,0 +1,21 @@
+import { ScenarioContext } from './rule.js';
+
+export interface DetectionEvidence {
+  file: string;
+  kind: 'language' | 'framework' | 'environment' | 'package-manager';
+  value: string;
+}
+
+export interface DetectedProject {
+  root: string;
+  // Primary language and framework, ready for RuleAnalyzer.recommendBundle
+  context: ScenarioContext;
+  languages: string[];
+  frameworks: string[];
+  // Deployment and CI tooling such as docker or github-actions. Only used to
+  // tell devops projects apart: they are not scenario environments
+  // (development, production, testing), so they do not rank rules
+  environments: string[];
+  packageManagers: string[];
+  evidence: DetectionEvidence[];
+}
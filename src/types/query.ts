@@ -0,0 +1,52 @@
+import { Rule, RuleMetadata } from './rule.js';
+import { SearchHit } from './search.js';
+
+// Fields are ANDed; a list of values within a field matches any of them
+export interface RuleFilter {
+  category?: string | string[];
+  subcategory?: string | string[];
+  // Universal rules match any language
+  language?: string | string[];
+  tags?: {
+    any?: string[];
+    all?: string[];
+    none?: string[];
+  };
+  priority?: NonNullable<RuleMetadata['priority']> | Array<NonNullable<RuleMetadata['priority']>>;
+  difficulty?: NonNullable<RuleMetadata['difficulty']> | Array<NonNullable<RuleMetadata['difficulty']>>;
+  // Matched against applicability.frameworks
+  framework?: string | string[];
+  author?: string | string[];
+  // YYYY-MM-DD; rules without lastUpdated do not match
+  updatedSince?: string;
+}
+
+export type RuleSortKey = 'id' | 'title' | 'category' | 'priority' | 'difficulty' | 'updated' | 'relevance';
+
+export interface RuleQuery {
+  filter?: RuleFilter;
+  // Full-text query; only rules with a hit match
+  text?: string;
+  // Defaults to relevance with a text query, id without
+  sort?: RuleSortKey;
+  // Defaults to desc for relevance and updated, asc for the other keys
+  order?: 'asc' | 'desc';
+  // Page size; all matches when absent
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+export interface RuleQueryItem {
+  rule: Rule;
+  // Best matching section, for text queries
+  hit?: SearchHit;
+}
+
+export interface RuleQueryResult {
+  items: RuleQueryItem[];
+  // Matches across all pages
+  total: number;
+  // Cursor of the next page, when there is one
+  nextCursor?: string;
+}
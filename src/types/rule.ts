@@ -1,5 +1,8 @@
+import { RuleCheck } from './check.js';
+
 export interface RuleMetadata {
   id: string;
+  aliases?: string[];
   title: string;
   description?: string;
   category: RuleCategory;
@@ -24,6 +27,8 @@ export interface RuleMetadata {
     url: string;
     description?: string;
   }>;
+  // Machine-checkable parts of the rule, run by `rules-cli check`
+  checks?: RuleCheck[];
 }
 
 export type RuleCategory =
@@ -40,21 +45,101 @@ export type RuleCategory =
 export interface Rule {
   metadata: RuleMetadata;
   content: string;
+  // Relative to the directory of the rule's source
   filePath: string;
+  sections: RuleSection[];
+  // Name of the rule source the file was loaded from
+  source: string;
+  // Sources whose rule with the same id this one replaced
+  overrides?: string[];
+  // Sources whose files were appended to this rule
+  extendedBy?: string[];
+}
+
+export interface RuleSection {
+  heading: string;
+  anchor: string;
+  level: number;
+  // Text directly under the heading, excluding subsections
+  body: string;
+  codeBlocks: CodeBlock[];
+  children: RuleSection[];
+  // 1-based line range within `content`, covering subsections
+  line: number;
+  endLine: number;
+}
+
+export interface CodeBlock {
+  language?: string;
+  code: string;
+  line: number;
 }
 
 export interface RuleBundle {
+  // Id of the declared bundle this was resolved from
+  id?: string;
   name: string;
   description: string;
   rules: Rule[];
   scenarios: string[];
+  // Relevance of each rule to the scenario, keyed by rule id
+  scores?: Record<string, RuleScore>;
+  // Present when the bundle was packed into a token budget
+  composition?: BundleComposition;
+}
+
+export interface RuleScore {
+  score: number;
+  reasons: RuleScoreReason[];
+}
+
+export interface RuleScoreReason {
+  factor: string;
+  weight: number;
+  description: string;
+}
+
+export type TokenEstimator = 'chars' | 'words';
+
+export interface BundleComposition {
+  maxTokens: number;
+  usedTokens: number;
+  tokenEstimator: TokenEstimator;
+  allocations: RuleAllocation[];
+}
+
+export interface RuleAllocation {
+  ruleId: string;
+  status: 'included' | 'truncated' | 'omitted';
+  reason: string;
+  tokens: number;
+  totalTokens: number;
+  includedSections: string[];
+  omittedSections: string[];
+  // Markdown of the included sections, in document order
+  content: string;
 }
 
 export interface ScenarioContext {
   type: 'coding' | 'writing' | 'research' | 'communication' | 'data' | 'devops' | 'security' | 'project-management' | 'general';
   language?: string;
+  // Every language the project uses, when known (e.g. detected); rules for
+  // any of them are not penalized as written for another language
+  languages?: string[];
   framework?: string;
+  scenario?: string;
   environment?: 'development' | 'production' | 'testing';
   complexity?: 'simple' | 'moderate' | 'complex';
   priorities?: Array<'performance' | 'security' | 'maintainability' | 'accessibility'>;
+  maxTokens?: number;
+  tokenEstimator?: TokenEstimator;
+  // Add the transitive prerequisites of recommended rules, ordered before them
+  includePrerequisites?: boolean;
+}
+
+// Canonical ids that differ between two loads of the rules
+export interface RuleChangeSet {
+  added: string[];
+  removed: string[];
+  changed: string[];
 }
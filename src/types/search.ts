@@ -0,0 +1,12 @@
+export interface SearchHit {
+  ruleId: string;
+  score: number;
+  headingPath: string[];
+  anchor: string;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  ruleIds?: string[];
+}
@@ -0,0 +1,17 @@
+export interface RuleSource {
+  // Short name recorded on every rule loaded from this source
+  name: string;
+  // Absolute directory the rule files are read from
+  path: string;
+  // Rule and bundle files by path relative to `path` (with / separators),
+  // read instead of the directory so rules can be supplied without a filesystem
+  files?: Record<string, string>;
+}
+
+// Layering directives a rule file may declare in its frontmatter
+export interface RuleLayerDirectives {
+  // Append this file to the lower-layer rule with the given id
+  extends?: string;
+  // Remove the lower-layer rule with this file's id
+  disabled?: boolean;
+}
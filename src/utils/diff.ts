@@ -0,0 +1,173 @@
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  line: string;
+}
+
+/**
+ * Line diff based on the longest common subsequence. Quadratic in the number
+ * of lines, which is fine for rule and instruction files.
+ */
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = before.length > 0 ? before.split('\n') : [];
+  const b = after.length > 0 ? after.split('\n') : [];
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'delete', line: a[i++] });
+    } else {
+      ops.push({ type: 'insert', line: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    ops.push({ type: 'delete', line: a[i++] });
+  }
+  while (j < b.length) {
+    ops.push({ type: 'insert', line: b[j++] });
+  }
+
+  return ops;
+}
+
+/**
+ * Render a unified diff with the given number of context lines.
+ * Returns an empty string when the inputs are identical.
+ */
+export function formatUnifiedDiff(
+  oldName: string,
+  newName: string,
+  before: string,
+  after: string,
+  context = 3
+): string {
+  const ops = diffLines(before, after);
+  if (ops.every((op) => op.type === 'equal')) {
+    return '';
+  }
+
+  const lines = [`--- ${oldName}`, `+++ ${newName}`];
+  const changed = ops.map((op) => op.type !== 'equal');
+
+  let index = 0;
+  while (index < ops.length) {
+    if (!changed[index]) {
+      index++;
+      continue;
+    }
+
+    // Grow the hunk while changes are within 2 * context lines of each other
+    const start = Math.max(0, index - context);
+    let end = index;
+    while (end < ops.length) {
+      let next = end + 1;
+      while (next < ops.length && !changed[next]) {
+        next++;
+      }
+      if (next < ops.length && next - end <= context * 2) {
+        end = next;
+      } else {
+        break;
+      }
+    }
+    const stop = Math.min(ops.length, end + context + 1);
+
+    const oldStart = ops.slice(0, start).filter((op) => op.type !== 'insert').length;
+    const newStart = ops.slice(0, start).filter((op) => op.type !== 'delete').length;
+    const hunk = ops.slice(start, stop);
+    const oldCount = hunk.filter((op) => op.type !== 'insert').length;
+    const newCount = hunk.filter((op) => op.type !== 'delete').length;
+
+    lines.push(`@@ -${oldStart + (oldCount > 0 ? 1 : 0)},${oldCount} +${newStart + (newCount > 0 ? 1 : 0)},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === 'insert' ? '+' : op.type === 'delete' ? '-' : ' ';
+      lines.push(`${prefix}${op.line}`);
+    }
+
+    index = stop;
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * A file touched by a unified diff, with the lines it adds
+ */
+export interface DiffFile {
+  // Path after the change (before it, for deleted files), without a/ or b/
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  // Added lines with their 1-based line numbers in the new file
+  addedLines: Array<{ line: number; text: string }>;
+}
+
+/**
+ * Parse the files and added lines of a unified diff, as produced by
+ * `git diff` or `diff -u`
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let current: DiffFile | undefined;
+  let oldPath = '';
+  let newLine = 0;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (remainingOld > 0 || remainingNew > 0) {
+      if (line.startsWith('+')) {
+        current?.addedLines.push({ line: newLine++, text: line.slice(1) });
+        remainingNew--;
+      } else if (line.startsWith('-')) {
+        remainingOld--;
+      } else if (!line.startsWith('\\')) {
+        newLine++;
+        remainingOld--;
+        remainingNew--;
+      }
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      oldPath = stripDiffPath(line.slice(4));
+    } else if (line.startsWith('+++ ')) {
+      const newPath = stripDiffPath(line.slice(4));
+      current = {
+        path: newPath === '/dev/null' ? oldPath : newPath,
+        status: oldPath === '/dev/null' ? 'added' : newPath === '/dev/null' ? 'deleted' : 'modified',
+        addedLines: [],
+      };
+      files.push(current);
+    } else {
+      const hunk = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (hunk) {
+        remainingOld = hunk[1] === undefined ? 1 : Number(hunk[1]);
+        newLine = Number(hunk[2]);
+        remainingNew = hunk[3] === undefined ? 1 : Number(hunk[3]);
+      }
+    }
+  }
+
+  return files;
+}
+
+// Drop the a/ or b/ prefix git adds and any trailing timestamp from diff -u
+function stripDiffPath(value: string): string {
+  const name = value.split('\t')[0].trim();
+  return name === '/dev/null' ? name : name.replace(/^[ab]\//, '');
+}
@@ -0,0 +1,254 @@
+import { CodeBlock, RuleSection } from '../types/rule.js';
+
+export interface MarkdownSection {
+  heading: string;
+  level: number;
+  headingPath: string[];
+  body: string;
+  codeBlocks: CodeBlock[];
+  // 1-based line range of the heading and its own body
+  line: number;
+  endLine: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([^\s`]*)/;
+
+/**
+ * Split markdown into flat sections, one per ATX heading. Text before the
+ * first heading becomes a level-0 section with an empty heading. Headings
+ * inside fenced code blocks are ignored.
+ */
+export function splitSections(content: string): MarkdownSection[] {
+  const lines = content.split(/\r?\n/);
+  const sections: MarkdownSection[] = [];
+  const stack: Array<{ level: number; heading: string }> = [];
+
+  let current: MarkdownSection = {
+    heading: '',
+    level: 0,
+    headingPath: [],
+    body: '',
+    codeBlocks: [],
+    line: 1,
+    endLine: 1,
+  };
+  let bodyLines: string[] = [];
+  let fence: { marker: string; language?: string; line: number; lines: string[] } | null = null;
+
+  const flush = (endLine: number) => {
+    current.body = bodyLines.join('\n').trim();
+    current.endLine = endLine;
+    if (current.level > 0 || current.body.length > 0) {
+      sections.push(current);
+    }
+    bodyLines = [];
+  };
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = { marker: fenceMatch[1], language: fenceMatch[2] || undefined, line: index + 1, lines: [] };
+      } else if (fenceMatch[1] === fence.marker && fenceMatch[2] === '') {
+        current.codeBlocks.push({
+          language: fence.language,
+          code: fence.lines.join('\n'),
+          line: fence.line,
+        });
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      bodyLines.push(line);
+      return;
+    }
+
+    if (fence !== null) {
+      fence.lines.push(line);
+      bodyLines.push(line);
+      return;
+    }
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (!headingMatch) {
+      bodyLines.push(line);
+      return;
+    }
+
+    flush(index);
+
+    const level = headingMatch[1].length;
+    const heading = headingMatch[2];
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, heading });
+
+    current = {
+      heading,
+      level,
+      headingPath: stack.map((entry) => entry.heading),
+      body: '',
+      codeBlocks: [],
+      line: index + 1,
+      endLine: index + 1,
+    };
+  });
+
+  flush(lines.length);
+  return sections;
+}
+
+/**
+ * Lines outside fenced code blocks, with their 1-based line numbers
+ */
+export function proseLines(content: string): Array<{ line: number; text: string }> {
+  const prose: Array<{ line: number; text: string }> = [];
+  let fence: string | null = null;
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const fenceMatch = text.match(FENCE_PATTERN);
+    if (fenceMatch && fence === null) {
+      fence = fenceMatch[1];
+    } else if (fenceMatch && fenceMatch[1] === fence && fenceMatch[2] === '') {
+      fence = null;
+    } else if (fence === null) {
+      prose.push({ line: index + 1, text });
+    }
+  });
+
+  return prose;
+}
+
+/**
+ * Parse markdown into a tree of sections nested by heading level, with
+ * GitHub-style anchors that are unique within the document
+ */
+export function parseSections(content: string): RuleSection[] {
+  const roots: RuleSection[] = [];
+  const stack: RuleSection[] = [];
+  const anchors = new Map<string, number>();
+
+  for (const flat of splitSections(content)) {
+    const section: RuleSection = {
+      heading: flat.heading,
+      anchor: flat.level > 0 ? uniqueAnchor(slugify(flat.heading), anchors) : '',
+      level: flat.level,
+      body: flat.body,
+      codeBlocks: flat.codeBlocks,
+      children: [],
+      line: flat.line,
+      endLine: flat.endLine,
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(section);
+    } else {
+      roots.push(section);
+    }
+    stack.push(section);
+
+    // Extend the line range of every enclosing section
+    for (const ancestor of stack) {
+      ancestor.endLine = Math.max(ancestor.endLine, section.endLine);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Convert a heading into a GitHub-style anchor slug
+ */
+export function slugify(heading: string): string {
+  return heading
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Depth-first list of sections with the heading path leading to each
+ */
+export function flattenSections(
+  sections: RuleSection[],
+  parentPath: string[] = []
+): Array<{ section: RuleSection; headingPath: string[] }> {
+  return sections.flatMap((section) => {
+    const headingPath = section.level > 0 ? [...parentPath, section.heading] : parentPath;
+    return [{ section, headingPath }, ...flattenSections(section.children, headingPath)];
+  });
+}
+
+/**
+ * Find a section by anchor, or by heading text which is slugified first
+ */
+export function findSection(sections: RuleSection[], anchorOrHeading: string): RuleSection | undefined {
+  const wanted = anchorOrHeading.replace(/^#/, '');
+  if (wanted.length === 0) {
+    return undefined;
+  }
+
+  const flat = flattenSections(sections).map((entry) => entry.section);
+  return flat.find((s) => s.anchor === wanted) || flat.find((s) => s.anchor === slugify(wanted));
+}
+
+export interface SectionOutline {
+  heading: string;
+  anchor: string;
+  level: number;
+  children: SectionOutline[];
+}
+
+/**
+ * Headings and anchors only, for browsing a rule without its content
+ */
+export function outlineSections(sections: RuleSection[]): SectionOutline[] {
+  return sections
+    .filter((section) => section.level > 0)
+    .map((section) => ({
+      heading: section.heading,
+      anchor: section.anchor,
+      level: section.level,
+      children: outlineSections(section.children),
+    }));
+}
+
+/**
+ * Markdown source of a section including its subsections
+ */
+export function getSectionMarkdown(content: string, section: RuleSection): string {
+  return content
+    .split(/\r?\n/)
+    .slice(section.line - 1, section.endLine)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Render sections back to markdown, shifting heading levels by `headingOffset`
+ * (capped at level 6) so a rule can be embedded under another heading
+ */
+export function renderSections(sections: RuleSection[], headingOffset = 0): string {
+  return flattenSections(sections)
+    .map(({ section }) => {
+      const heading = section.level > 0
+        ? `${'#'.repeat(Math.min(section.level + headingOffset, 6))} ${section.heading}`
+        : '';
+      return [heading, section.body].filter((part) => part.length > 0).join('\n\n');
+    })
+    .filter((part) => part.length > 0)
+    .join('\n\n');
+}
+
+function uniqueAnchor(slug: string, seen: Map<string, number>): string {
+  const count = seen.get(slug);
+  seen.set(slug, count === undefined ? 1 : count + 1);
+  return count === undefined ? slug : `${slug}-${count}`;
+}
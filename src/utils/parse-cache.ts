@@ -0,0 +1,223 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Rule } from '../types/rule.js';
+import { RuleSource } from '../types/source.js';
+import { ParsedRuleFile, ParseCacheStats } from '../types/cache.js';
+
+// Bump whenever parsing or indexing changes, so caches written by older
+// versions are dropped rather than trusted
+const CACHE_VERSION = 1;
+
+const CACHE_FILE = 'parse-cache.json';
+
+interface FileEntry {
+  // Name and directory of the source the file was parsed for; ids and paths
+  // of rules are relative to the directory
+  source: string;
+  sourcePath: string;
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  file: ParsedRuleFile | null;
+  // Search index sections of the rule built from this file, valid while the
+  // rule's fingerprint is unchanged (extensions from other layers change it)
+  index?: {
+    fingerprint: string;
+    sections: unknown[];
+  };
+}
+
+interface CacheData {
+  version: number;
+  updatedAt?: string;
+  // By absolute path
+  files: Record<string, FileEntry>;
+}
+
+/**
+ * Directory of the parse cache: RULES_D_CACHE_DIR, or rules-d under the
+ * user's cache directory
+ */
+export function defaultCacheDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.RULES_D_CACHE_DIR) {
+    return path.resolve(env.RULES_D_CACHE_DIR);
+  }
+  return path.join(env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'rules-d');
+}
+
+/**
+ * On-disk cache of parsed rule files and their search index sections, so
+ * that a new process only re-parses files that changed. Files are looked up
+ * by path and checked by modification time and size, then by content hash,
+ * so a touched but unchanged file is not parsed again.
+ *
+ * The cache never fails a load: an unreadable or outdated cache file is
+ * treated as empty, and a cache that cannot be written is skipped.
+ */
+export class ParseCache {
+  readonly filePath: string;
+  private data: CacheData | null = null;
+  private dirty = false;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(cacheDir: string = defaultCacheDir()) {
+    this.filePath = path.join(cacheDir, CACHE_FILE);
+  }
+
+  /**
+   * A parsed rule file, from the cache when the file is unchanged and from
+   * `parse` otherwise
+   */
+  getFile(
+    absolutePath: string,
+    source: RuleSource,
+    stat: fs.Stats,
+    parse: (content: string) => ParsedRuleFile | null
+  ): ParsedRuleFile | null {
+    const files = this.load().files;
+    const cached = files[absolutePath];
+    const entry = cached?.source === source.name && cached.sourcePath === source.path ? cached : undefined;
+    if (entry && entry.mtimeMs === stat.mtimeMs && entry.size === stat.size) {
+      this.hits++;
+      return entry.file;
+    }
+
+    const content = fs.readFileSync(absolutePath, 'utf-8');
+    const hash = hashText(content);
+    if (entry && entry.hash === hash) {
+      this.hits++;
+      files[absolutePath] = { ...entry, mtimeMs: stat.mtimeMs, size: stat.size };
+      this.dirty = true;
+      return entry.file;
+    }
+
+    this.misses++;
+    const file = parse(content);
+    files[absolutePath] = {
+      source: source.name,
+      sourcePath: source.path,
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      hash,
+      file,
+    };
+    this.dirty = true;
+    return file;
+  }
+
+  /**
+   * Drop files under the given directories that were not loaded, because
+   * they were deleted or no longer match the rule file patterns
+   */
+  prune(directories: string[], loaded: Set<string>): void {
+    const files = this.load().files;
+    for (const filePath of Object.keys(files)) {
+      const inDirectory = directories.some((dir) => !path.relative(dir, filePath).startsWith('..'));
+      if (inDirectory && !loaded.has(filePath)) {
+        delete files[filePath];
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Search index sections cached for a rule built from the given file
+   */
+  getIndexSections(absolutePath: string, rule: Rule): unknown[] | undefined {
+    const index = this.load().files[absolutePath]?.index;
+    return index && index.fingerprint === fingerprint(rule) ? index.sections : undefined;
+  }
+
+  setIndexSections(absolutePath: string, rule: Rule, sections: unknown[]): void {
+    const entry = this.load().files[absolutePath];
+    if (entry) {
+      entry.index = { fingerprint: fingerprint(rule), sections };
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Write the cache if anything changed since it was read. The file is
+   * replaced in one step, so concurrent processes never read half of it.
+   */
+  save(): void {
+    if (!this.data || !this.dirty) {
+      return;
+    }
+
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      this.data.updatedAt = new Date().toISOString();
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(temporary, JSON.stringify(this.data));
+      fs.renameSync(temporary, this.filePath);
+      this.dirty = false;
+    } catch {
+      // A read-only cache directory only costs speed
+      fs.rmSync(temporary, { force: true });
+    }
+  }
+
+  /**
+   * Delete the cache file, returning whether there was one
+   */
+  clear(): boolean {
+    const existed = fs.existsSync(this.filePath);
+    fs.rmSync(this.filePath, { force: true });
+    this.data = { version: CACHE_VERSION, files: {} };
+    this.dirty = false;
+    return existed;
+  }
+
+  stats(): ParseCacheStats {
+    const data = this.load();
+    const entries = Object.values(data.files);
+    const files: Record<string, number> = {};
+    for (const entry of entries) {
+      files[entry.source] = (files[entry.source] || 0) + 1;
+    }
+
+    const exists = fs.existsSync(this.filePath);
+    return {
+      filePath: this.filePath,
+      exists,
+      size: exists ? fs.statSync(this.filePath).size : 0,
+      files,
+      indexed: entries.filter((entry) => entry.index).length,
+      updatedAt: data.updatedAt,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  private load(): CacheData {
+    if (!this.data) {
+      this.data = readCacheFile(this.filePath);
+    }
+    return this.data;
+  }
+}
+
+function readCacheFile(filePath: string): CacheData {
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (data && data.version === CACHE_VERSION && typeof data.files === 'object') {
+      return data;
+    }
+  } catch {
+    // Missing or corrupt; start over
+  }
+  return { version: CACHE_VERSION, files: {} };
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('sha1').update(text).digest('hex');
+}
+
+// What the search index sections of a rule are built from
+function fingerprint(rule: Rule): string {
+  return hashText(JSON.stringify([rule.metadata.id, rule.metadata.title, rule.metadata.tags, rule.content]));
+}
@@ -0,0 +1,171 @@
+import { RuleCategory } from '../types/rule.js';
+import { Classification, RuleClassification } from '../types/inspection.js';
+import { proseLines, splitSections } from './markdown.js';
+
+export interface ClassifierInput {
+  // File name without .md, e.g. "python-rules"
+  filename: string;
+  title: string;
+  // Markdown without frontmatter
+  content: string;
+  category: RuleCategory;
+}
+
+export const CLASSIFICATION_THRESHOLD = 0.5;
+
+// Canonical language names and the other names they go by, lowercase
+export const LANGUAGE_SYNONYMS: Record<string, string[]> = {
+  python: ['python', 'python3', 'py'],
+  javascript: ['javascript', 'js', 'node.js', 'nodejs', 'jsx', 'mjs', 'ecmascript'],
+  typescript: ['typescript', 'ts', 'tsx'],
+  go: ['go', 'golang'],
+  rust: ['rust', 'rs'],
+  java: ['java'],
+  csharp: ['csharp', 'c#', 'cs', '.net', 'dotnet'],
+};
+
+// Everyday words that only name a language in file names, titles and code fences
+const AMBIGUOUS_IN_PROSE = new Set(['go']);
+
+// Tags and the words and phrases that suggest them, lowercase
+export const TAG_KEYWORDS: Record<string, string[]> = {
+  performance: ['performance', 'latency', 'throughput', 'profiling', 'benchmark', 'benchmarks'],
+  optimization: ['optimization', 'optimisation', 'optimize', 'optimise', 'optimizing'],
+  security: ['security', 'secure', 'vulnerability', 'vulnerabilities', 'encryption', 'authentication'],
+  testing: ['testing', 'tests', 'test coverage', 'test suite'],
+  tdd: ['tdd', 'test-driven', 'test driven'],
+  'unit-tests': ['unit test', 'unit tests', 'unit testing'],
+  accessibility: ['accessibility', 'a11y', 'wcag', 'screen reader', 'screen readers', 'aria'],
+  a11y: ['a11y', 'accessibility', 'wcag'],
+};
+
+// Tag of rules that match no other tag
+const FALLBACK_TAG = 'best-practices';
+
+/**
+ * Score every language and tag a rule could be about from its file name,
+ * title, headings, code fence languages and word-boundary mentions
+ */
+export function classifyRule(input: ClassifierInput): RuleClassification {
+  const filenameTokens = input.filename.toLowerCase().split(/[-_.]+/);
+  const title = input.title.toLowerCase();
+  const sections = splitSections(input.content);
+  const headings = sections.filter((s) => s.level > 1).map((s) => s.heading.toLowerCase());
+  const prose = proseLines(input.content)
+    .map((line) => line.text)
+    .filter((text) => !/^\s*#/.test(text))
+    .join('\n')
+    .toLowerCase();
+
+  const fenceLanguages = sections
+    .flatMap((s) => s.codeBlocks)
+    .map((block) => (block.language ? canonicalLanguage(block.language) : undefined))
+    .filter((language): language is string => language !== undefined && language in LANGUAGE_SYNONYMS);
+
+  const languages = Object.entries(LANGUAGE_SYNONYMS).map(([language, synonyms]) => {
+    const signals = new Signals(language);
+    const named = synonyms.find((synonym) => filenameTokens.includes(synonym));
+    signals.add(named !== undefined, 0.6, `file name "${input.filename}"`);
+    signals.add(synonyms.some((synonym) => countWord(title, synonym) > 0), 0.4, `title "${input.title}"`);
+
+    const fences = fenceLanguages.filter((fence) => fence === language).length;
+    signals.add(
+      fences > 0,
+      0.5 * (fences / fenceLanguages.length) * (Math.min(fences, 3) / 3),
+      `${fences} of ${fenceLanguages.length} code blocks`
+    );
+
+    const mentions = synonyms
+      .filter((synonym) => !AMBIGUOUS_IN_PROSE.has(synonym))
+      .reduce((total, synonym) => total + countWord(prose, synonym), 0);
+    signals.add(mentions > 0, Math.min(mentions, 5) * 0.04, `mentioned ${mentions} time(s)`);
+    return signals.result();
+  });
+
+  const tags = Object.entries(TAG_KEYWORDS).map(([tag, keywords]) => {
+    const signals = new Signals(tag);
+    signals.add(keywords.some((keyword) => filenameTokens.includes(keyword)), 0.6, `file name "${input.filename}"`);
+    signals.add(keywords.includes(input.category), 0.6, `category "${input.category}"`);
+    signals.add(keywords.some((keyword) => countWord(title, keyword) > 0), 0.4, `title "${input.title}"`);
+
+    const headingCount = headings.filter((heading) =>
+      keywords.some((keyword) => countWord(heading, keyword) > 0)
+    ).length;
+    signals.add(headingCount > 0, Math.min(headingCount, 3) * 0.15, `${headingCount} heading(s)`);
+
+    const mentions = keywords.reduce((total, keyword) => total + countWord(prose, keyword), 0);
+    signals.add(mentions > 0, Math.min(mentions, 10) * 0.02, `mentioned ${mentions} time(s)`);
+    return signals.result();
+  });
+
+  const ranked = (classifications: Classification[]) =>
+    classifications
+      .filter((classification) => classification.evidence.length > 0)
+      .sort((a, b) => b.confidence - a.confidence || a.value.localeCompare(b.value));
+
+  return { languages: ranked(languages), tags: ranked(tags) };
+}
+
+/**
+ * Languages confident enough to infer, or "universal" when there are none
+ */
+export function inferredLanguage(classification: RuleClassification): string | string[] {
+  const languages = confident(classification.languages);
+  if (languages.length === 0) {
+    return 'universal';
+  }
+  return languages.length === 1 ? languages[0] : languages;
+}
+
+/**
+ * Tags confident enough to infer, or "best-practices" when there are none
+ */
+export function inferredTags(classification: RuleClassification): string[] {
+  const tags = confident(classification.tags);
+  return tags.length > 0 ? tags : [FALLBACK_TAG];
+}
+
+/**
+ * Canonical name of a language or one of its synonyms ("ts" -> "typescript",
+ * "golang" -> "go"); unknown names are only lowercased
+ */
+export function canonicalLanguage(name: string): string {
+  const lower = name.trim().toLowerCase();
+  const canonical = Object.entries(LANGUAGE_SYNONYMS).find(([, synonyms]) => synonyms.includes(lower));
+  return canonical ? canonical[0] : lower;
+}
+
+function confident(classifications: Classification[]): string[] {
+  return classifications.filter((c) => c.confidence >= CLASSIFICATION_THRESHOLD).map((c) => c.value);
+}
+
+/**
+ * Occurrences of a word or phrase that are not part of a longer word, so
+ * "java" does not match "javascript" and "ts" does not match "tests"
+ */
+function countWord(text: string, word: string): number {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_#+.-])${escaped}(?![\\p{L}\\p{N}_#+-])`, 'gu');
+  return text.match(pattern)?.length ?? 0;
+}
+
+class Signals {
+  private value: string;
+  private confidence = 0;
+  private evidence: string[] = [];
+
+  constructor(value: string) {
+    this.value = value;
+  }
+
+  add(present: boolean, weight: number, description: string): void {
+    if (present && weight > 0) {
+      this.confidence += weight;
+      this.evidence.push(`${description} (+${weight.toFixed(2)})`);
+    }
+  }
+
+  result(): Classification {
+    return { value: this.value, confidence: Math.min(1, Number(this.confidence.toFixed(2))), evidence: this.evidence };
+  }
+}
@@ -2,30 +2,116 @@ import * as fs from 'fs';
 import * as path from 'path';
 import matter from 'gray-matter';
 import { globSync } from 'glob';
+import { fileURLToPath } from 'url';
 import { Rule, RuleMetadata, RuleCategory } from '../types/rule.js';
+import { RuleSource } from '../types/source.js';
+import { ParsedRuleFile } from '../types/cache.js';
+import { RuleRegistry } from './rule-registry.js';
+import { ParseCache } from './parse-cache.js';
+import { parseSections } from './markdown.js';
+import { canonicalLanguage, classifyRule, inferredLanguage, inferredTags } from './rule-classifier.js';
+
+interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  // Files of in-memory sources are compared by content instead
+  content?: string;
+  file: ParsedRuleFile | null;
+}
+
+// A rule id in the merged view and the files of each layer that shaped it
+interface LayerEntry {
+  id: string;
+  layer: number;
+  base: Rule;
+  extensions: ParsedRuleFile[];
+  overrides: string[];
+}
+
+interface MergedRule {
+  base: Rule;
+  extensions: Rule[];
+  overrides: string[];
+  rule: Rule;
+}
+
+// Name of the source used when the loader is given a single directory
+export const DEFAULT_SOURCE_NAME = 'rules.d';
+
+// The bundled rules, at the package root
+const BUILTIN_RULES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+// Frontmatter keys an extension does not copy onto the rule it extends
+const EXTENSION_IGNORED_KEYS = new Set(['id', 'aliases', 'tags', 'extends', 'disabled', 'checks']);
 
 export class RuleLoader {
-  private rulesDir: string;
+  private sources: RuleSource[];
+  // Parsed files by absolute path, reused while the file is unchanged
+  private cache = new Map<string, CachedFile>();
+  // Rules built from several layers by id, reused while their inputs are unchanged
+  private merged = new Map<string, MergedRule>();
+  // Every file of the last load, including extending and disabling ones
+  private files: ParsedRuleFile[] = [];
+  private parseCache?: ParseCache;
 
-  constructor(rulesDir?: string) {
-    this.rulesDir = rulesDir || path.join(__dirname, '../..');
+  /**
+   * @param sources A rules directory, or rule sources from lowest to highest precedence
+   * @param parseCache On-disk cache of parsed files, shared with other processes
+   */
+  constructor(sources?: string | RuleSource[], parseCache?: ParseCache) {
+    this.sources = Array.isArray(sources)
+      ? sources
+      : [{ name: DEFAULT_SOURCE_NAME, path: sources || BUILTIN_RULES_DIR }];
+    this.parseCache = parseCache;
+  }
+
+  /**
+   * Rule sources from lowest to highest precedence
+   */
+  getSources(): RuleSource[] {
+    return this.sources;
   }
 
   /**
-   * Load all rule files from the rules directory
+   * Load all rule files from every source. Sources are layered in order: a
+   * rule in a later source replaces the rule with the same id from earlier
+   * ones, unless its frontmatter says to `extends` another rule (appending
+   * to it) or marks it `disabled` (removing it).
+   *
+   * Files whose size and modification time are unchanged since the previous
+   * call are not re-parsed, and keep returning the same Rule objects. With a
+   * parse cache, files unchanged since any earlier process are not either.
    */
   async loadAllRules(): Promise<Rule[]> {
-    const ruleFiles = this.findRuleFiles();
-    const rules: Rule[] = [];
-
-    for (const filePath of ruleFiles) {
-      try {
-        const rule = await this.loadRule(filePath);
-        if (rule) {
-          rules.push(rule);
+    const seen = new Set<string>();
+    const allFiles: ParsedRuleFile[] = [];
+    let entries: LayerEntry[] = [];
+
+    for (const [layer, source] of this.sources.entries()) {
+      const files: ParsedRuleFile[] = [];
+      for (const filePath of this.findRuleFiles(source)) {
+        seen.add(filePath);
+        const file = source.files ? this.loadMemoryFile(filePath, source) : await this.loadCachedFile(filePath, source);
+        if (file) {
+          files.push(file);
         }
-      } catch (error) {
-        console.error(`Error loading rule from ${filePath}:`, error);
+      }
+      entries = this.applyLayer(entries, files, layer, source);
+      allFiles.push(...files);
+    }
+    this.files = allFiles;
+
+    for (const filePath of this.cache.keys()) {
+      if (!seen.has(filePath)) {
+        this.cache.delete(filePath);
+      }
+    }
+    this.parseCache?.prune(this.sources.filter((source) => !source.files).map((source) => source.path), seen);
+
+    const rules = entries.map((entry) => this.materialize(entry));
+    for (const id of this.merged.keys()) {
+      if (!entries.some((entry) => entry.id === id)) {
+        this.merged.delete(id);
       }
     }
 
@@ -33,34 +119,238 @@ export class RuleLoader {
   }
 
   /**
-   * Load a single rule file
+   * Every rule file parsed by the last load, lowest source first. Unlike
+   * the loaded rules, this includes overridden files and the files that
+   * extend or disable a rule.
+   */
+  getRuleFiles(): ParsedRuleFile[] {
+    return this.files;
+  }
+
+  /**
+   * Load all rule files into a registry keyed by canonical id,
+   * reporting duplicate ids
+   */
+  async loadRegistry(): Promise<RuleRegistry> {
+    const registry = new RuleRegistry();
+    for (const rule of await this.loadAllRules()) {
+      registry.register(rule);
+    }
+
+    for (const issue of registry.getIssues()) {
+      console.error(issue.message);
+    }
+
+    return registry;
+  }
+
+  /**
+   * Load a single rule file. Relative paths are resolved against the first
+   * source; absolute paths are attributed to the source that contains them.
    */
   async loadRule(filePath: string): Promise<Rule | null> {
+    const source = path.isAbsolute(filePath)
+      ? this.sources.find((s) => !path.relative(s.path, filePath).startsWith('..')) || this.sources[0]
+      : this.sources[0];
+    const file = this.readRuleFile(filePath, source);
+    return file ? file.rule : null;
+  }
+
+  private async loadCachedFile(filePath: string, source: RuleSource): Promise<ParsedRuleFile | null> {
+    try {
+      const stat = fs.statSync(filePath);
+      const cached = this.cache.get(filePath);
+      if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+        return cached.file;
+      }
+
+      const file = this.parseCache
+        ? this.parseCache.getFile(filePath, source, stat, (content) => this.parseRuleFile(filePath, source, content))
+        : this.readRuleFile(filePath, source);
+      this.cache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, file });
+      return file;
+    } catch (error) {
+      this.cache.delete(filePath);
+      console.error(`Error loading rule from ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  private loadMemoryFile(filePath: string, source: RuleSource): ParsedRuleFile | null {
+    const content = source.files?.[memoryKey(filePath, source)];
+    const cached = this.cache.get(filePath);
+    if (cached && cached.content === content) {
+      return cached.file;
+    }
+
+    const file = content === undefined ? null : this.parseRuleFile(filePath, source, content);
+    this.cache.set(filePath, { mtimeMs: 0, size: content?.length ?? 0, content, file });
+    return file;
+  }
+
+  private readRuleFile(filePath: string, source: RuleSource): ParsedRuleFile | null {
     const absolutePath = path.isAbsolute(filePath)
       ? filePath
-      : path.join(this.rulesDir, filePath);
+      : path.join(source.path, filePath);
+
+    if (source.files) {
+      const content = source.files[memoryKey(absolutePath, source)];
+      return content === undefined ? null : this.parseRuleFile(absolutePath, source, content);
+    }
 
     if (!fs.existsSync(absolutePath)) {
       return null;
     }
 
-    const fileContent = fs.readFileSync(absolutePath, 'utf-8');
+    return this.parseRuleFile(absolutePath, source, fs.readFileSync(absolutePath, 'utf-8'));
+  }
+
+  private parseRuleFile(absolutePath: string, source: RuleSource, fileContent: string): ParsedRuleFile {
     const parsed = matter(fileContent);
 
     // Generate metadata from filename and content if not present in frontmatter
-    const metadata = this.generateMetadata(filePath, parsed.data, parsed.content);
+    const metadata = this.generateMetadata(absolutePath, source.path, parsed.data, parsed.content);
 
     return {
-      metadata,
-      content: parsed.content,
-      filePath: path.relative(this.rulesDir, absolutePath),
+      rule: {
+        metadata,
+        content: parsed.content,
+        filePath: path.relative(source.path, absolutePath),
+        sections: parseSections(parsed.content),
+        source: source.name,
+      },
+      declared: Object.keys(parsed.data),
+      directives: {
+        extends: typeof parsed.data.extends === 'string' ? parsed.data.extends : undefined,
+        disabled: parsed.data.disabled === true,
+      },
     };
   }
 
   /**
-   * Find all rule files in the repository
+   * Lay the files of one source over the rules of the sources below it
    */
-  private findRuleFiles(): string[] {
+  private applyLayer(
+    lower: LayerEntry[],
+    files: ParsedRuleFile[],
+    layer: number,
+    source: RuleSource
+  ): LayerEntry[] {
+    let entries = [...lower];
+
+    for (const file of files) {
+      const { rule, directives } = file;
+      const id = rule.metadata.id;
+
+      if (directives.disabled) {
+        if (!entries.some((entry) => entry.id === id && entry.layer < layer)) {
+          console.error(`${source.name}: ${rule.filePath} disables unknown rule ${id}`);
+        }
+        entries = entries.filter((entry) => entry.id !== id || entry.layer === layer);
+        continue;
+      }
+
+      if (directives.extends) {
+        const target = entries.find((entry) => entry.id === directives.extends);
+        if (target) {
+          target.extensions = [...target.extensions, file];
+        } else {
+          console.error(`${source.name}: ${rule.filePath} extends unknown rule ${directives.extends}`);
+        }
+        continue;
+      }
+
+      // Same-layer collisions stay side by side so the registry reports them
+      const replaced = entries.filter((entry) => entry.id === id && entry.layer < layer);
+      const entry: LayerEntry = {
+        id,
+        layer,
+        base: rule,
+        extensions: [],
+        overrides: [...new Set(replaced.flatMap((r) => [...r.overrides, r.base.source]))],
+      };
+
+      if (replaced.length > 0) {
+        const index = entries.indexOf(replaced[0]);
+        entries = entries.filter((e) => !replaced.includes(e));
+        entries.splice(index, 0, entry);
+      } else {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * The rule for a layer entry, reusing the previous object when neither the
+   * base rule nor its extensions changed
+   */
+  private materialize(entry: LayerEntry): Rule {
+    if (entry.extensions.length === 0 && entry.overrides.length === 0) {
+      return entry.base;
+    }
+
+    const extensions = entry.extensions.map((extension) => extension.rule);
+    const previous = this.merged.get(entry.id);
+    if (
+      previous &&
+      previous.base === entry.base &&
+      previous.extensions.length === extensions.length &&
+      previous.extensions.every((rule, index) => rule === extensions[index]) &&
+      previous.overrides.join('\n') === entry.overrides.join('\n')
+    ) {
+      return previous.rule;
+    }
+
+    const rule: Rule = { ...entry.base };
+    if (entry.overrides.length > 0) {
+      rule.overrides = entry.overrides;
+    }
+
+    if (extensions.length > 0) {
+      const metadata: Record<string, unknown> = { ...entry.base.metadata };
+      const tags = new Set(entry.base.metadata.tags);
+      const checks = [...(entry.base.metadata.checks || [])];
+
+      for (const { rule: extension, declared } of entry.extensions) {
+        const extensionMetadata = extension.metadata as unknown as Record<string, unknown>;
+        for (const key of declared) {
+          if (!EXTENSION_IGNORED_KEYS.has(key) && key in extensionMetadata) {
+            metadata[key] = extensionMetadata[key];
+          }
+        }
+        if (declared.includes('tags')) {
+          extension.metadata.tags.forEach((tag) => tags.add(tag));
+        }
+        checks.push(...(extension.metadata.checks || []));
+      }
+
+      rule.metadata = { ...(metadata as unknown as RuleMetadata), tags: [...tags] };
+      if (checks.length > 0) {
+        rule.metadata.checks = checks;
+      }
+      rule.content = [entry.base.content.trimEnd(), ...extensions.map((e) => e.content.trim())].join('\n\n') + '\n';
+      rule.sections = parseSections(rule.content);
+      rule.extendedBy = [...new Set(extensions.map((e) => e.source))];
+    }
+
+    this.merged.set(entry.id, { base: entry.base, extensions, overrides: entry.overrides, rule });
+    return rule;
+  }
+
+  /**
+   * Find all rule files in a source directory, or among its in-memory files
+   */
+  private findRuleFiles(source: RuleSource): string[] {
+    if (source.files) {
+      return Object.keys(source.files)
+        .filter((key) => /(^|\/)(rules|[^/]*-rules)\.md$/.test(key))
+        .map((key) => path.join(source.path, ...key.split('/')))
+        .sort();
+    }
+
+    const rulesDir = source.path;
     const patterns = [
       '**/rules.md',
       '**/*-rules.md',
@@ -69,43 +359,51 @@ export class RuleLoader {
     const files: string[] = [];
     for (const pattern of patterns) {
       const matches = globSync(pattern, {
-        cwd: this.rulesDir,
+        cwd: rulesDir,
         absolute: true,
         ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
       });
       files.push(...matches);
     }
 
-    return [...new Set(files)];
+    // Sort so that load order, and therefore duplicate resolution, is stable
+    return [...new Set(files)].sort();
   }
 
   /**
    * Generate metadata from file path and content
    */
   private generateMetadata(
-    filePath: string,
+    absolutePath: string,
+    rulesDir: string,
     frontmatter: any,
     content: string
   ): RuleMetadata {
-    const relativePath = path.relative(this.rulesDir, filePath);
+    const relativePath = path.relative(rulesDir, absolutePath);
     const parts = relativePath.split(path.sep);
     const category = this.inferCategory(parts[0]);
-    const filename = path.basename(filePath, '.md');
+    const filename = path.basename(absolutePath, '.md');
     
     // Extract title from content if not in frontmatter
     const title = frontmatter.title || this.extractTitle(content) || this.formatTitle(filename);
     
-    // Generate ID from filename
-    const id = frontmatter.id || filename;
+    // Generate a category-qualified ID from the relative path, keeping the
+    // bare filename (the pre-registry ID) resolvable as an alias
+    const pathId = this.generateId(relativePath);
+    const id = frontmatter.id || pathId;
+    const aliases = [...new Set<string>([...(frontmatter.aliases || []), pathId, filename])]
+      .filter((alias) => alias !== id);
     
-    // Infer language from filename
-    const language = this.inferLanguage(filename, content);
-    
-    // Generate tags
-    const tags = frontmatter.tags || this.generateTags(filename, content);
+    // Declared language and tags always win over the classifier's
+    const classification = classifyRule({ filename, title, content, category });
+    const language = frontmatter.language !== undefined
+      ? this.declaredLanguage(frontmatter.language)
+      : inferredLanguage(classification);
+    const tags = frontmatter.tags || inferredTags(classification);
 
     return {
       id,
+      aliases,
       title,
       description: frontmatter.description,
       category,
@@ -119,12 +417,22 @@ export class RuleLoader {
       related: frontmatter.related,
       outcomes: frontmatter.outcomes,
       version: frontmatter.version || '1.0.0',
-      lastUpdated: frontmatter.lastUpdated,
+      lastUpdated: frontmatter.lastUpdated instanceof Date
+        ? frontmatter.lastUpdated.toISOString().slice(0, 10)
+        : frontmatter.lastUpdated,
       author: frontmatter.author,
       references: frontmatter.references,
+      checks: frontmatter.checks,
     };
   }
 
+  private generateId(relativePath: string): string {
+    return relativePath
+      .split(path.sep)
+      .join('/')
+      .replace(/\.md$/, '');
+  }
+
   private inferCategory(dirName: string): RuleCategory {
     const validCategories: RuleCategory[] = [
       'general',
@@ -154,66 +462,15 @@ export class RuleLoader {
       .join(' ');
   }
 
-  private inferLanguage(filename: string, content: string): string | string[] {
-    const languageMap: Record<string, string> = {
-      python: 'python',
-      javascript: 'javascript',
-      typescript: 'typescript',
-      go: 'go',
-      rust: 'rust',
-      java: 'java',
-      csharp: 'csharp',
-      'c#': 'csharp',
-    };
-
-    // Check filename
-    for (const [key, value] of Object.entries(languageMap)) {
-      if (filename.toLowerCase().includes(key)) {
-        return value;
-      }
-    }
-
-    // Check content for language indicators
-    const languages: string[] = [];
-    const contentLower = content.toLowerCase();
-    for (const [key, value] of Object.entries(languageMap)) {
-      if (contentLower.includes(key)) {
-        languages.push(value);
-      }
-    }
-
-    if (languages.length === 0) {
-      return 'universal';
-    }
-    return languages.length === 1 ? languages[0] : languages;
+  /**
+   * Declared languages under their canonical names, e.g. "ts" as "typescript"
+   */
+  private declaredLanguage(declared: string | string[]): string | string[] {
+    return Array.isArray(declared) ? declared.map(canonicalLanguage) : canonicalLanguage(declared);
   }
+}
 
-  private generateTags(filename: string, content: string): string[] {
-    const tags = new Set<string>();
-
-    // Add category-based tags
-    const commonTags: Record<string, string[]> = {
-      performance: ['performance', 'optimization'],
-      security: ['security'],
-      testing: ['testing', 'tdd', 'unit-tests'],
-      accessibility: ['accessibility', 'a11y'],
-      'best-practices': ['best-practices'],
-    };
-
-    const lowerFilename = filename.toLowerCase();
-    const lowerContent = content.toLowerCase();
-
-    for (const [key, values] of Object.entries(commonTags)) {
-      if (lowerFilename.includes(key) || lowerContent.includes(key)) {
-        values.forEach((tag) => tags.add(tag));
-      }
-    }
-
-    // Add at least one tag
-    if (tags.size === 0) {
-      tags.add('best-practices');
-    }
-
-    return Array.from(tags);
-  }
+// Key of an in-memory file, by its absolute path under the source
+function memoryKey(absolutePath: string, source: RuleSource): string {
+  return path.relative(source.path, absolutePath).split(path.sep).join('/');
 }
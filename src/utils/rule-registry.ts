@@ -0,0 +1,109 @@
+import { Rule } from '../types/rule.js';
+
+export interface RuleRegistryIssue {
+  type: 'duplicate-id';
+  id: string;
+  filePaths: string[];
+  message: string;
+}
+
+/**
+ * Index of loaded rules keyed by their canonical id.
+ *
+ * Canonical ids are unique; the first rule registered under an id wins and
+ * later collisions are recorded as issues. Aliases (legacy filename ids and
+ * any `aliases` declared in frontmatter) resolve to a canonical id only when
+ * exactly one rule claims them.
+ */
+export class RuleRegistry {
+  private rulesById = new Map<string, Rule>();
+  private aliases = new Map<string, Set<string>>();
+  private issues: RuleRegistryIssue[] = [];
+
+  /**
+   * Register a rule. Returns false if its id is already taken.
+   */
+  register(rule: Rule): boolean {
+    const id = rule.metadata.id;
+    const existing = this.rulesById.get(id);
+
+    if (existing) {
+      const issue = this.issues.find((i) => i.type === 'duplicate-id' && i.id === id);
+      if (issue) {
+        issue.filePaths.push(rule.filePath);
+        issue.message = this.formatDuplicateMessage(id, issue.filePaths);
+      } else {
+        const filePaths = [existing.filePath, rule.filePath];
+        this.issues.push({
+          type: 'duplicate-id',
+          id,
+          filePaths,
+          message: this.formatDuplicateMessage(id, filePaths),
+        });
+      }
+      return false;
+    }
+
+    this.rulesById.set(id, rule);
+    for (const alias of rule.metadata.aliases || []) {
+      if (alias === id) {
+        continue;
+      }
+      const ids = this.aliases.get(alias) || new Set<string>();
+      ids.add(id);
+      this.aliases.set(alias, ids);
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolve an id or alias to a canonical rule id
+   */
+  resolveId(idOrAlias: string): string | undefined {
+    if (this.rulesById.has(idOrAlias)) {
+      return idOrAlias;
+    }
+
+    const ids = this.aliases.get(idOrAlias);
+    if (ids && ids.size === 1) {
+      return [...ids][0];
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get a rule by canonical id or unambiguous alias
+   */
+  get(idOrAlias: string): Rule | undefined {
+    const id = this.resolveId(idOrAlias);
+    return id ? this.rulesById.get(id) : undefined;
+  }
+
+  has(idOrAlias: string): boolean {
+    return this.resolveId(idOrAlias) !== undefined;
+  }
+
+  /**
+   * Canonical ids an alias could refer to (more than one when ambiguous)
+   */
+  getCandidates(idOrAlias: string): string[] {
+    if (this.rulesById.has(idOrAlias)) {
+      return [idOrAlias];
+    }
+    return [...(this.aliases.get(idOrAlias) || [])].sort();
+  }
+
+  getAll(): Rule[] {
+    return [...this.rulesById.values()];
+  }
+
+  getIssues(): RuleRegistryIssue[] {
+    return this.issues;
+  }
+
+  private formatDuplicateMessage(id: string, filePaths: string[]): string {
+    return `Duplicate rule id "${id}" in ${filePaths.join(', ')}; keeping ${filePaths[0]}`;
+  }
+}
@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RuleSource } from '../types/source.js';
+import { DEFAULT_SOURCE_NAME } from './rule-loader.js';
+
+/**
+ * Build the list of rule sources, lowest precedence first: the bundled
+ * rules, then `extraDirs` in order. Each source is named after its
+ * directory; repeated directories are only loaded once.
+ */
+export function resolveRuleSources(builtinDir: string, extraDirs: string[] = []): RuleSource[] {
+  const dirs = extraDirs.map((dir) => path.resolve(dir));
+
+  const sources: RuleSource[] = [{ name: DEFAULT_SOURCE_NAME, path: path.resolve(builtinDir) }];
+  for (const dir of dirs) {
+    if (sources.some((source) => source.path === dir)) {
+      continue;
+    }
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      throw new Error(`Rules directory not found: ${dir}`);
+    }
+
+    // Fall back to the full path when two sources share a directory name
+    const name = path.basename(dir);
+    sources.push({
+      name: sources.some((source) => source.name === name) ? dir : name,
+      path: dir,
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Values of a repeatable `--rules-dir <dir>` / `--rules-dir=<dir>` flag
+ */
+export function parseRulesDirArgs(argv: string[]): string[] {
+  const dirs: string[] = [];
+  argv.forEach((arg, index) => {
+    if (arg === '--rules-dir' && argv[index + 1] !== undefined) {
+      dirs.push(argv[index + 1]);
+    } else if (arg.startsWith('--rules-dir=')) {
+      dirs.push(arg.slice('--rules-dir='.length));
+    }
+  });
+  return dirs;
+}
+
+/**
+ * Directories of a RULES_D_PATH-style list, separated like PATH
+ */
+export function splitRulesPath(value: string | undefined): string[] {
+  return value ? value.split(path.delimiter).filter((dir) => dir.length > 0) : [];
+}
@@ -0,0 +1,169 @@
+import { Rule, RuleBundle, RuleSection } from '../types/rule.js';
+import { RuleQueryItem } from '../types/query.js';
+import { DeclaredBundle } from '../types/bundle.js';
+import { ExportFile, ExportResult } from '../types/export.js';
+import { getSectionMarkdown, outlineSections } from './markdown.js';
+
+// Plain-data views of rules and bundles, shared by the MCP tools and the
+// JSON and YAML output of rules-cli so both report the same shapes
+
+/**
+ * A rule as list_rules and `rules-cli list` report it
+ */
+export function summarizeRule(rule: Rule) {
+  return {
+    id: rule.metadata.id,
+    title: rule.metadata.title,
+    category: rule.metadata.category,
+    language: rule.metadata.language,
+    tags: rule.metadata.tags,
+    filePath: rule.filePath,
+    source: rule.source,
+  };
+}
+
+/**
+ * A search result, with the best-matching section when there was a text query
+ */
+export function summarizeSearchResult({ rule, hit }: RuleQueryItem) {
+  return {
+    id: rule.metadata.id,
+    title: rule.metadata.title,
+    description: rule.metadata.description,
+    category: rule.metadata.category,
+    tags: rule.metadata.tags,
+    filePath: rule.filePath,
+    ...(hit && {
+      score: hit.score,
+      section: hit.headingPath,
+      anchor: hit.anchor,
+      snippet: hit.snippet,
+    }),
+  };
+}
+
+/**
+ * A rule with its metadata and full content
+ */
+export function describeRule(rule: Rule) {
+  return {
+    metadata: rule.metadata,
+    content: rule.content,
+    filePath: rule.filePath,
+    source: rule.source,
+    overrides: rule.overrides,
+    extendedBy: rule.extendedBy,
+  };
+}
+
+/**
+ * The headings and anchors of a rule, without content
+ */
+export function outlineRule(rule: Rule) {
+  return {
+    ruleId: rule.metadata.id,
+    title: rule.metadata.title,
+    sections: outlineSections(rule.sections),
+  };
+}
+
+/**
+ * One section of a rule, with its subsections
+ */
+export function describeSection(rule: Rule, section: RuleSection) {
+  return {
+    ruleId: rule.metadata.id,
+    heading: section.heading,
+    anchor: section.anchor,
+    level: section.level,
+    content: getSectionMarkdown(rule.content, section),
+    codeBlocks: section.codeBlocks,
+    subsections: outlineSections(section.children),
+  };
+}
+
+/**
+ * A bundle with its ranked rules, and how they were packed when it has a
+ * token budget
+ */
+export function summarizeBundle(bundle: RuleBundle) {
+  const composition = bundle.composition;
+
+  return {
+    name: bundle.name,
+    description: bundle.description,
+    scenarios: bundle.scenarios,
+    rules: bundle.rules.map((r) => {
+      const allocation = composition?.allocations.find((a) => a.ruleId === r.metadata.id);
+      return {
+        id: r.metadata.id,
+        title: r.metadata.title,
+        category: r.metadata.category,
+        filePath: r.filePath,
+        priority: r.metadata.priority,
+        score: bundle.scores?.[r.metadata.id]?.score,
+        reasons: bundle.scores?.[r.metadata.id]?.reasons,
+        ...(allocation && {
+          status: allocation.status,
+          reason: allocation.reason,
+          tokens: allocation.tokens,
+          totalTokens: allocation.totalTokens,
+          omittedSections: allocation.omittedSections,
+          content: allocation.content,
+        }),
+      };
+    }),
+    ...(composition && {
+      budget: {
+        maxTokens: composition.maxTokens,
+        usedTokens: composition.usedTokens,
+        tokenEstimator: composition.tokenEstimator,
+      },
+      omitted: composition.allocations
+        .filter((a) => a.status === 'omitted')
+        .map((a) => ({ id: a.ruleId, reason: a.reason, totalTokens: a.totalTokens })),
+    }),
+  };
+}
+
+/**
+ * A common bundle as get_common_bundles and `rules-cli bundles` list it
+ */
+export function summarizeCommonBundle(id: string, bundle: RuleBundle) {
+  return {
+    id,
+    name: bundle.name,
+    description: bundle.description,
+    ruleCount: bundle.rules.length,
+    scenarios: bundle.scenarios,
+  };
+}
+
+/**
+ * A declared bundle with where it was defined and the rules it resolves to
+ */
+export function describeDeclaredBundle(declaration: DeclaredBundle, bundle: RuleBundle) {
+  return {
+    id: declaration.id,
+    origin: declaration.origin,
+    extends: declaration.definition.extends,
+    ...summarizeBundle(bundle),
+  };
+}
+
+/**
+ * Rendered export files, with what happened to each when they were written
+ * (or would be, in a dry run), or with their content otherwise
+ */
+export function summarizeExport(files: ExportFile[], results: ExportResult[] | null) {
+  return {
+    files: files.map((file, index) => ({
+      format: file.format,
+      path: file.path,
+      warnings: file.warnings,
+      ...(results
+        ? { status: results[index].status, written: results[index].written, diff: results[index].diff }
+        : { content: file.content }),
+    })),
+  };
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BUNDLES_DIR } from '../bundles/bundle-loader.js';
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', '.git']);
+
+const NATIVE_RECURSIVE_PLATFORMS: string[] = ['darwin', 'win32'];
+
+// Markdown rules anywhere, bundle files in the top-level bundles directory
+function isWatchedFile(filename: string): boolean {
+  return (
+    filename.endsWith('.md') ||
+    (path.dirname(filename) === BUNDLES_DIR && /\.(ya?ml|json)$/.test(filename))
+  );
+}
+
+/**
+ * Watches a rules directory for rule and bundle file changes and calls back
+ * once a burst of file events has settled
+ */
+export class RuleWatcher {
+  private rulesDir: string;
+  private onChange: () => void;
+  private debounceMs: number;
+  // Watchers by the directory they watch
+  private watchers = new Map<string, fs.FSWatcher>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(rulesDir: string, onChange: () => void, debounceMs = 200) {
+    this.rulesDir = rulesDir;
+    this.onChange = onChange;
+    this.debounceMs = debounceMs;
+  }
+
+  start(): void {
+    if (this.watchers.size > 0) {
+      return;
+    }
+
+    // Only macOS and Windows watch recursively natively; elsewhere Node walks
+    // the whole tree (node_modules included) and cannot unref the watchers,
+    // so watch each rule directory instead
+    if (NATIVE_RECURSIVE_PLATFORMS.includes(process.platform)) {
+      this.watch(this.rulesDir, true);
+    } else {
+      this.watchDirectories();
+    }
+  }
+
+  stop(): void {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private watch(dir: string, recursive: boolean): void {
+    const relative = path.relative(this.rulesDir, dir);
+    const watcher = fs.watch(dir, { recursive }, (_event, filename) => {
+      this.handle(filename ? path.join(relative, filename.toString()) : null);
+    });
+    // Watching alone should not keep the process alive
+    watcher.unref();
+    // A watcher fails when its directory goes away; an unhandled error event
+    // would take the process down with it
+    watcher.on('error', (error) => {
+      console.error(`Stopped watching ${dir}: ${error.message}`);
+      watcher.close();
+      if (this.watchers.get(dir) === watcher) {
+        this.watchers.delete(dir);
+      }
+    });
+    this.watchers.set(dir, watcher);
+  }
+
+  /**
+   * Watch every directory that is not watched yet, picking up new ones
+   */
+  private watchDirectories(): void {
+    for (const dir of this.listDirectories(this.rulesDir)) {
+      if (!this.watchers.has(dir)) {
+        this.watch(dir, false);
+      }
+    }
+  }
+
+  private handle(filename: string | null): void {
+    if (filename) {
+      if (filename.split(path.sep).some((part) => IGNORED_DIRECTORIES.has(part))) {
+        return;
+      }
+
+      // Directories that appear or disappear can carry rule files with them
+      const absolutePath = path.join(this.rulesDir, filename);
+      const isDirectory = fs.existsSync(absolutePath) && fs.statSync(absolutePath).isDirectory();
+      const wasWatched = this.watchers.has(absolutePath);
+      if (!NATIVE_RECURSIVE_PLATFORMS.includes(process.platform)) {
+        if (isDirectory) {
+          this.watchDirectories();
+        } else {
+          this.unwatchDirectory(absolutePath);
+        }
+      }
+
+      if (!isWatchedFile(filename) && !isDirectory && !wasWatched) {
+        return;
+      }
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.onChange();
+    }, this.debounceMs);
+  }
+
+  private unwatchDirectory(dir: string): void {
+    for (const [watched, watcher] of this.watchers) {
+      if (watched === dir || watched.startsWith(dir + path.sep)) {
+        watcher.close();
+        this.watchers.delete(watched);
+      }
+    }
+  }
+
+  private listDirectories(dir: string): string[] {
+    const directories = [dir];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+        directories.push(...this.listDirectories(path.join(dir, entry.name)));
+      }
+    }
+    return directories;
+  }
+}
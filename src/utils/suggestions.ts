@@ -0,0 +1,42 @@
+/**
+ * Candidates close to a value that matched none of them, nearest first, for
+ * "did you mean" hints. A candidate is close when its edit distance, or that
+ * of its last path segment, is within a third of the value's length, or when
+ * it contains the value.
+ */
+export function closestMatches(value: string, candidates: string[], max = 3): string[] {
+  const wanted = value.trim().toLowerCase();
+  if (wanted === '') {
+    return [];
+  }
+  const threshold = Math.max(2, Math.floor(wanted.length / 3));
+
+  return [...new Set(candidates)]
+    .map((candidate) => {
+      const lower = candidate.toLowerCase();
+      const segment = lower.slice(lower.lastIndexOf('/') + 1);
+      const distance = Math.min(editDistance(wanted, lower), editDistance(wanted, segment), lower.includes(wanted) ? 1 : Infinity);
+      return { candidate, distance };
+    })
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, max)
+    .map(({ candidate }) => candidate);
+}
+
+// Levenshtein distance, keeping one row of the table
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,103 @@
+import { Diagnostic } from '../types/diagnostic.js';
+
+export type DiagnosticFormat = 'text' | 'json' | 'sarif' | 'github';
+
+export const DIAGNOSTIC_FORMATS: DiagnosticFormat[] = ['text', 'json', 'sarif', 'github'];
+
+/**
+ * Render diagnostics for terminals and editors (text), scripts (json), code
+ * scanning tools (sarif) or GitHub Actions annotations (github)
+ */
+export function formatDiagnostics(
+  diagnostics: Diagnostic[],
+  format: DiagnosticFormat,
+  toolName: string
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(
+        {
+          summary: summarize(diagnostics),
+          diagnostics,
+        },
+        null,
+        2
+      );
+    case 'sarif':
+      return JSON.stringify(toSarif(diagnostics, toolName), null, 2);
+    case 'github':
+      return toGithubAnnotations(diagnostics);
+    default:
+      return toText(diagnostics);
+  }
+}
+
+function summarize(diagnostics: Diagnostic[]): { errors: number; warnings: number } {
+  return {
+    errors: diagnostics.filter((d) => d.severity === 'error').length,
+    warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+  };
+}
+
+function toText(diagnostics: Diagnostic[]): string {
+  const { errors, warnings } = summarize(diagnostics);
+  const lines = diagnostics.map(
+    (d) => `${d.filePath}:${d.line}:${d.column} ${d.severity} ${d.message} (${d.code})`
+  );
+
+  lines.push('');
+  lines.push(
+    diagnostics.length === 0
+      ? 'No problems found'
+      : `${errors} error(s), ${warnings} warning(s)`
+  );
+
+  return lines.join('\n');
+}
+
+function toSarif(diagnostics: Diagnostic[], toolName: string): object {
+  const codes = [...new Set(diagnostics.map((d) => d.code))].sort();
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: toolName,
+            informationUri: 'https://github.com/cbwinslow/rules.d',
+            rules: codes.map((code) => ({ id: code })),
+          },
+        },
+        results: diagnostics.map((d) => ({
+          ruleId: d.code,
+          level: d.severity === 'info' ? 'note' : d.severity,
+          message: { text: d.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: d.filePath.split('\\').join('/') },
+                region: { startLine: d.line, startColumn: d.column },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
+
+// Workflow commands: https://docs.github.com/actions/reference/workflow-commands-for-github-actions
+function toGithubAnnotations(diagnostics: Diagnostic[]): string {
+  const escapeData = (value: string) => value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  const escapeProperty = (value: string) => escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+
+  return diagnostics
+    .map((d) => {
+      const level = d.severity === 'info' ? 'notice' : d.severity;
+      const file = escapeProperty(d.filePath.split('\\').join('/'));
+      return `::${level} file=${file},line=${d.line},col=${d.column},title=${escapeProperty(d.code)}::${escapeData(d.message)}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { RuleMetadata } from '../types/rule.js';
+
+// Zod mirror of schema/rule-metadata.schema.json; keep the two in sync
+
+const categories = [
+  'general',
+  'coding',
+  'writing',
+  'research',
+  'communication',
+  'data',
+  'project-management',
+  'security',
+  'devops',
+] as const;
+
+// Values that are no URL at all are only reported by .url()
+const httpUrl = z
+  .string()
+  .url()
+  .refine((value) => !/^[a-z][a-z0-9+.-]*:/i.test(value) || /^https?:\/\//i.test(value), {
+    message: 'URL must use http or https',
+  });
+
+const globs = z.array(z.string().min(1)).min(1);
+
+const checkBase = {
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, { message: 'Check IDs must be lowercase and hyphenated' }).optional(),
+  message: z.string().min(1).optional(),
+  severity: z.enum(['error', 'warning', 'info']).optional(),
+  files: globs.optional(),
+};
+
+export const RuleCheckSchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      ...checkBase,
+      type: z.literal('pattern'),
+      pattern: z.string().min(1).refine(isValidRegExp, { message: 'Pattern must be a valid regular expression' }),
+      flags: z.string().regex(/^[imsu]*$/, { message: 'Flags may only be i, m, s or u' }).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      ...checkBase,
+      type: z.literal('forbidden-import'),
+      modules: z.array(z.string().min(1)).min(1),
+    })
+    .strict(),
+  z
+    .object({
+      ...checkBase,
+      type: z.literal('file-size'),
+      maxLines: z.number().int().positive().optional(),
+      maxBytes: z.number().int().positive().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      ...checkBase,
+      type: z.literal('required-file'),
+      paths: globs,
+    })
+    .strict(),
+]);
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const RuleMetadataSchema = z
+  .object({
+    id: z
+      .string()
+      .min(1)
+      .regex(/^[a-z0-9][a-z0-9._/-]*$/, {
+        message: 'ID must be lowercase letters, digits, ".", "_", "-" or "/"',
+      }),
+    aliases: z.array(z.string().min(1)).optional(),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    category: z.enum(categories),
+    subcategory: z.string().optional(),
+    language: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+    tags: z.array(z.string().regex(/^[a-z0-9][a-z0-9-]*$/, { message: 'Tags must be lowercase and hyphenated' })),
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced', 'expert']).optional(),
+    priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+    applicability: z
+      .object({
+        scenarios: z.array(z.string()).optional(),
+        frameworks: z.array(z.string()).optional(),
+        environments: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+    prerequisites: z.array(z.string()).optional(),
+    related: z.array(z.string()).optional(),
+    outcomes: z.array(z.string()).optional(),
+    version: z
+      .string()
+      .regex(/^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/, { message: 'Version must be MAJOR.MINOR.PATCH' })
+      .optional(),
+    lastUpdated: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be YYYY-MM-DD' })
+      .optional(),
+    author: z.string().optional(),
+    references: z
+      .array(
+        z
+          .object({
+            title: z.string().min(1),
+            url: httpUrl,
+            description: z.string().optional(),
+          })
+          .strict()
+      )
+      .optional(),
+    checks: z.array(RuleCheckSchema).optional(),
+  })
+  .strict();
+
+/**
+ * Frontmatter may declare any subset of the metadata; the rest is inferred
+ */
+export const RuleFrontmatterSchema = RuleMetadataSchema.partial().extend({
+  // YAML parses unquoted dates into Date objects
+  lastUpdated: z
+    .union([z.date(), RuleMetadataSchema.shape.lastUpdated.unwrap()])
+    .optional(),
+  // Layering directives for rules in higher-precedence sources
+  extends: z.string().min(1).optional(),
+  disabled: z.boolean().optional(),
+});
+
+// Fails to compile if the schema and the RuleMetadata interface drift apart
+type Assert<T extends true> = T;
+type _SchemaMatchesInterface = Assert<
+  z.infer<typeof RuleMetadataSchema> extends RuleMetadata
+    ? RuleMetadata extends z.infer<typeof RuleMetadataSchema>
+      ? true
+      : false
+    : false
+>;
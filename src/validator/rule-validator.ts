@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { ZodIssue } from 'zod';
+import { ParsedRuleFile } from '../types/cache.js';
+import { Diagnostic, DiagnosticSeverity } from '../types/diagnostic.js';
+import { RuleAnalyzer } from '../analyzer/rule-analyzer.js';
+import { RuleHistory } from '../history/rule-history.js';
+import { RuleFrontmatterSchema, RuleMetadataSchema } from './rule-schema.js';
+
+type IssuePath = Array<string | number>;
+
+/**
+ * Validates rule frontmatter and the resulting metadata against the rule
+ * metadata schema, checks that cross-references point at real rules, and
+ * warns when a rule's markdown changed in git without a version bump
+ */
+export class RuleValidator {
+  private analyzer: RuleAnalyzer;
+  private history: RuleHistory;
+
+  constructor(analyzer: RuleAnalyzer) {
+    this.analyzer = analyzer;
+    this.history = new RuleHistory(analyzer);
+  }
+
+  /**
+   * Validate every rule file of every source, including registry issues
+   * such as duplicate ids, and report problems with bundle definitions
+   */
+  validateAll(): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const issue of this.analyzer.getLoadIssues()) {
+      for (const filePath of issue.filePaths.slice(1)) {
+        diagnostics.push({
+          code: issue.type,
+          message: issue.message,
+          severity: 'error',
+          ruleId: issue.id,
+          filePath,
+          line: 1,
+          column: 1,
+        });
+      }
+    }
+
+    for (const file of this.analyzer.getRuleFiles()) {
+      diagnostics.push(...this.validateFile(file));
+    }
+
+    for (const issue of this.analyzer.getBundleIssues()) {
+      const source = this.analyzer.getSources().find((s) => !path.relative(s.path, issue.origin).startsWith('..'));
+      diagnostics.push({
+        code: issue.severity === 'error' ? 'invalid-bundle' : 'unknown-reference',
+        message: issue.message,
+        severity: issue.severity,
+        ruleId: issue.bundleId,
+        filePath: source ? path.relative(source.path, issue.origin) : issue.origin,
+        line: 1,
+        column: 1,
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Validate a single rule file's frontmatter and metadata. A file that
+   * extends or disables a lower-layer rule is checked on its own, against
+   * the id of that rule; only files that define a rule have metadata.
+   */
+  validateFile(file: ParsedRuleFile): Diagnostic[] {
+    const { rule, directives } = file;
+    const rulesDir = this.analyzer.getSources().find((s) => s.name === rule.source)?.path || '';
+    const source = fs.readFileSync(path.join(rulesDir, rule.filePath), 'utf-8');
+    const frontmatter = matter(source).data;
+    const diagnostics: Diagnostic[] = [];
+    const definesRule = !directives.extends && !directives.disabled;
+    const ruleId = directives.extends
+      ? this.analyzer.getRule(directives.extends)?.metadata.id ?? directives.extends
+      : rule.metadata.id;
+
+    const report = (
+      code: string,
+      severity: DiagnosticSeverity,
+      message: string,
+      issuePath: IssuePath
+    ) => {
+      const position = this.locate(source, issuePath);
+      diagnostics.push({
+        code,
+        message,
+        severity,
+        ruleId,
+        filePath: rule.filePath,
+        ...position,
+      });
+    };
+
+    const declared = RuleFrontmatterSchema.safeParse(frontmatter);
+    if (!declared.success) {
+      for (const issue of declared.error.issues) {
+        if (issue.code === 'unrecognized_keys') {
+          // Unknown fields are ignored by the loader, so only warn
+          for (const key of issue.keys) {
+            const keyPath = [...issue.path, key];
+            report('unknown-field', 'warning', `${this.formatPath(keyPath)}: Unknown field`, keyPath);
+          }
+        } else {
+          report(this.issueCode(issue), 'error', this.issueMessage(issue), issue.path);
+        }
+      }
+    }
+
+    if (directives.extends && !this.analyzer.getRule(directives.extends)) {
+      report('unknown-reference', 'error', `extends: unknown rule id "${directives.extends}"`, ['extends']);
+    }
+
+    // Inferred metadata must be valid too; skip paths already reported above
+    const reported = new Set(diagnostics.map((d) => d.message));
+    const resolved = definesRule ? RuleMetadataSchema.safeParse(rule.metadata) : undefined;
+    if (resolved && !resolved.success) {
+      for (const issue of resolved.error.issues) {
+        const message = this.issueMessage(issue);
+        if (!reported.has(message)) {
+          report(this.issueCode(issue), 'error', message, issue.path);
+        }
+      }
+    }
+
+    if (
+      definesRule &&
+      typeof frontmatter.category === 'string' &&
+      frontmatter.category !== rule.metadata.category
+    ) {
+      report(
+        'category-mismatch',
+        'warning',
+        `category: declared "${frontmatter.category}" but file is in the "${rule.metadata.category}" directory`,
+        ['category']
+      );
+    }
+
+    for (const field of ['related', 'prerequisites'] as const) {
+      const references = frontmatter[field];
+      if (!Array.isArray(references)) {
+        continue;
+      }
+
+      references.forEach((reference: unknown, index: number) => {
+        if (typeof reference !== 'string') {
+          return;
+        }
+
+        const target = this.analyzer.getRule(reference);
+        if (!target) {
+          const candidates = this.analyzer.getRuleCandidates(reference);
+          const message = candidates.length > 1
+            ? `${field}[${index}]: "${reference}" is ambiguous (matches ${candidates.join(', ')})`
+            : `${field}[${index}]: unknown rule id "${reference}"`;
+          report('unknown-reference', 'error', message, [field, index]);
+        } else if (target.metadata.id === ruleId) {
+          report('self-reference', 'warning', `${field}[${index}]: rule references itself`, [field, index]);
+        }
+      });
+    }
+
+    if (!definesRule) {
+      return diagnostics;
+    }
+
+    for (const cycle of this.analyzer.getPrerequisiteCycles()) {
+      if (cycle.includes(rule.metadata.id)) {
+        report('prerequisite-cycle', 'error', `prerequisites: cycle ${cycle.join(' -> ')}`, ['prerequisites']);
+      }
+    }
+
+    // Agents refresh guidance by version, so a changed rule needs a new one
+    const unbumped = this.history.findUnbumpedChange(rule);
+    if (unbumped) {
+      report('version-not-bumped', 'warning', `version: ${unbumped}`, ['version']);
+    }
+
+    return diagnostics;
+  }
+
+  private issueCode(issue: ZodIssue): string {
+    switch (issue.code) {
+      case 'invalid_enum_value':
+        return 'invalid-enum';
+      case 'invalid_type':
+        return issue.received === 'undefined' ? 'missing-field' : 'invalid-type';
+      default:
+        return 'invalid-value';
+    }
+  }
+
+  private issueMessage(issue: ZodIssue): string {
+    const field = issue.path.length > 0 ? this.formatPath(issue.path) : 'frontmatter';
+    return `${field}: ${issue.message}`;
+  }
+
+  private formatPath(issuePath: IssuePath): string {
+    return issuePath
+      .map((segment, index) =>
+        typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${segment}`
+      )
+      .join('');
+  }
+
+  /**
+   * Find the line of a frontmatter key path such as ['references', 0, 'url'].
+   * Falls back to the closest enclosing key, or line 1 when there is no
+   * frontmatter block.
+   */
+  private locate(source: string, issuePath: IssuePath): { line: number; column: number } {
+    const lines = source.split(/\r?\n/);
+    if (lines[0]?.trim() !== '---') {
+      return { line: 1, column: 1 };
+    }
+
+    let end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end === -1) {
+      end = lines.length;
+    }
+
+    let current = 0;
+    let column = 1;
+    for (const segment of issuePath) {
+      let found = -1;
+
+      if (typeof segment === 'number') {
+        let seen = -1;
+        let itemIndent: number | null = null;
+        for (let i = current + 1; i < end; i++) {
+          const match = lines[i].match(/^(\s*)-\s/);
+          if (!match) {
+            continue;
+          }
+          if (itemIndent === null) {
+            itemIndent = match[1].length;
+          }
+          if (match[1].length === itemIndent && ++seen === segment) {
+            found = i;
+            column = itemIndent + 1;
+            break;
+          }
+        }
+      } else {
+        const key = new RegExp(`^(\\s*(?:-\\s+)?)${segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*:`);
+        for (let i = current === 0 ? 1 : current; i < end; i++) {
+          const match = lines[i].match(key);
+          if (match) {
+            found = i;
+            column = match[1].length + 1;
+            break;
+          }
+        }
+      }
+
+      if (found === -1) {
+        break;
+      }
+      current = found;
+    }
+
+    return current === 0 ? { line: 1, column: 1 } : { line: current + 1, column };
+  }
+}
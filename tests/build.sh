@@ -0,0 +1,28 @@
+#!/bin/bash
+
+# build.sh
+# Compiles the TypeScript sources to dist/ for the behavioural tests
+
+# Colors for output
+RED='\033[0;31m'
+GREEN='\033[0;32m'
+NC='\033[0m' # No Color
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+
+echo "================================================"
+echo "  rules.d - TypeScript Build"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+
+if npx --no-install tsc; then
+    echo -e "${GREEN}✓${NC} Compiled to dist/"
+    exit 0
+else
+    echo -e "${RED}✗${NC} TypeScript build failed"
+    exit 1
+fi
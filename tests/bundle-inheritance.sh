@@ -0,0 +1,143 @@
+#!/bin/bash
+
+# bundle-inheritance.sh
+# Smoke tests for bundles declared as files: inheritance through extends,
+# broken chains, and rules-cli bundles show
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Bundle Inheritance Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+RULES_DIR="$WORK_DIR/rules"
+OVERRIDE_DIR="$WORK_DIR/override"
+mkdir -p "$RULES_DIR/coding" "$RULES_DIR/writing" "$RULES_DIR/bundles" "$OVERRIDE_DIR/bundles"
+for name in a b c; do
+    printf '# %s Rules\n\nRule %s.\n' "${name^^}" "$name" > "$RULES_DIR/coding/$name-rules.md"
+done
+printf -- '---\ntags: [draft]\n---\n# D Rules\n\nRule d.\n' > "$RULES_DIR/writing/d-rules.md"
+printf '# E Rules\n\nRule e.\n' > "$RULES_DIR/writing/e-rules.md"
+
+cat > "$RULES_DIR/bundles/base.yaml" <<'YAML'
+name: Base
+description: The base bundle
+include: [coding/a-rules, coding/b-rules]
+exclude:
+  rules: [coding/c-rules]
+  tags: [draft]
+order: [coding/b-rules]
+YAML
+cat > "$RULES_DIR/bundles/child.yaml" <<'YAML'
+name: Child
+extends: base
+include: [coding/c-rules]
+exclude:
+  rules: [coding/a-rules]
+YAML
+cat > "$RULES_DIR/bundles/grandchild.yaml" <<'YAML'
+extends: child
+query:
+  categories: [writing]
+order: [writing/e-rules]
+YAML
+printf 'extends: cycle-b\ninclude: [coding/a-rules]\n' > "$RULES_DIR/bundles/cycle-a.yaml"
+printf 'extends: cycle-a\n' > "$RULES_DIR/bundles/cycle-b.yaml"
+printf 'extends: missing\n' > "$RULES_DIR/bundles/orphan.yaml"
+printf 'extends: orphan\n' > "$RULES_DIR/bundles/heir.yaml"
+printf 'context:\n  language: python\n' > "$RULES_DIR/bundles/untyped.yaml"
+printf 'extends: untyped\ncontext:\n  type: coding\n' > "$RULES_DIR/bundles/typed.yaml"
+printf 'include: [coding/a-rules, coding/unknown-rules]\n' > "$RULES_DIR/bundles/dangling.yaml"
+printf 'include: [coding/c-rules]\n' > "$OVERRIDE_DIR/bundles/base.yaml"
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" "$@"
+}
+
+# Load the rules and bundles above and bind helpers for a bundle's rule ids
+# and the messages of its issues
+SETUP="
+import { loadRules } from './dist/index.js';
+console.error = () => {};
+const analyzer = await loadRules({ sources: '$RULES_DIR' });
+const ids = (bundleId) => analyzer.getBundle(bundleId).rules.map((rule) => rule.metadata.id);
+const issues = (bundleId) => analyzer.getBundleIssues().filter((issue) => issue.bundleId === bundleId).map((issue) => issue.message);
+"
+
+check_js "A bundle includes rules, drops excluded ones and applies its order" "$SETUP
+assert.deepEqual(ids('base'), ['coding/b-rules', 'coding/a-rules']);"
+
+check_js "A child's include lifts an inherited exclude and its exclude drops an inherited include" "$SETUP
+assert.deepEqual(ids('child'), ['coding/b-rules', 'coding/c-rules']);"
+
+check_js "Unset fields are inherited, set ones overridden" "$SETUP
+const child = analyzer.getBundle('child');
+assert.equal(child.name, 'Child');
+assert.equal(child.description, 'The base bundle');
+assert.equal(analyzer.getBundle('grandchild').name, 'grandchild');"
+
+check_js "Queries, tag excludes and order carry down the whole chain" "$SETUP
+assert.deepEqual(ids('grandchild'), ['writing/e-rules', 'coding/b-rules', 'coding/c-rules']);"
+
+check_js "Bundles in an inheritance cycle are dropped" "$SETUP
+assert.equal(analyzer.getBundle('cycle-a'), undefined);
+assert.equal(analyzer.getBundle('cycle-b'), undefined);
+assert.deepEqual(issues('cycle-a'), ['Inheritance cycle: cycle-a -> cycle-b -> cycle-a']);"
+
+check_js "Extending an unknown bundle drops the whole chain" "$SETUP
+assert.equal(analyzer.getBundle('orphan'), undefined);
+assert.equal(analyzer.getBundle('heir'), undefined);
+assert.deepEqual(issues('orphan'), ['orphan extends unknown bundle missing']);
+assert.deepEqual(issues('heir'), ['orphan extends unknown bundle missing']);"
+
+check_js "A context needs a type somewhere in the chain" "$SETUP
+assert.equal(analyzer.getBundle('untyped'), undefined);
+assert.deepEqual(issues('untyped'), ['context.type is required, directly or through extends']);"
+
+check_js "Extending an invalid bundle drops the bundle" "$SETUP
+assert.equal(analyzer.getBundle('typed'), undefined);
+assert.deepEqual(issues('typed'), ['extends invalid bundle untyped']);"
+
+check_js "Unknown rule ids are a warning, and the bundle is kept" "$SETUP
+assert.deepEqual(ids('dangling'), ['coding/a-rules']);
+const [issue] = analyzer.getBundleIssues().filter((i) => i.bundleId === 'dangling');
+assert.equal(issue.severity, 'warning');
+assert.equal(issue.message, 'include: unknown rule id \"coding/unknown-rules\"');"
+
+check_js "A bundle in a later source replaces one with the same id, for its heirs too" "
+import { loadRules } from './dist/index.js';
+console.error = () => {};
+const analyzer = await loadRules({ sources: [{ name: 'rules', path: '$RULES_DIR' }, { name: 'override', path: '$OVERRIDE_DIR' }] });
+assert.deepEqual(analyzer.getBundle('base').rules.map((rule) => rule.metadata.id), ['coding/c-rules']);
+assert.deepEqual(analyzer.getBundle('child').rules.map((rule) => rule.metadata.id), ['coding/c-rules']);"
+
+check "bundles show lists the resolved rules" test "$(rules_cli bundles show child --quiet 2>/dev/null)" = "$(printf 'coding/b-rules\ncoding/c-rules')"
+check "bundles show names the extended bundle" contains "$(rules_cli bundles show child 2>/dev/null)" '^Extends: base$'
+check "bundles show fails on a dropped bundle" fails rules_cli bundles show cycle-a
+check "Broken bundles are reported on load" contains "$(rules_cli bundles show base 2>&1 >/dev/null)" 'Bundle cycle-a (.*cycle-a.yaml): Inheritance cycle'
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Bundle Inheritance Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Bundle inheritance tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All bundle inheritance tests passed!${NC}"
+    exit 0
+fi
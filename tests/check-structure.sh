@@ -106,6 +106,7 @@ echo ""
 # Check optional directories
 check_dir "docs" "optional"
 check_dir "tests" "optional"
+check_dir "bundles" "optional"
 check_dir ".github" "optional"
 check_dir ".github/workflows" "optional"
 
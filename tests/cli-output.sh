@@ -0,0 +1,130 @@
+#!/bin/bash
+
+# cli-output.sh
+# Smoke tests for the CLI output formats: the JSON and YAML output match the
+# structured results of the MCP tools, and raw output round-trips
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - CLI Output Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js "$@"
+}
+
+RULE=coding/python-rules
+
+# Save the CLI output once; the checks below read the files
+rules_cli list --format json > "$WORK_DIR/list.json"
+rules_cli list --category coding --tags best-practices --sort title --order desc --limit 3 --format json > "$WORK_DIR/list-page.json"
+rules_cli list --category coding --tags best-practices --sort title --order desc --limit 3 --format yaml > "$WORK_DIR/list-page.yaml"
+rules_cli list --category coding --tags best-practices --sort title --order desc --limit 3 --quiet > "$WORK_DIR/list-page.txt" 2>/dev/null
+rules_cli list --category coding writing --language python go --priority medium high --format json > "$WORK_DIR/list-many.json"
+rules_cli search "error handling" --language python --format json > "$WORK_DIR/search.json"
+rules_cli get "$RULE" --format json > "$WORK_DIR/get.json"
+rules_cli get "$RULE" --format yaml > "$WORK_DIR/get.yaml"
+rules_cli get "$RULE" --section error-handling --format json > "$WORK_DIR/section.json"
+rules_cli get "$RULE" --raw > "$WORK_DIR/raw.md"
+rules_cli get "$RULE" --section error-handling --raw > "$WORK_DIR/section-raw.md"
+
+# The same queries through the MCP server
+cat > "$WORK_DIR/requests.jsonl" <<JSON
+{"jsonrpc":"2.0","id":0,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{},"clientInfo":{"name":"cli-output","version":"1.0.0"}}}
+{"jsonrpc":"2.0","method":"notifications/initialized"}
+{"jsonrpc":"2.0","id":1,"method":"tools/call","params":{"name":"list_rules","arguments":{}}}
+{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"list_rules","arguments":{"category":"coding","tags":["best-practices"],"sort":"title","order":"desc","limit":3}}}
+{"jsonrpc":"2.0","id":3,"method":"tools/call","params":{"name":"search_rules","arguments":{"query":"error handling","language":"python"}}}
+{"jsonrpc":"2.0","id":4,"method":"tools/call","params":{"name":"get_rule","arguments":{"ruleId":"$RULE"}}}
+{"jsonrpc":"2.0","id":5,"method":"tools/call","params":{"name":"get_rule_section","arguments":{"ruleId":"$RULE","anchor":"error-handling"}}}
+{"jsonrpc":"2.0","id":6,"method":"tools/call","params":{"name":"list_rules","arguments":{"category":["coding","writing"],"language":["python","go"],"priority":["medium","high"]}}}
+JSON
+timeout 60 node dist/mcp/server.js --no-watch < "$WORK_DIR/requests.jsonl" > "$WORK_DIR/responses.jsonl" 2>/dev/null
+
+# Reads the CLI output in a file and the structured content of the tool result with an id
+HELPERS="
+import fs from 'node:fs';
+import yaml from 'js-yaml';
+const output = (name) => fs.readFileSync('$WORK_DIR/' + name, 'utf-8');
+const tool = (id) => output('responses.jsonl').split('\n').filter(Boolean)
+  .map((line) => JSON.parse(line)).find((message) => message.id === id).result.structuredContent;"
+
+check_js "list --format json matches list_rules" "$HELPERS
+const cli = JSON.parse(output('list.json'));
+assert.ok(cli.rules.length > 0);
+assert.deepEqual(cli, tool(1));"
+check_js "list --format json matches list_rules with filters, sorting and a page" "$HELPERS
+const cli = JSON.parse(output('list-page.json'));
+assert.equal(cli.rules.length, 3);
+assert.ok(cli.nextCursor);
+assert.deepEqual(cli, tool(2));"
+check_js "list with several values per filter matches list_rules with arrays" "$HELPERS
+const cli = JSON.parse(output('list-many.json'));
+assert.ok(cli.rules.some((rule) => rule.category === 'coding') && cli.rules.some((rule) => rule.category === 'writing'));
+assert.ok(cli.rules.every((rule) => ['coding', 'writing'].includes(rule.category)));
+assert.deepEqual(cli, tool(6));"
+check_js "list --format yaml holds the same data as JSON" "$HELPERS
+assert.deepEqual(yaml.load(output('list-page.yaml')), JSON.parse(output('list-page.json')));"
+check_js "list --quiet prints only the ids of the page" "$HELPERS
+assert.deepEqual(output('list-page.txt').trim().split('\n'), tool(2).rules.map((rule) => rule.id));"
+check_js "search --format json matches search_rules" "$HELPERS
+const cli = JSON.parse(output('search.json'));
+assert.ok(cli.rules.length > 0);
+assert.deepEqual(cli, tool(3));"
+check_js "get --format json matches get_rule" "$HELPERS
+assert.deepEqual(JSON.parse(output('get.json')), tool(4));"
+check_js "get --format yaml holds the same data as JSON" "$HELPERS
+assert.deepEqual(yaml.load(output('get.yaml')), JSON.parse(output('get.json')));"
+check_js "get --section --format json matches get_rule_section" "$HELPERS
+assert.deepEqual(JSON.parse(output('section.json')), tool(5));"
+
+check_js "get --raw prints exactly the content of the rule" "$HELPERS
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules();
+assert.equal(output('raw.md'), analyzer.getRule('$RULE').content);"
+check_js "get --section --raw prints exactly the markdown of the section" "$HELPERS
+const raw = output('section-raw.md');
+assert.match(raw, /^## Error Handling\n/);
+assert.ok(output('raw.md').includes(raw));
+assert.ok(!raw.includes('## Best Practices'));"
+
+# Raw output saved as a rule file reads back unchanged
+mkdir -p "$WORK_DIR/rules/coding"
+{
+    printf -- '---\ndescription: A copy of the Python rules\n---\n'
+    cat "$WORK_DIR/raw.md"
+} > "$WORK_DIR/rules/coding/copied-rules.md"
+rules_cli --rules-dir "$WORK_DIR/rules" get coding/copied-rules --raw > "$WORK_DIR/copied-raw.md"
+check "get --raw round-trips through a rule file" cmp "$WORK_DIR/raw.md" "$WORK_DIR/copied-raw.md"
+check_js "A rule read back from raw output has the same sections" "$HELPERS
+assert.deepEqual(
+  JSON.parse(output('get.json')).sections,
+  JSON.parse(fs.readFileSync(0, 'utf-8')).sections
+);" < <(rules_cli --rules-dir "$WORK_DIR/rules" get coding/copied-rules --format json)
+
+# Summary
+echo ""
+echo "================================================"
+echo "  CLI Output Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}CLI output tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All CLI output tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,104 @@
+#!/bin/bash
+
+# compliance-check.sh
+# Smoke tests for checking code against the checks declared by rules,
+# including checks whose frontmatter is malformed
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Compliance Check Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+RULES_DIR="$WORK_DIR/rules"
+PROJECT_DIR="$WORK_DIR/project"
+mkdir -p "$RULES_DIR/coding" "$PROJECT_DIR"
+
+cat > "$RULES_DIR/coding/checked-rules.md" <<'MD'
+---
+description: Rules with valid and malformed checks
+tags: [testing]
+checks:
+  - id: no-todo
+    type: pattern
+    pattern: TODO
+    flags: gi
+  - id: no-pattern
+    type: pattern
+  - id: files-not-a-list
+    type: pattern
+    pattern: FIXME
+    files: "*.py"
+---
+# Checked Rules
+
+Leave no TODO comments behind.
+MD
+
+printf 'todo: one\nTODO: two\nTodo: three\n' > "$PROJECT_DIR/notes.py"
+printf 'print("undefined")\n' > "$PROJECT_DIR/other.py"
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" "$@"
+}
+
+rules_cli check "$PROJECT_DIR" --rule coding/checked-rules --format json > "$WORK_DIR/check.json" 2>"$WORK_DIR/check.err"
+
+# Run a snippet of JavaScript against the JSON diagnostics, bound to `diagnostics`
+check_diagnostics() {
+    check_js "$1" "
+const { diagnostics } = JSON.parse((await import('node:fs')).readFileSync('$WORK_DIR/check.json', 'utf-8'));
+$2"
+}
+
+check_diagnostics "A global pattern matches every line it should" "
+assert.deepEqual(diagnostics.filter((d) => d.code === 'no-todo').map((d) => d.line), [1, 2, 3]);"
+check_diagnostics "A check without a pattern is reported and skipped" "
+assert.ok(diagnostics.some((d) => d.code === 'invalid-check' && d.message.startsWith('checks[1].pattern')));
+assert.ok(!diagnostics.some((d) => d.code === 'no-pattern'));"
+check_diagnostics "A check whose files are not a list is reported and skipped" "
+assert.ok(diagnostics.some((d) => d.code === 'invalid-check' && d.message.startsWith('checks[2].files')));
+assert.ok(!diagnostics.some((d) => d.code === 'files-not-a-list'));"
+check_diagnostics "Invalid checks are errors against the rule file" "
+const invalid = diagnostics.filter((d) => d.code === 'invalid-check');
+assert.equal(invalid.length, 2);
+assert.ok(invalid.every((d) => d.severity === 'error' && d.filePath === 'coding/checked-rules.md'));"
+check "Invalid checks fail the check command" fails rules_cli check "$PROJECT_DIR" --rule coding/checked-rules
+check "The check command does not crash" fails test -s "$WORK_DIR/check.err"
+
+DIFF='--- a/app.py
++++ b/app.py
+@@ -1,1 +1,3 @@
+ import os
++# todo: first
++# TODO: second'
+check "A global pattern matches every added line of a diff" test "$(rules_cli check --diff - --rule coding/checked-rules --format json <<< "$DIFF" | node -e "
+const { diagnostics } = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+console.log(diagnostics.filter((d) => d.code === 'no-todo').length);
+")" = 2
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Compliance Check Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Compliance check tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All compliance check tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,81 @@
+#!/bin/bash
+
+# composer-budget.sh
+# Smoke tests for packing recommended bundles into a token budget
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Token Budget Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+export RULES_D_CACHE_DIR="$(mktemp -d)"
+trap 'rm -rf "$RULES_D_CACHE_DIR"' EXIT
+
+check_js "Used tokens stay within the budget and add up the allocations" "
+import { loadRules, recommend } from './dist/index.js';
+const analyzer = await loadRules();
+for (const tokenEstimator of ['chars', 'words']) {
+  for (const maxTokens of [50, 2000, 6000]) {
+    const { composition } = recommend(analyzer, { type: 'coding', language: 'python', maxTokens, tokenEstimator });
+    assert.ok(composition.usedTokens <= maxTokens);
+    assert.equal(composition.usedTokens, composition.allocations.reduce((sum, a) => sum + a.tokens, 0));
+  }
+}"
+
+check_js "A rule never reports more tokens than it has" "
+import { loadRules, recommend } from './dist/index.js';
+const analyzer = await loadRules();
+const { composition } = recommend(analyzer, { type: 'coding', language: 'python', maxTokens: 3000 });
+for (const allocation of composition.allocations) {
+  assert.ok(allocation.tokens <= allocation.totalTokens, allocation.ruleId);
+  if (allocation.status === 'included') assert.equal(allocation.tokens, allocation.totalTokens, allocation.ruleId);
+  if (allocation.status === 'omitted') assert.equal(allocation.tokens, 0, allocation.ruleId);
+}"
+
+check_js "A budget larger than the rules includes every rule whole" "
+import { loadRules, recommend } from './dist/index.js';
+const analyzer = await loadRules();
+const { composition } = recommend(analyzer, { type: 'coding', language: 'python', maxTokens: 1000000 });
+assert.ok(composition.allocations.every((a) => a.status === 'included' && a.omittedSections.length === 0));"
+
+check_js "An export of a budgeted bundle holds only the packed sections" "
+import { loadRules, recommend, renderExport } from './dist/index.js';
+const analyzer = await loadRules();
+const packed = recommend(analyzer, { type: 'coding', language: 'python', maxTokens: 800 });
+const unpacked = { ...packed, composition: undefined };
+assert.ok(packed.composition.allocations.some((a) => a.status === 'truncated'));
+for (const format of ['claude', 'cursor']) {
+  const length = (bundle) => renderExport(bundle, format).reduce((sum, file) => sum + file.content.length, 0);
+  assert.ok(length(packed) < length(unpacked), format);
+  // About four characters a token, plus the markers and frontmatter
+  assert.ok(length(packed) < 800 * 4 + 1000, format);
+}"
+
+check "rules-cli recommend packs a budget" node dist/cli/index.js recommend -t coding --max-tokens 500
+check "rules-cli recommend rejects a budget that is not a number" fails node dist/cli/index.js recommend -t coding --max-tokens abc
+check "rules-cli recommend rejects a budget of zero" fails node dist/cli/index.js recommend -t coding --max-tokens 0
+check "rules-cli export reports a bundle that is not declared" fails node dist/cli/index.js export --bundle constructor --target claude --dry-run
+check "rules-cli recommend rejects an unknown token estimator" fails node dist/cli/index.js recommend -t coding --max-tokens 500 --token-estimator bytes
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Token Budget Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Token budget tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All token budget tests passed!${NC}"
+    exit 0
+fi
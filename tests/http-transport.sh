@@ -0,0 +1,129 @@
+#!/bin/bash
+
+# http-transport.sh
+# Smoke tests for serving the MCP server over HTTP
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - HTTP Transport Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+export RULES_D_CACHE=0
+
+SERVER_PID=""
+WORK_DIR="$(mktemp -d)"
+
+cleanup() {
+    if [ -n "$SERVER_PID" ]; then
+        kill "$SERVER_PID" 2>/dev/null
+        wait "$SERVER_PID" 2>/dev/null
+    fi
+    rm -rf "$WORK_DIR"
+}
+trap cleanup EXIT
+
+# Start the server on a free port with the given options and wait until it is healthy
+start_server() {
+    PORT=$(node -e "const s = require('net').createServer().listen(0, () => { console.log(s.address().port); s.close(); })")
+    URL="http://127.0.0.1:$PORT"
+    node dist/mcp/server.js --http --port "$PORT" --no-watch "$@" 2>"$WORK_DIR/server.log" &
+    SERVER_PID=$!
+    for _ in $(seq 1 50); do
+        curl -s --max-time 1 "$URL/health" >/dev/null && return 0
+        sleep 0.2
+    done
+    return 1
+}
+
+stop_server() {
+    kill "$SERVER_PID" 2>/dev/null
+    wait "$SERVER_PID" 2>/dev/null
+    SERVER_PID=""
+}
+
+# POST a JSON-RPC body to /mcp, with extra curl arguments (headers) before it
+mcp_post() {
+    local body="${!#}"
+    curl -s --max-time 10 -X POST "$URL/mcp" \
+        -H 'Content-Type: application/json' \
+        -H 'Accept: application/json, text/event-stream' \
+        "${@:1:$#-1}" -d "$body"
+}
+
+# Initialize a session and print its id
+initialize() {
+    local init='{"jsonrpc":"2.0","id":1,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{},"clientInfo":{"name":"test","version":"1.0.0"}}}'
+    local session
+    mcp_post -D "$WORK_DIR/headers" "$@" "$init" >/dev/null
+    session=$(tr -d '\r' < "$WORK_DIR/headers" | awk 'tolower($1) == "mcp-session-id:" { print $2 }')
+    mcp_post -H "Mcp-Session-Id: $session" "$@" '{"jsonrpc":"2.0","method":"notifications/initialized"}' >/dev/null
+    echo "$session"
+}
+
+TOOLS_LIST='{"jsonrpc":"2.0","id":2,"method":"tools/list"}'
+
+echo "Without a token..."
+start_server --session-timeout 1
+check "Server starts and answers the health check" contains "$(curl -s "$URL/health")" '"status":"ok"'
+
+SESSION=$(initialize)
+check "initialize opens a session" test -n "$SESSION"
+
+TOOLS=$(mcp_post -H "Mcp-Session-Id: $SESSION" "$TOOLS_LIST")
+check "Tools are listed in the session" contains "$TOOLS" '"list_rules"'
+check "Tools reading local files are not listed without a token" lacks "$TOOLS" '"check_compliance"'
+
+CALL=$(mcp_post -H "Mcp-Session-Id: $SESSION" '{"jsonrpc":"2.0","id":3,"method":"tools/call","params":{"name":"detect_project_context","arguments":{"path":"/"}}}')
+check "Tools reading local files are refused without a token" contains "$CALL" 'needs a bearer token'
+
+CALL=$(mcp_post -H "Mcp-Session-Id: $SESSION" "{\"jsonrpc\":\"2.0\",\"id\":4,\"method\":\"tools/call\",\"params\":{\"name\":\"export_bundle\",\"arguments\":{\"ruleIds\":[\"coding/git-rules\"],\"formats\":[\"claude\"],\"targetDir\":\"$WORK_DIR/export\"}}}")
+check "export_bundle refuses targetDir without a token" contains "$CALL" '"code":-32602'
+check "export_bundle wrote no files" test ! -e "$WORK_DIR/export"
+
+STATUS=$(curl -s --max-time 5 -o /dev/null -w '%{http_code}' -X POST "$URL/mcp" \
+    -H 'Content-Type: application/json' -H 'Accept: application/json, text/event-stream' -d 'null')
+check "A body of JSON null gets a response instead of hanging" test "$STATUS" = "400"
+
+STATUS=$(curl -s --max-time 5 -o /dev/null -w '%{http_code}' -X POST "$URL/mcp" -H 'Content-Type: application/json' -d '{')
+check "Malformed JSON is a parse error" test "$STATUS" = "400"
+
+sleep 3
+STATUS=$(curl -s --max-time 5 -o /dev/null -w '%{http_code}' -X POST "$URL/mcp" \
+    -H 'Content-Type: application/json' -H 'Accept: application/json, text/event-stream' \
+    -H "Mcp-Session-Id: $SESSION" -d "$TOOLS_LIST")
+check "Idle sessions are closed after the session timeout" test "$STATUS" = "404"
+stop_server
+
+echo ""
+echo "With a token..."
+start_server --token secret
+STATUS=$(curl -s --max-time 5 -o /dev/null -w '%{http_code}' -X POST "$URL/mcp" -H 'Content-Type: application/json' -d "$TOOLS_LIST")
+check "Requests without the token are unauthorized" test "$STATUS" = "401"
+
+SESSION=$(initialize -H 'Authorization: Bearer secret')
+TOOLS=$(mcp_post -H "Mcp-Session-Id: $SESSION" -H 'Authorization: Bearer secret' "$TOOLS_LIST")
+check "Tools reading local files are listed with a token" contains "$TOOLS" '"check_compliance"'
+stop_server
+
+# Summary
+echo ""
+echo "================================================"
+echo "  HTTP Transport Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}HTTP transport tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All HTTP transport tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,44 @@
+#!/bin/bash
+
+# lib.sh
+# Helpers shared by the smoke tests; source it after setting SCRIPT_DIR
+
+# Colors for output
+RED='\033[0;31m'
+GREEN='\033[0;32m'
+NC='\033[0m' # No Color
+
+PASSED=0
+FAILED=0
+
+# Run a command and record whether it succeeded
+check() {
+    local description="$1"
+    shift
+
+    if "$@" >/dev/null 2>&1; then
+        echo -e "${GREEN}✓${NC} $description"
+        PASSED=$((PASSED + 1))
+    else
+        echo -e "${RED}✗${NC} $description"
+        FAILED=$((FAILED + 1))
+    fi
+}
+
+# Run a snippet of JavaScript against the built package; it fails by throwing
+check_js() {
+    check "$1" node --input-type=module -e "import assert from 'node:assert/strict'; $2"
+}
+
+fails() {
+    ! "$@"
+}
+
+# Whether the text contains a match of the pattern
+contains() {
+    grep -q -- "$2" <<< "$1"
+}
+
+lacks() {
+    ! grep -q -- "$2" <<< "$1"
+}
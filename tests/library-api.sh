@@ -0,0 +1,107 @@
+#!/bin/bash
+
+# library-api.sh
+# Smoke tests for the public API of the package, as a library user imports it
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Library API Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+export RULES_D_CACHE_DIR="$(mktemp -d)"
+trap 'rm -rf "$RULES_D_CACHE_DIR"' EXIT
+
+# A rule file as a property of the files option, to paste into the snippets below
+TEAM_RULES="'coding/team-rules.md': '---\ndescription: Conventions of the team\ntags: [naming]\n---\n# Team Rules\n\n## Naming\n\n- Name things for what they do\n'"
+
+check_js "The package entry point loads by name" "
+const api = await import('rules.d');
+for (const name of ['loadRules', 'query', 'recommend', 'createMemorySource', 'RuleAnalyzer', 'renderExport']) {
+  assert.ok(api[name], name);
+}"
+
+check_js "Modules other than the entry point are not importable" "
+await assert.rejects(import('rules.d/dist/utils/rule-loader.js'), { code: 'ERR_PACKAGE_PATH_NOT_EXPORTED' });"
+
+check_js "loadRules loads the bundled rules by default" "
+import { loadRules, query } from './dist/index.js';
+const analyzer = await loadRules();
+assert.ok(analyzer.getRule('coding/python-rules'));
+assert.ok(query(analyzer, { filter: { category: 'coding' } }).total > 0);"
+
+check_js "recommend ranks rules for a task" "
+import { loadRules, recommend } from './dist/index.js';
+const analyzer = await loadRules();
+const bundle = recommend(analyzer, { type: 'coding', language: 'python' });
+assert.ok(bundle.rules.some((rule) => rule.metadata.id === 'coding/python-rules'));"
+
+check_js "In-memory files alone are the only rules" "
+import { loadRules, MEMORY_SOURCE_NAME } from './dist/index.js';
+const analyzer = await loadRules({ files: { $TEAM_RULES } });
+assert.deepEqual(analyzer.getAllRules().map((rule) => rule.metadata.id), ['coding/team-rules']);
+assert.equal(analyzer.getRule('coding/team-rules').source, MEMORY_SOURCE_NAME);"
+
+check_js "In-memory files layer over directory sources" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ sources: '.', files: { $TEAM_RULES } });
+assert.equal(analyzer.getRule('coding/team-rules').source, 'memory');
+assert.ok(analyzer.getRule('coding/python-rules'));"
+
+check_js "A rule from an in-memory source can be inspected" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $TEAM_RULES } });
+const inspection = analyzer.inspectRule('coding/team-rules');
+assert.equal(inspection.source, 'memory');
+const tags = inspection.fields.find((field) => field.field === 'tags');
+assert.equal(tags.origin, 'frontmatter');
+assert.deepEqual(tags.declared, ['naming']);"
+
+check_js "A named memory source layers over a directory source" "
+import * as path from 'path';
+import { createMemorySource, loadRules } from './dist/index.js';
+const analyzer = await loadRules({ sources: [{ name: 'bundled', path: path.resolve('.') }, createMemorySource({ $TEAM_RULES }, 'team')] });
+assert.equal(analyzer.getRule('coding/team-rules').source, 'team');
+assert.ok(analyzer.inspectRule('coding/team-rules'));"
+
+check_js "Bundles of an in-memory source come from its files" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({
+  sources: '.',
+  files: { $TEAM_RULES, 'bundles/team.yaml': 'name: Team\\ndescription: Rules of the team\\ninclude: [coding/team-rules]\\n' },
+});
+assert.deepEqual(analyzer.getBundle('team').rules.map((rule) => rule.metadata.id), ['coding/team-rules']);
+assert.ok(analyzer.getBundle('data-analysis'));
+assert.deepEqual(analyzer.getBundleIssues(), []);"
+
+# A memory source named after a directory must not read that directory's bundles
+mkdir -p "$RULES_D_CACHE_DIR/bundles"
+printf 'name: On disk\ndescription: Read from disk\ninclude: [coding/team-rules]\n' > "$RULES_D_CACHE_DIR/bundles/on-disk.yaml"
+check_js "Bundles of an in-memory source are never read from disk" "
+import { createMemorySource, loadRules } from './dist/index.js';
+const source = createMemorySource({ $TEAM_RULES }, '${RULES_D_CACHE_DIR#/}');
+assert.equal(source.path, '$RULES_D_CACHE_DIR');
+const analyzer = await loadRules({ sources: [source] });
+assert.equal(analyzer.getBundle('on-disk'), undefined);"
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Library API Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Library API tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All library API tests passed!${NC}"
+    exit 0
+fi
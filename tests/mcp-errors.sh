@@ -0,0 +1,116 @@
+#!/bin/bash
+
+# mcp-errors.sh
+# Smoke tests for the JSON-RPC errors the MCP server returns over stdio
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - MCP Error Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+export RULES_D_CACHE=0
+
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+
+# Whether the response with the given id is an error with the given code,
+# or a result when the code is "result"; a third argument is matched
+# against the error data
+responds() {
+    node -e "
+const [id, code, data] = process.argv.slice(1);
+const response = require('fs').readFileSync('$WORK_DIR/responses.jsonl', 'utf-8')
+  .split('\n').filter(Boolean).map((line) => JSON.parse(line)).find((message) => message.id === Number(id));
+if (!response) process.exit(1);
+if (code === 'result') process.exit(response.result && !response.result.isError ? 0 : 1);
+if (response.error?.code !== Number(code)) process.exit(1);
+if (data && !JSON.stringify(response.error.data).includes(data)) process.exit(1);
+" "$@"
+}
+
+# One session: the server reads every request, answers and exits at the end of input
+cat > "$WORK_DIR/requests.jsonl" <<'JSON'
+{"jsonrpc":"2.0","id":0,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{},"clientInfo":{"name":"mcp-errors","version":"1.0.0"}}}
+{"jsonrpc":"2.0","method":"notifications/initialized"}
+{"jsonrpc":"2.0","id":1,"method":"tools/call","params":{"name":"get_rule","arguments":{"ruleId":"coding/python-rules"}}}
+{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"get_rule_sections","arguments":{}}}
+{"jsonrpc":"2.0","id":3,"method":"tools/call","params":{"name":"get_rule","arguments":{"ruleId":42}}}
+{"jsonrpc":"2.0","id":4,"method":"tools/call","params":{"name":"get_rule","arguments":{}}}
+{"jsonrpc":"2.0","id":5,"method":"tools/call","params":{"name":"check_compliance","arguments":{"path":"a.py","diff":"+x"}}}
+{"jsonrpc":"2.0","id":6,"method":"tools/call","params":{"name":"get_rule","arguments":{"ruleId":"coding/pythn-rules"}}}
+{"jsonrpc":"2.0","id":7,"method":"tools/call","params":{"name":"get_rule_changes","arguments":{"since":"no-such-revision"}}}
+{"jsonrpc":"2.0","id":8,"method":"tools/call","params":{"name":"get_rule_changes","arguments":{"since":"--output=x"}}}
+{"jsonrpc":"2.0","id":9,"method":"resources/read","params":{"uri":"rule:///"}}
+{"jsonrpc":"2.0","id":10,"method":"resources/read","params":{"uri":"nope://x"}}
+{"jsonrpc":"2.0","id":11,"method":"resources/subscribe","params":{"uri":"rule:///coding/python-rules/section/"}}
+{"jsonrpc":"2.0","id":12,"method":"resources/read","params":{"uri":"rule:///coding/no-such-rules"}}
+{"jsonrpc":"2.0","id":13,"method":"tools/call","params":{"name":"list_rules","arguments":{"cursor":"garbage"}}}
+{"jsonrpc":"2.0","id":14,"method":"tools/call","params":{"name":"list_rules","arguments":{"sort":"relevance"}}}
+{"jsonrpc":"2.0","id":15,"method":"tools/call","params":{"name":"list_rules","arguments":{"updatedSince":"2024-13-45"}}}
+{"jsonrpc":"2.0","id":16,"method":"tools/call","params":{"name":"detect_project_context","arguments":{"path":"/no/such/project"}}}
+{"jsonrpc":"2.0","id":17,"method":"tools/call","params":{"name":"check_compliance","arguments":{"path":"/no/such/project"}}}
+{"jsonrpc":"2.0","id":18,"method":"resources/list","params":{"cursor":"zzz"}}
+{"jsonrpc":"2.0","id":19,"method":"tools/call","params":{"name":"search_rules","arguments":{"query":"testing","limit":2,"cursor":"garbage"}}}
+{"jsonrpc":"2.0","id":20,"method":"prompts/get","params":{"name":"apply-rule"}}
+{"jsonrpc":"2.0","id":21,"method":"prompts/get","params":{"name":"apply-rules","arguments":{"type":"bogus"}}}
+{"jsonrpc":"2.0","id":22,"method":"prompts/get","params":{"name":"apply-rules","arguments":{"maxTokens":"lots"}}}
+{"jsonrpc":"2.0","id":23,"method":"prompts/get","params":{"name":"apply-rules","arguments":{"language":"python"}}}
+JSON
+
+# A well-formed cursor handed out for sorting by title, used where rules are sorted by id
+TITLE_CURSOR="$(node -e "console.log(Buffer.from(JSON.stringify(['title', 'asc', 'A', 'a'])).toString('base64url'))")"
+cat >> "$WORK_DIR/requests.jsonl" <<JSON
+{"jsonrpc":"2.0","id":24,"method":"tools/call","params":{"name":"list_rules","arguments":{"sort":"id","cursor":"$TITLE_CURSOR"}}}
+{"jsonrpc":"2.0","id":25,"method":"resources/list","params":{"cursor":"$TITLE_CURSOR"}}
+JSON
+
+timeout 60 node dist/mcp/server.js --no-watch < "$WORK_DIR/requests.jsonl" > "$WORK_DIR/responses.jsonl" 2>/dev/null
+
+check "A valid call returns a result" responds 1 result
+check "An unknown tool is invalid params, with suggestions" responds 2 -32602 get_rule_section
+check "An argument of the wrong type is invalid params, by path" responds 3 -32602 '"path":"ruleId"'
+check "A missing argument is invalid params, by path" responds 4 -32602 '"path":"ruleId"'
+check "A failed refinement is invalid params" responds 5 -32602 'Exactly one of path or diff is required'
+check "An unknown rule is not found, with suggestions" responds 6 -32002 coding/python-rules
+check "An unknown revision is invalid params on since" responds 7 -32602 '"path":"since"'
+check "A malformed revision is invalid params on since" responds 8 -32602 '"path":"since"'
+check "A malformed resource URI is invalid params" responds 9 -32602 '"uri":"rule:///"'
+check "An unknown URI scheme is invalid params" responds 10 -32602 '"uri":"nope://x"'
+check "Subscribing to a malformed URI is invalid params" responds 11 -32602
+check "Reading an unknown rule is not found" responds 12 -32002
+check "A malformed list cursor is invalid params on cursor" responds 13 -32602 '"path":"cursor"'
+check "Sorting by relevance without a query is invalid params on sort" responds 14 -32602 '"path":"sort"'
+check "An impossible date is invalid params on updatedSince" responds 15 -32602 '"path":"updatedSince"'
+check "A missing project directory is invalid params on path" responds 16 -32602 '"path":"path"'
+check "A missing directory to check is invalid params on path" responds 17 -32602 '"path":"path"'
+check "A malformed resources/list cursor is invalid params" responds 18 -32602 '"cursor":"zzz"'
+check "A malformed search cursor is invalid params on cursor" responds 19 -32602 '"path":"cursor"'
+check "An unknown prompt is invalid params, with suggestions" responds 20 -32602 apply-rules
+check "A bad prompt argument is invalid params, by name" responds 21 -32602 '"path":"type"'
+check "A malformed token budget for a prompt is invalid params" responds 22 -32602 '"path":"maxTokens"'
+check "A valid prompt renders" responds 23 result
+check "A list cursor for a different sort is invalid params on cursor" responds 24 -32602 '"path":"cursor"'
+check "A resources/list cursor for a different sort is invalid params" responds 25 -32602 "\"cursor\":\"$TITLE_CURSOR\""
+
+# Summary
+echo ""
+echo "================================================"
+echo "  MCP Error Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}MCP error tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All MCP error tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,118 @@
+#!/bin/bash
+
+# mcp-prompts.sh
+# Smoke tests for MCP prompts: the prompt list, embedded rule resources
+# under a token budget, and the task message
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - MCP Prompt Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+# A bundle declared next to the bundled ones
+RULES_DIR="$WORK_DIR/rules"
+mkdir -p "$RULES_DIR/bundles"
+cat > "$RULES_DIR/bundles/team-python.yaml" <<'YAML'
+name: Team Python
+description: Python rules of the team
+include: [coding/python-rules, coding/testing-rules]
+YAML
+
+TASK="Add retries to the HTTP client"
+
+# The server answers every request and exits at the end of input
+cat > "$WORK_DIR/requests.jsonl" <<JSON
+{"jsonrpc":"2.0","id":0,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{},"clientInfo":{"name":"mcp-prompts","version":"1.0.0"}}}
+{"jsonrpc":"2.0","method":"notifications/initialized"}
+{"jsonrpc":"2.0","id":1,"method":"prompts/list"}
+{"jsonrpc":"2.0","id":2,"method":"prompts/get","params":{"name":"apply-rules","arguments":{"language":"python","maxTokens":"1500","task":"$TASK"}}}
+{"jsonrpc":"2.0","id":3,"method":"prompts/get","params":{"name":"apply-rules","arguments":{"language":"python"}}}
+{"jsonrpc":"2.0","id":4,"method":"prompts/get","params":{"name":"bundle-team-python","arguments":{"task":"$TASK"}}}
+JSON
+timeout 60 node dist/mcp/server.js --no-watch --rules-dir "$RULES_DIR" < "$WORK_DIR/requests.jsonl" > "$WORK_DIR/responses.jsonl" 2>/dev/null
+
+# Bind the result of the response with an id, and an analyzer loaded as the server loads it
+HELPERS="
+import fs from 'node:fs';
+import { RuleAnalyzer } from './dist/index.js';
+import { loadConfig } from './dist/config/rules-config.js';
+const result = (id) => fs.readFileSync('$WORK_DIR/responses.jsonl', 'utf8').split('\n').filter(Boolean)
+  .map((line) => JSON.parse(line)).find((message) => message.id === id).result;
+const config = loadConfig({ builtinDir: '.', rulesDirs: ['$RULES_DIR'] });
+const analyzer = new RuleAnalyzer(config.sources, config);
+await analyzer.initialize();
+const resources = (messages) => messages.filter((message) => message.content.type === 'resource')
+  .map((message) => message.content.resource);"
+
+check_js "prompts/list has apply-rules and one prompt per declared bundle" "$HELPERS
+const names = result(1).prompts.map((prompt) => prompt.name);
+const bundles = analyzer.getBundleDeclarations().map((declaration) => 'bundle-' + declaration.id);
+assert.ok(bundles.includes('bundle-team-python'));
+assert.ok(bundles.includes('bundle-api-development'));
+assert.deepEqual(names, ['apply-rules', ...bundles]);"
+
+check_js "Bundle prompts describe their bundle and take a task" "$HELPERS
+const prompt = result(1).prompts.find((prompt) => prompt.name === 'bundle-team-python');
+assert.equal(prompt.description, 'Python rules of the team');
+assert.deepEqual(prompt.arguments.map((argument) => argument.name), ['task']);"
+
+check_js "maxTokens embeds only the packed sections of the rules it keeps" "$HELPERS
+const bundle = analyzer.recommendBundle({ type: 'coding', language: 'python', maxTokens: 1500 });
+const allocations = bundle.composition.allocations;
+const kept = allocations.filter((allocation) => allocation.status !== 'omitted');
+assert.ok(allocations.some((allocation) => allocation.status === 'omitted'));
+assert.ok(kept.some((allocation) => allocation.status === 'truncated'));
+assert.deepEqual(resources(result(2).messages), kept.map((allocation) => ({
+  uri: 'rule:///' + allocation.ruleId,
+  mimeType: 'text/markdown',
+  text: allocation.content,
+})));"
+
+check_js "Omitted rules are left out of the rule list too" "$HELPERS
+const bundle = analyzer.recommendBundle({ type: 'coding', language: 'python', maxTokens: 1500 });
+const list = result(2).messages[0].content.text;
+for (const allocation of bundle.composition.allocations) {
+  assert.equal(list.includes('(' + allocation.ruleId + ')'), allocation.status !== 'omitted', allocation.ruleId);
+}"
+
+check_js "Without maxTokens every recommended rule is embedded whole" "$HELPERS
+const bundle = analyzer.recommendBundle({ type: 'coding', language: 'python' });
+assert.deepEqual(resources(result(3).messages).map((resource) => resource.text), bundle.rules.map((rule) => rule.content));"
+
+check_js "The task is the last message" "$HELPERS
+for (const id of [2, 4]) {
+  const messages = result(id).messages;
+  assert.deepEqual(messages.at(-1), { role: 'user', content: { type: 'text', text: '$TASK' } });
+  assert.equal(messages.filter((message) => message.content.text === '$TASK').length, 1);
+}
+assert.ok(result(3).messages.at(-1).content.type === 'resource');"
+
+check_js "Bundle prompts embed the rules of their bundle" "$HELPERS
+assert.deepEqual(resources(result(4).messages).map((resource) => resource.uri), ['rule:///coding/python-rules', 'rule:///coding/testing-rules']);"
+
+# Summary
+echo ""
+echo "================================================"
+echo "  MCP Prompt Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}MCP prompt tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All MCP prompt tests passed!${NC}"
+    exit 0
+fi
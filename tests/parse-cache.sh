@@ -0,0 +1,90 @@
+#!/bin/bash
+
+# parse-cache.sh
+# Smoke tests for reusing parsed rule files across runs through the parse cache
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Parse Cache Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE_DIR="$WORK_DIR/cache"
+unset RULES_D_CACHE
+
+# A rules directory layered over the bundled rules, with one rule to edit
+RULES_DIR="$WORK_DIR/rules"
+RULE_FILE="$RULES_DIR/coding/team-rules.md"
+mkdir -p "$RULES_DIR/coding"
+cat > "$RULE_FILE" <<'MD'
+---
+description: Conventions of the team
+---
+# Team Rules
+
+## Naming
+
+- Name things for what they do
+MD
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" "$@"
+}
+
+# Whether a load through the cache re-parsed the given number of files, or
+# "all" of them, and reused the rest
+parses() {
+    rules_cli cache stats --format json | node -e "
+const stats = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+const files = Object.values(stats.files).reduce((sum, count) => sum + count, 0);
+const expected = process.argv[1] === 'all' ? files : Number(process.argv[1]);
+process.exit(stats.exists && files > 0 && stats.misses === expected && stats.hits + stats.misses === files ? 0 : 1);
+" "$1"
+}
+
+# Whether the rules loaded through the cache include the edit to the team rule
+has_edit() {
+    rules_cli get coding/team-rules | grep -q 'whole words'
+}
+
+check "The first load parses every file" parses all
+check "The next load reuses every file" parses 0
+touch -d '2001-01-01' "$RULE_FILE"
+check "A touched file with the same content is reused" parses 0
+echo "- Prefer whole words to abbreviations" >> "$RULE_FILE"
+check "An edited file is parsed again" parses 1
+check "Rules loaded afterwards include the edit" has_edit
+
+echo '{ not json' > "$RULES_D_CACHE_DIR/parse-cache.json"
+check "A corrupt cache file is replaced" parses all
+
+check "rules-cli cache clear deletes the cache" rules_cli cache clear
+check "The cache file is gone after clearing" fails test -e "$RULES_D_CACHE_DIR/parse-cache.json"
+check "--no-cache loads rules without writing a cache" rules_cli --no-cache list
+check "No cache file is written with --no-cache" fails test -e "$RULES_D_CACHE_DIR/parse-cache.json"
+check "RULES_D_CACHE=0 loads rules without writing a cache" env RULES_D_CACHE=0 timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" list
+check "No cache file is written with RULES_D_CACHE=0" fails test -e "$RULES_D_CACHE_DIR/parse-cache.json"
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Parse Cache Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Parse cache tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All parse cache tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,187 @@
+#!/bin/bash
+
+# project-detect.sh
+# Smoke tests for project detection: languages, frameworks and environments
+# found in fixture manifests, the resulting ScenarioContext, and
+# rules-cli recommend --detect
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Project Detection Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+# Fixture projects, one per kind of manifest, and one with all of them
+WEB_DIR="$WORK_DIR/web"
+DJANGO_DIR="$WORK_DIR/django"
+GO_DIR="$WORK_DIR/go"
+INFRA_DIR="$WORK_DIR/infra"
+MONO_DIR="$WORK_DIR/mono"
+EMPTY_DIR="$WORK_DIR/empty"
+mkdir -p "$WEB_DIR" "$DJANGO_DIR" "$GO_DIR" "$INFRA_DIR/.github/workflows" "$EMPTY_DIR"
+
+# TypeScript through tsconfig.json alone, not a typescript dependency
+cat > "$WEB_DIR/package.json" <<'JSON'
+{
+  "name": "web",
+  "dependencies": { "react": "^18.2.0", "react-dom": "^18.2.0", "express": "^4.19.0" },
+  "devDependencies": { "vitest": "^1.6.0" }
+}
+JSON
+echo '{ "compilerOptions": { "strict": true } }' > "$WEB_DIR/tsconfig.json"
+echo '{ "lockfileVersion": 3 }' > "$WEB_DIR/package-lock.json"
+
+cat > "$DJANGO_DIR/pyproject.toml" <<'TOML'
+[tool.poetry]
+name = "shop"
+
+[tool.poetry.dependencies]
+python = "^3.12"
+django = "^5.0"
+djangorestframework = "^3.15"
+
+[tool.poetry.group.dev.dependencies]
+pytest = "^8.2"
+TOML
+touch "$DJANGO_DIR/poetry.lock"
+
+cat > "$GO_DIR/go.mod" <<'MOD'
+module example.com/orders
+
+go 1.22
+
+require github.com/gin-gonic/gin v1.10.0
+MOD
+
+printf 'FROM node:20-alpine\nCOPY . .\n' > "$INFRA_DIR/Dockerfile"
+printf 'name: CI\non: [push]\njobs: {}\n' > "$INFRA_DIR/.github/workflows/ci.yml"
+
+mkdir -p "$MONO_DIR/.github/workflows"
+cp -r "$WEB_DIR" "$MONO_DIR/web"
+cp -r "$DJANGO_DIR" "$MONO_DIR/api"
+cp -r "$GO_DIR" "$MONO_DIR/orders"
+cp "$INFRA_DIR/Dockerfile" "$MONO_DIR/Dockerfile"
+cp "$INFRA_DIR/.github/workflows/ci.yml" "$MONO_DIR/.github/workflows/ci.yml"
+
+SETUP="
+import { ProjectDetector } from './dist/detector/project-detector.js';
+const detect = (dir) => new ProjectDetector().detect('$WORK_DIR/' + dir);"
+
+# 1. One kind of project each
+check_js "package.json with tsconfig.json is a TypeScript project" "$SETUP
+const project = detect('web');
+assert.deepEqual(project.languages, ['typescript']);
+assert.deepEqual(project.frameworks, ['react', 'express']);
+assert.deepEqual(project.packageManagers, ['npm']);
+assert.deepEqual(project.context, { type: 'coding', language: 'typescript', framework: 'react' });"
+
+check_js "Without tsconfig.json or a typescript dependency it is JavaScript" "$SETUP
+import fs from 'node:fs';
+fs.rmSync('$WEB_DIR/tsconfig.json');
+try {
+  assert.deepEqual(detect('web').languages, ['javascript']);
+} finally {
+  fs.writeFileSync('$WEB_DIR/tsconfig.json', '{}');
+}"
+
+check_js "pyproject.toml with django is a Django project" "$SETUP
+const project = detect('django');
+assert.deepEqual(project.languages, ['python']);
+assert.deepEqual(project.frameworks, ['django', 'pytest']);
+assert.deepEqual(project.packageManagers, ['poetry']);
+assert.deepEqual(project.context, { type: 'coding', language: 'python', framework: 'django' });"
+
+check_js "go.mod requiring gin is a Gin project" "$SETUP
+const project = detect('go');
+assert.deepEqual(project.languages, ['go']);
+assert.deepEqual(project.frameworks, ['gin']);
+assert.deepEqual(project.context, { type: 'coding', language: 'go', framework: 'gin' });"
+
+check_js "A Dockerfile and GitHub workflows alone make a devops project" "$SETUP
+const project = detect('infra');
+assert.deepEqual(project.languages, []);
+assert.deepEqual(project.environments, ['docker', 'github-actions']);
+assert.deepEqual(project.context, { type: 'devops', language: undefined, framework: undefined });
+assert.deepEqual(project.evidence.map((item) => item.file), ['Dockerfile', '.github/workflows/ci.yml']);"
+
+check_js "A project without manifests is general" "$SETUP
+const project = detect('empty');
+assert.deepEqual(project.context, { type: 'general', language: undefined, framework: undefined });
+assert.deepEqual(project.evidence, []);"
+
+# 2. All of them in one repository
+check_js "Manifests in subdirectories are all detected, with their files" "$SETUP
+const project = detect('mono');
+assert.deepEqual(project.languages, ['typescript', 'python', 'go']);
+assert.deepEqual(project.frameworks, ['react', 'express', 'django', 'pytest', 'gin']);
+assert.deepEqual(project.environments, ['docker', 'github-actions']);
+assert.ok(project.evidence.some((item) => item.file === 'api/pyproject.toml' && item.value === 'django'));
+assert.ok(project.evidence.some((item) => item.file === 'orders/go.mod' && item.value === 'gin'));"
+
+check_js "The context of a polyglot project carries every language" "$SETUP
+assert.deepEqual(detect('mono').context, {
+  type: 'coding',
+  language: 'typescript',
+  languages: ['typescript', 'python', 'go'],
+  framework: 'react',
+});"
+
+check_js "Detecting a missing directory fails" "$SETUP
+assert.throws(() => detect('missing'), /Not a directory: .*missing/);"
+
+# 3. rules-cli recommend --detect
+timeout 60 node dist/cli/index.js recommend --detect "$DJANGO_DIR" --format json > "$WORK_DIR/django.json"
+timeout 60 node dist/cli/index.js recommend --detect "$DJANGO_DIR" > "$WORK_DIR/django.txt"
+timeout 60 node dist/cli/index.js recommend --detect "$MONO_DIR" --language go --format json > "$WORK_DIR/mono.json"
+timeout 60 node dist/cli/index.js recommend --detect "$WORK_DIR/missing" > /dev/null 2> "$WORK_DIR/missing.err"
+MISSING_STATUS=$?
+
+HELPERS="
+import fs from 'node:fs';
+const output = (name) => JSON.parse(fs.readFileSync('$WORK_DIR/' + name, 'utf8'));"
+
+check_js "recommend --detect reports what was detected and the context it used" "$HELPERS
+const result = output('django.json');
+assert.deepEqual(result.languages, ['python']);
+assert.deepEqual(result.frameworks, ['django', 'pytest']);
+assert.equal(result.context.type, 'coding');
+assert.equal(result.context.language, 'python');
+assert.equal(result.context.framework, 'django');
+assert.ok(result.bundle.rules.some((rule) => rule.id === 'coding/python-rules'));"
+
+check_js "Explicit options take precedence over detected values" "$HELPERS
+const { context } = output('mono.json');
+assert.equal(context.language, 'go');
+assert.deepEqual(context.languages, ['typescript', 'python', 'go']);
+assert.equal(context.framework, 'react');"
+
+check "recommend --detect prints the detected languages" contains "$(cat "$WORK_DIR/django.txt")" "^Detected languages: python$"
+check "recommend --detect prints the detected frameworks" contains "$(cat "$WORK_DIR/django.txt")" "^Detected frameworks: django, pytest$"
+check "recommend --detect on a missing directory exits with status 1" test "$MISSING_STATUS" -eq 1
+check "recommend --detect on a missing directory says so" contains "$(cat "$WORK_DIR/missing.err")" "Not a directory: "
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Project Detection Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Project detection tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All project detection tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,84 @@
+#!/bin/bash
+
+# query-engine.sh
+# Smoke tests for filtering, sorting and paging rules with the query engine
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Query Engine Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+export RULES_D_CACHE_DIR="$(mktemp -d)"
+trap 'rm -rf "$RULES_D_CACHE_DIR"' EXIT
+
+check_js "Pages cover every match once, in order" "
+import { loadRules, query } from './dist/index.js';
+const analyzer = await loadRules();
+const all = query(analyzer).items.map((item) => item.rule.metadata.id);
+assert.ok(all.length > 7 && all.every(Boolean));
+const paged = [];
+let cursor;
+do {
+  const page = query(analyzer, { limit: 7, cursor });
+  assert.equal(page.total, all.length);
+  paged.push(...page.items.map((item) => item.rule.metadata.id));
+  cursor = page.nextCursor;
+} while (cursor);
+assert.deepEqual(paged, all);"
+
+check_js "Text queries page by relevance without repeating a rule" "
+import { loadRules, query } from './dist/index.js';
+const analyzer = await loadRules();
+const first = query(analyzer, { text: 'error handling', limit: 3 });
+assert.ok(first.nextCursor);
+const second = query(analyzer, { text: 'error handling', limit: 3, cursor: first.nextCursor });
+const ids = [...first.items, ...second.items].map((item) => item.rule.metadata.id);
+assert.equal(new Set(ids).size, ids.length);"
+
+check_js "Filters narrow the matches" "
+import { loadRules, query } from './dist/index.js';
+const analyzer = await loadRules();
+const { items } = query(analyzer, { filter: { category: 'coding', language: 'python' } });
+assert.ok(items.length > 0);
+assert.ok(items.every(({ rule }) => rule.metadata.category === 'coding'));"
+
+check_js "A malformed cursor is rejected" "
+import { loadRules, query } from './dist/index.js';
+const analyzer = await loadRules();
+assert.throws(() => query(analyzer, { limit: 5, cursor: 'not-a-cursor' }), /Invalid cursor/);"
+
+check_js "A cursor is rejected for a different sort" "
+import { loadRules, query } from './dist/index.js';
+const analyzer = await loadRules();
+const { nextCursor } = query(analyzer, { limit: 5, sort: 'title' });
+assert.throws(
+  () => query(analyzer, { limit: 5, sort: 'id', cursor: nextCursor }),
+  (error) => error.name === 'QueryError' && error.field === 'cursor' && /Cursor is for sorting by title/.test(error.message)
+);"
+
+check "rules-cli list pages with --limit" node dist/cli/index.js list --limit 5
+check "rules-cli list rejects a malformed cursor" fails node dist/cli/index.js list --limit 5 --cursor not-a-cursor
+check "rules-cli list rejects an unknown sort key" fails node dist/cli/index.js list --sort size
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Query Engine Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Query engine tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All query engine tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,137 @@
+#!/bin/bash
+
+# relevance-scoring.sh
+# Smoke tests for the relevance scores of recommended bundles: the language
+# mismatch penalty, ordering by score, and the reasons in the JSON output
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Relevance Scoring Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+# Rule files as properties of the files option, to paste into the snippets below
+FILES="
+  'coding/python-rules.md': '---\nlanguage: python\npriority: high\n---\n# Python Rules\n',
+  'coding/go-rules.md': '---\nlanguage: go\n---\n# Go Rules\n',
+  'coding/style-rules.md': '---\nlanguage: universal\n---\n# Style Rules\n',
+  'general/rules.md': '---\nlanguage: universal\n---\n# General Rules\n',
+  'writing/prose-rules.md': '---\nlanguage: universal\n---\n# Prose Rules\n',
+  'security/secrets-rules.md': '---\nlanguage: universal\ntags: [security]\n---\n# Secrets Rules\n',
+"
+CONTEXT="{ type: 'coding', language: 'python' }"
+
+# Bind helpers for the rule ids and scores of a recommended bundle
+HELPERS="
+const ids = (bundle) => bundle.rules.map((rule) => rule.metadata.id);
+const reasons = (bundle, ruleId) => bundle.scores[ruleId].reasons;
+"
+
+# 1. Scores of recommended bundles
+check_js "Rules for other languages are left out" "$HELPERS
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+assert.ok(!ids(analyzer.recommendBundle($CONTEXT)).includes('coding/go-rules'));"
+
+check_js "A pinned rule for another language is kept, with the mismatch penalty" "$HELPERS
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES }, pinned: ['coding/go-rules'] });
+const bundle = analyzer.recommendBundle($CONTEXT);
+assert.deepEqual(reasons(bundle, 'coding/go-rules').find((reason) => reason.factor === 'language'),
+  { factor: 'language', weight: -3, description: 'Written for go, not python' });
+assert.equal(bundle.scores['coding/go-rules'].score, 5);"
+
+check_js "A language the project also uses is not penalized" "$HELPERS
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+const bundle = analyzer.recommendBundle({ ...$CONTEXT, languages: ['python', 'go'] });
+assert.equal(bundle.scores['coding/go-rules'].score, 3);
+assert.ok(!reasons(bundle, 'coding/go-rules').some((reason) => reason.factor === 'language'));"
+
+check_js "Rules are ordered by score, each with the reasons adding up to it" "$HELPERS
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+const bundle = analyzer.recommendBundle($CONTEXT);
+assert.deepEqual(ids(bundle), ['coding/python-rules', 'coding/style-rules', 'general/rules']);
+assert.deepEqual(ids(bundle).map((id) => bundle.scores[id].score), [8, 3.5, 1.5]);
+for (const id of ids(bundle)) {
+  assert.equal(reasons(bundle, id).reduce((sum, reason) => sum + reason.weight, 0), bundle.scores[id].score);
+}
+assert.deepEqual(reasons(bundle, 'coding/python-rules').map((reason) => reason.factor), ['category', 'language', 'rule-priority']);"
+
+check_js "Language-agnostic rules only come from the task's category and general" "$HELPERS
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+assert.ok(!ids(analyzer.recommendBundle($CONTEXT)).includes('writing/prose-rules'));
+assert.ok(!ids(analyzer.recommendBundle($CONTEXT)).includes('security/secrets-rules'));
+assert.ok(ids(analyzer.recommendBundle({ ...$CONTEXT, priorities: ['security'] })).includes('security/secrets-rules'));"
+
+# 2. rules-cli recommend and recommend_bundle
+timeout 60 node dist/cli/index.js recommend --type coding --language python --format json > "$WORK_DIR/recommend.json" 2>/dev/null
+cat > "$WORK_DIR/requests.jsonl" <<'JSON'
+{"jsonrpc":"2.0","id":0,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{},"clientInfo":{"name":"relevance-scoring","version":"1.0.0"}}}
+{"jsonrpc":"2.0","method":"notifications/initialized"}
+{"jsonrpc":"2.0","id":1,"method":"tools/call","params":{"name":"recommend_bundle","arguments":{"type":"coding","language":"python"}}}
+JSON
+timeout 60 node dist/mcp/server.js --no-watch < "$WORK_DIR/requests.jsonl" > "$WORK_DIR/responses.jsonl" 2>/dev/null
+
+OUTPUT="
+import fs from 'node:fs';
+const cli = JSON.parse(fs.readFileSync('$WORK_DIR/recommend.json', 'utf-8'));
+const response = fs.readFileSync('$WORK_DIR/responses.jsonl', 'utf-8').split('\n').filter(Boolean).map((line) => JSON.parse(line)).find((message) => message.id === 1);
+const tool = JSON.parse(response.result.content[0].text);
+"
+
+check_js "recommend --format json gives every rule a score and its reasons" "$OUTPUT
+assert.ok(cli.rules.length > 0);
+for (const rule of cli.rules) {
+  assert.equal(typeof rule.score, 'number');
+  assert.ok(rule.score > 0, rule.id);
+  assert.ok(rule.reasons.length > 0, rule.id);
+  assert.ok(rule.reasons.every((reason) => reason.factor && typeof reason.weight === 'number' && reason.description));
+}"
+
+check_js "recommend --format json lists rules by descending score" "$OUTPUT
+const scores = cli.rules.map((rule) => rule.score);
+assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+assert.equal(cli.rules[0].id, 'coding/python-rules');
+assert.ok(cli.rules[0].reasons.some((reason) => reason.description === 'Written for python'));"
+
+check_js "recommend --format json leaves out other languages and unrelated categories" "$OUTPUT
+const ids = cli.rules.map((rule) => rule.id);
+for (const id of ['coding/go-rules', 'coding/java-rules', 'coding/rust-rules', 'coding/csharp-rules', 'coding/javascript-typescript-rules']) {
+  assert.ok(!ids.includes(id), id);
+}
+assert.ok(ids.every((id) => id.startsWith('coding/') || id.startsWith('general/')));"
+
+check_js "recommend_bundle returns the same rules, scores and reasons" "$OUTPUT
+assert.deepEqual(
+  tool.rules.map((rule) => [rule.id, rule.score, rule.reasons]),
+  cli.rules.map((rule) => [rule.id, rule.score, rule.reasons])
+);"
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Relevance Scoring Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Relevance scoring tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All relevance scoring tests passed!${NC}"
+    exit 0
+fi
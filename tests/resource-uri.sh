@@ -0,0 +1,127 @@
+#!/bin/bash
+
+# resource-uri.sh
+# Smoke tests for MCP resource URIs: parsing rule:///, bundle:///,
+# category:/// and rules://language/ URIs, and reading them over stdio
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Resource URI Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+SETUP="
+import { formatRuleUri, parseResourceUri } from './dist/mcp/resource-uri.js';
+"
+
+# 1. Parsing
+check_js "rule:/// URIs name a rule by id" "$SETUP
+assert.deepEqual(parseResourceUri('rule:///coding/python-rules'), { kind: 'rule', ruleId: 'coding/python-rules' });
+assert.deepEqual(parseResourceUri('rule:///python-rules'), { kind: 'rule', ruleId: 'python-rules' });"
+
+check_js "Sections are addressed by /section/ or a fragment" "$SETUP
+const expected = { kind: 'rule', ruleId: 'coding/python-rules', anchor: 'error-handling' };
+assert.deepEqual(parseResourceUri('rule:///coding/python-rules/section/error-handling'), expected);
+assert.deepEqual(parseResourceUri('rule:///coding/python-rules#error-handling'), expected);"
+
+check_js "The last /section/ separates the anchor" "$SETUP
+assert.deepEqual(parseResourceUri('rule:///a/section/b/section/c'), { kind: 'rule', ruleId: 'a/section/b', anchor: 'c' });"
+
+check_js "Percent-encoded parts are decoded" "$SETUP
+assert.deepEqual(parseResourceUri('rule:///coding%2Fpython-rules/section/Error%20Handling'), { kind: 'rule', ruleId: 'coding/python-rules', anchor: 'Error Handling' });"
+
+check_js "Bundle, category and language URIs" "$SETUP
+assert.deepEqual(parseResourceUri('bundle:///api-development'), { kind: 'bundle', bundleId: 'api-development' });
+assert.deepEqual(parseResourceUri('category:///coding'), { kind: 'category', category: 'coding' });
+assert.deepEqual(parseResourceUri('rules://language/python'), { kind: 'language', language: 'python' });"
+
+check_js "Malformed URIs are invalid params naming the URI" "$SETUP
+const malformed = [
+  'rule:///', 'rule://host/coding/python-rules', 'rule:/coding/python-rules', 'rule:///coding/python-rules/section/',
+  'rule:///coding/python-rules#', 'rule:///#error-handling', 'bundle:///a/b', 'category:///',
+  'rules://language/', 'rules://language/a/b', 'rules://other/python', 'nope:///x', 'RULE:///coding/python-rules',
+];
+for (const uri of malformed) {
+  assert.throws(() => parseResourceUri(uri), (error) => error.code === -32602 && error.data.uri === uri, uri);
+}"
+
+check_js "Bad percent-encoding is reported as such" "$SETUP
+assert.throws(() => parseResourceUri('rule:///coding/%E0%A4%A'), /Invalid resource URI: rule:\/\/\/coding\/%E0%A4%A \(bad percent-encoding\)/);"
+
+check_js "Formatted rule URIs parse back" "$SETUP
+assert.deepEqual(parseResourceUri(formatRuleUri('coding/python-rules')), { kind: 'rule', ruleId: 'coding/python-rules' });
+assert.deepEqual(parseResourceUri(formatRuleUri('coding/python-rules', 'error-handling')), { kind: 'rule', ruleId: 'coding/python-rules', anchor: 'error-handling' });"
+
+# 2. Reading resources; the server answers every request and exits at the end of input
+cat > "$WORK_DIR/requests.jsonl" <<'JSON'
+{"jsonrpc":"2.0","id":0,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{},"clientInfo":{"name":"resource-uri","version":"1.0.0"}}}
+{"jsonrpc":"2.0","method":"notifications/initialized"}
+{"jsonrpc":"2.0","id":1,"method":"resources/read","params":{"uri":"rule:///coding/python-rules/section/error-handling"}}
+{"jsonrpc":"2.0","id":2,"method":"resources/read","params":{"uri":"rule:///python-rules#Error%20Handling"}}
+{"jsonrpc":"2.0","id":3,"method":"resources/read","params":{"uri":"rule:///coding%2Fpython-rules"}}
+{"jsonrpc":"2.0","id":4,"method":"resources/read","params":{"uri":"category:///coding"}}
+{"jsonrpc":"2.0","id":5,"method":"resources/read","params":{"uri":"rules://language/python"}}
+{"jsonrpc":"2.0","id":6,"method":"resources/read","params":{"uri":"bundle:///api-development"}}
+{"jsonrpc":"2.0","id":7,"method":"resources/templates/list"}
+JSON
+timeout 60 node dist/mcp/server.js --no-watch < "$WORK_DIR/requests.jsonl" > "$WORK_DIR/responses.jsonl" 2>/dev/null
+
+# Bind a helper returning the result of the response with the given id
+HELPERS="
+import fs from 'node:fs';
+const responses = fs.readFileSync('$WORK_DIR/responses.jsonl', 'utf-8').split('\n').filter(Boolean).map((line) => JSON.parse(line));
+const result = (id) => responses.find((response) => response.id === id).result;
+const text = (id) => result(id).contents[0].text;
+"
+
+check_js "A section URI reads the section's markdown" "$HELPERS
+const [content] = result(1).contents;
+assert.equal(content.uri, 'rule:///coding/python-rules/section/error-handling');
+assert.equal(content.mimeType, 'text/markdown');
+assert.match(content.text, /^#+ Error Handling\n/);"
+
+check_js "An alias, a fragment and heading text read the same section" "$HELPERS
+assert.equal(text(2), text(1));"
+
+check_js "An encoded rule URI reads the whole rule" "$HELPERS
+assert.ok(text(3).includes(text(1)));"
+
+check_js "Category and language URIs list rule URIs" "$HELPERS
+assert.ok(JSON.parse(text(4)).every((rule) => rule.uri === 'rule:///' + rule.id && rule.id.startsWith('coding/')));
+assert.ok(JSON.parse(text(5)).some((rule) => rule.uri === 'rule:///coding/python-rules'));"
+
+check_js "A bundle URI reads the resolved bundle" "$HELPERS
+const bundle = JSON.parse(text(6));
+assert.equal(bundle.id, 'api-development');
+assert.ok(bundle.rules.length > 0);"
+
+check_js "Every URI form is listed as a template" "$HELPERS
+assert.deepEqual(result(7).resourceTemplates.map((template) => template.uriTemplate), [
+  'rule:///{id}', 'rule:///{id}/section/{anchor}', 'bundle:///{bundleId}', 'category:///{category}', 'rules://language/{lang}',
+]);"
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Resource URI Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Resource URI tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All resource URI tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,112 @@
+#!/bin/bash
+
+# rule-classifier.sh
+# Smoke tests for inferring the languages and tags of rules without frontmatter
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule Classifier Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+export RULES_D_CACHE_DIR="$(mktemp -d)"
+trap 'rm -rf "$RULES_D_CACHE_DIR"' EXIT
+
+# Rules as in-memory files, keyed by path; each is written to be misread by
+# a substring match
+FILES="{
+  'general/errand-rules.md': '# Errand Rules\\n\\nBefore you go, go through the checklist and go home.\\n\\n## Planning\\n\\n- Plan ahead\\n',
+  'coding/javascript-rules.md': '# Browser Rules\\n\\nWrite modern JavaScript and prefer JavaScript modules.\\n',
+  'coding/ts-rules.md': '# Strict Rules\\n\\nTurn on strict mode.\\n',
+  'coding/dotnet-rules.md': '# C# Rules\\n\\nUse records for data.\\n',
+  'coding/services-rules.md': '# Service Rules\\n\\n\`\`\`golang\\nfunc a() {}\\n\`\`\`\\n\\n\`\`\`golang\\nfunc b() {}\\n\`\`\`\\n\\n\`\`\`golang\\nfunc c() {}\\n\`\`\`\\n',
+  'coding/declared-rules.md': '---\\nlanguage: python\\ntags: [style]\\n---\\n# Declared Rules\\n\\n\`\`\`javascript\\nlet a;\\n\`\`\`\\n\\n\`\`\`javascript\\nlet b;\\n\`\`\`\\n\\n\`\`\`javascript\\nlet c;\\n\`\`\`\\n',
+}"
+
+# Load the rules above and run a snippet against the analyzer
+check_rules() {
+    check_js "$1" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: $FILES });
+const language = (id) => analyzer.getRule(id).metadata.language;
+const candidate = (id, kind, value) => analyzer.inspectRule(id).classification[kind].find((c) => c.value === value);
+$2"
+}
+
+check_rules "\"go\" in prose does not make a rule about Go" "
+assert.equal(language('general/errand-rules'), 'universal');
+assert.equal(candidate('general/errand-rules', 'languages', 'go'), undefined);"
+
+check_rules "A rule about JavaScript is not about Java" "
+assert.equal(language('coding/javascript-rules'), 'javascript');
+assert.equal(candidate('coding/javascript-rules', 'languages', 'java'), undefined);"
+
+check_rules "Synonyms name the canonical language" "
+assert.equal(language('coding/ts-rules'), 'typescript');
+assert.equal(language('coding/dotnet-rules'), 'csharp');
+assert.equal(language('coding/services-rules'), 'go');
+assert.match(candidate('coding/services-rules', 'languages', 'go').evidence.join(), /3 of 3 code blocks/);"
+
+check_rules "Frontmatter wins over inference" "
+assert.equal(language('coding/declared-rules'), 'python');
+assert.deepEqual(analyzer.getRule('coding/declared-rules').metadata.tags, ['style']);
+const fields = Object.fromEntries(analyzer.inspectRule('coding/declared-rules').fields.map((f) => [f.field, f]));
+assert.equal(fields.language.origin, 'frontmatter');
+assert.equal(fields.language.inferred, 'javascript');
+assert.equal(fields.tags.origin, 'frontmatter');"
+
+check_rules "Rules that match no tag get the fallback tag" "
+assert.deepEqual(analyzer.getRule('general/errand-rules').metadata.tags, ['best-practices']);"
+
+check_js "Language names resolve through the synonym table" "
+import { canonicalLanguage } from './dist/utils/rule-classifier.js';
+assert.equal(canonicalLanguage('ts'), 'typescript');
+assert.equal(canonicalLanguage('C#'), 'csharp');
+assert.equal(canonicalLanguage('golang'), 'go');
+assert.equal(canonicalLanguage('Kotlin'), 'kotlin');"
+
+# rules-cli inspect, against the same rules in a temporary directory
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$RULES_D_CACHE_DIR" "$WORK_DIR"' EXIT
+node --input-type=module -e "
+import * as fs from 'fs';
+import * as path from 'path';
+for (const [file, content] of Object.entries($FILES)) {
+  fs.mkdirSync(path.dirname(path.join('$WORK_DIR', file)), { recursive: true });
+  fs.writeFileSync(path.join('$WORK_DIR', file), content);
+}"
+
+INSPECT_OUTPUT="$(node dist/cli/index.js --rules-dir "$WORK_DIR" inspect coding/declared-rules)"
+check "rules-cli inspect shows where each value came from" grep -q "^language: python  (frontmatter)$" <<< "$INSPECT_OUTPUT"
+check "rules-cli inspect shows declared and inferred values that differ" grep -q "declared: python; inferred: javascript" <<< "$INSPECT_OUTPUT"
+check "rules-cli inspect marks the candidates above the threshold" grep -q "^ \* javascript 0.50: 3 of 3 code blocks" <<< "$INSPECT_OUTPUT"
+
+check "rules-cli inspect --format json gives the classification" sh -c "
+node dist/cli/index.js --rules-dir '$WORK_DIR' inspect coding/services-rules --format json | node -e \"
+const inspection = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+const language = inspection.fields.find((field) => field.field === 'language');
+process.exit(language.origin === 'classifier' && language.value === 'go' && inspection.threshold === 0.5 ? 0 : 1);
+\""
+check "rules-cli inspect reports an unknown rule" fails node dist/cli/index.js --rules-dir "$WORK_DIR" inspect coding/no-such-rules
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule Classifier Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule classifier tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule classifier tests passed!${NC}"
+    exit 0
+fi
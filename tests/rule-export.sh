@@ -0,0 +1,153 @@
+#!/bin/bash
+
+# rule-export.sh
+# Smoke tests for exporting rules to agent rule files: per-format rendering,
+# and merging of the managed block into shared files, --dry-run included
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule Export Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+RULES_DIR="$WORK_DIR/rules"
+PROJECT_DIR="$WORK_DIR/project"
+mkdir -p "$RULES_DIR/coding" "$RULES_DIR/general" "$PROJECT_DIR"
+cat > "$RULES_DIR/coding/python-rules.md" <<'MD'
+---
+language: python
+description: Python conventions
+---
+# Python Rules
+
+## Typing
+
+Annotate public functions.
+MD
+cat > "$RULES_DIR/general/tone-rules.md" <<'MD'
+# Tone Rules
+
+Be concise.
+MD
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" "$@"
+}
+
+export_claude() {
+    rules_cli export --target claude --out "$PROJECT_DIR" "$@" --rules coding/python-rules general/tone-rules
+}
+
+# Load the rules above and bind a bundle of both
+SETUP="
+import { loadRules, renderExport } from './dist/index.js';
+const analyzer = await loadRules({ sources: '$RULES_DIR' });
+const bundle = {
+  name: 'Team',
+  description: 'Team rules',
+  rules: [analyzer.getRule('coding/python-rules'), analyzer.getRule('general/tone-rules')],
+};
+"
+
+# 1. Rendering
+check_js "Shared files hold one managed block, general rules first and headings nested" "$SETUP
+const [file] = renderExport(bundle, 'claude');
+assert.equal(file.path, 'CLAUDE.md');
+assert.equal(file.managed, true);
+assert.match(file.content, /^<!-- rules\.d:begin -->\n\n# Team\n\nTeam rules\n/);
+assert.match(file.content, /<!-- rules\.d:end -->\n$/);
+assert.ok(file.content.indexOf('## Tone Rules') < file.content.indexOf('## Python Rules'));
+assert.match(file.content, /\n### Typing\n/);"
+
+check_js "Each format writes to its own file" "$SETUP
+const paths = ['cursorrules', 'agents', 'copilot', 'windsurf', 'cline'].map((format) => renderExport(bundle, format)[0].path);
+assert.deepEqual(paths, ['.cursorrules', 'AGENTS.md', '.github/copilot-instructions.md', '.windsurfrules', '.clinerules']);"
+
+check_js "Cursor gets one .mdc per rule, scoped by language globs" "$SETUP
+const [python, tone] = renderExport(bundle, 'cursor');
+assert.equal(python.path, '.cursor/rules/rules-d-coding-python-rules.mdc');
+assert.equal(python.managed, false);
+assert.match(python.content, /^---\ndescription: \"Python Rules: Python conventions\"\nglobs: \*\*\/\*\.py,\*\*\/\*\.pyi\nalwaysApply: false\n---\n/);
+assert.match(tone.content, /\nglobs: \nalwaysApply: true\n/);"
+
+check_js "Rules are cut to the Windsurf size limit, with a warning" "$SETUP
+const long = { ...bundle.rules[0], metadata: { ...bundle.rules[0].metadata, id: 'coding/long-rules' } };
+long.sections = [{ ...long.sections[0], children: Array.from({ length: 40 }, (_, i) => ({
+  heading: 'Part ' + i, anchor: 'part-' + i, level: 2, body: 'x'.repeat(200), codeBlocks: [], children: [], line: 1, endLine: 1,
+})) }];
+const [file] = renderExport({ ...bundle, rules: [long] }, 'windsurf');
+assert.ok(file.content.length <= 6000);
+assert.match(file.content, /## Part 0\n/);
+assert.deepEqual(file.warnings, ['coding/long-rules truncated to fit the 6000-character limit of .windsurfrules']);"
+
+check_js "An unknown format throws" "$SETUP
+assert.throws(() => renderExport(bundle, 'vim'), /Unknown export format: vim/);"
+
+# 2. Writing and --dry-run
+check "--dry-run reports a new file as would be created" contains "$(export_claude --dry-run)" 'CLAUDE.md: would be created'
+check "--dry-run writes nothing" test ! -e "$PROJECT_DIR/CLAUDE.md"
+
+printf '# Our notes\n\nKeep this.\n' > "$PROJECT_DIR/CLAUDE.md"
+DRY_RUN="$(export_claude --dry-run)"
+check "--dry-run reports a shared file as would be updated" contains "$DRY_RUN" 'CLAUDE.md: would be updated'
+check "--dry-run shows the managed block being appended" contains "$DRY_RUN" '^+<!-- rules.d:begin -->'
+check "--dry-run leaves the shared file untouched" test "$(cat "$PROJECT_DIR/CLAUDE.md")" = "$(printf '# Our notes\n\nKeep this.')"
+
+check "An export appends the managed block to a shared file" contains "$(export_claude)" 'CLAUDE.md: updated'
+check_js "Content outside the managed block is kept" "
+import fs from 'node:fs';
+const content = fs.readFileSync('$PROJECT_DIR/CLAUDE.md', 'utf-8');
+assert.match(content, /^# Our notes\n\nKeep this\.\n\n<!-- rules\.d:begin -->\n/);"
+check "Exporting again changes nothing" contains "$(export_claude)" 'CLAUDE.md: unchanged'
+
+# An edited block between user content is replaced in place
+node -e "
+const fs = require('fs');
+const file = '$PROJECT_DIR/CLAUDE.md';
+fs.writeFileSync(file, fs.readFileSync(file, 'utf-8').replace('Be concise.', 'Be verbose.') + '\n# More notes\n');
+"
+export_claude --dry-run --format json > "$WORK_DIR/dry-run.json"
+check_js "--dry-run diffs only the edited line of the managed block" "
+import fs from 'node:fs';
+const [file] = JSON.parse(fs.readFileSync('$WORK_DIR/dry-run.json', 'utf-8')).files;
+assert.equal(file.status, 'updated');
+assert.equal(file.written, false);
+assert.match(file.diff, /^-Be verbose\.\$/m);
+assert.match(file.diff, /^\+Be concise\.\$/m);
+assert.doesNotMatch(file.diff, /^[-+]# (Our|More) notes/m);"
+export_claude >/dev/null
+check_js "The managed block is replaced in place, between user content" "
+import fs from 'node:fs';
+const content = fs.readFileSync('$PROJECT_DIR/CLAUDE.md', 'utf-8');
+assert.match(content, /^# Our notes\n/);
+assert.match(content, /Be concise\./);
+assert.doesNotMatch(content, /Be verbose/);
+assert.match(content, /<!-- rules\.d:end -->\n\n# More notes\n\$/);"
+
+check "An unknown --target fails" fails export_claude --target vim
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule Export Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule export tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule export tests passed!${NC}"
+    exit 0
+fi
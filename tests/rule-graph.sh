@@ -0,0 +1,119 @@
+#!/bin/bash
+
+# rule-graph.sh
+# Smoke tests for the rule graph: transitive prerequisites, cycles, dangling
+# references and rules-cli graph as text, DOT and Mermaid
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule Graph Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+RULES_DIR="$WORK_DIR/rules"
+mkdir -p "$RULES_DIR/coding" "$RULES_DIR/writing"
+printf -- '---\nprerequisites: [coding/b-rules]\nrelated: [writing/e-rules]\n---\n# A Rules\n' > "$RULES_DIR/coding/a-rules.md"
+printf -- '---\nprerequisites: [coding/c-rules, coding/missing-rules]\n---\n# B Rules\n' > "$RULES_DIR/coding/b-rules.md"
+printf '# C Rules\n' > "$RULES_DIR/coding/c-rules.md"
+printf -- '---\nprerequisites: [coding/y-rules]\n---\n# X Rules\n' > "$RULES_DIR/coding/x-rules.md"
+printf -- '---\nprerequisites: [coding/x-rules]\n---\n# Y Rules\n' > "$RULES_DIR/coding/y-rules.md"
+printf '# E "Quoted" Rules\n' > "$RULES_DIR/writing/e-rules.md"
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" "$@"
+}
+
+SETUP="
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ sources: '$RULES_DIR' });
+"
+
+# 1. Graph views
+check_js "Prerequisites are transitive, each after the rules it requires" "$SETUP
+const view = analyzer.getRuleGraph('coding/a-rules');
+assert.deepEqual(view.prerequisites, ['coding/c-rules', 'coding/b-rules']);
+assert.deepEqual(analyzer.getRuleGraph('coding/b-rules').dependents, ['coding/a-rules']);"
+
+check_js "Nodes carry their shortest distance from the root" "$SETUP
+const view = analyzer.getRuleGraph('coding/a-rules');
+assert.deepEqual(view.nodes.map((node) => [node.id, node.depth]), [
+  ['coding/a-rules', 0], ['coding/b-rules', 1], ['writing/e-rules', 1], ['coding/c-rules', 2],
+]);"
+
+check_js "A depth or leaving out related rules limits the view" "$SETUP
+assert.deepEqual(analyzer.getRuleGraph('coding/a-rules', { depth: 1 }).nodes.map((node) => node.id), ['coding/a-rules', 'coding/b-rules', 'writing/e-rules']);
+const view = analyzer.getRuleGraph('coding/a-rules', { related: false });
+assert.ok(view.edges.every((edge) => edge.kind === 'prerequisite'));
+assert.ok(!view.nodes.some((node) => node.id === 'writing/e-rules'));"
+
+check_js "A prerequisite cycle is reported once, from its smallest id" "$SETUP
+assert.deepEqual(analyzer.getRuleGraph().cycles, [['coding/x-rules', 'coding/y-rules', 'coding/x-rules']]);
+assert.deepEqual(analyzer.getRuleGraph('coding/y-rules').cycles, [['coding/x-rules', 'coding/y-rules', 'coding/x-rules']]);
+assert.deepEqual(analyzer.getRuleGraph('coding/y-rules').prerequisites, ['coding/x-rules']);
+assert.deepEqual(analyzer.getRuleGraph('coding/a-rules').cycles, []);"
+
+check_js "References to unknown rules are dangling" "$SETUP
+assert.deepEqual(analyzer.getRuleGraph('coding/a-rules').dangling, [
+  { from: 'coding/b-rules', reference: 'coding/missing-rules', kind: 'prerequisite' },
+]);
+assert.deepEqual(analyzer.getRuleGraph('coding/c-rules').dangling, []);"
+
+check_js "An unknown root has no graph" "$SETUP
+assert.equal(analyzer.getRuleGraph('coding/unknown-rules'), undefined);"
+
+# 2. rules-cli graph
+DOT="$(rules_cli graph coding/a-rules --format dot)"
+check "DOT output is a digraph with the root in bold" contains "$DOT" '^  "coding/a-rules" \[label="A Rules\\ncoding/a-rules", style=bold\];$'
+check "DOT labels prerequisite edges" contains "$DOT" '^  "coding/b-rules" -> "coding/c-rules" \[label="requires"\];$'
+check "DOT draws related edges dashed and undirected" contains "$DOT" '^  "coding/a-rules" -> "writing/e-rules" \[style=dashed, arrowhead=none\];$'
+check "DOT escapes quotes in titles" contains "$DOT" 'label="E \\"Quoted\\" Rules'
+check "DOT draws dangling references as red nodes" contains "$DOT" '^  "missing:coding/missing-rules" \[label="coding/missing-rules", style=dashed, color=red\];$'
+check "DOT draws cycle edges red" contains "$(rules_cli graph coding/x-rules --format dot)" '^  "coding/y-rules" -> "coding/x-rules" \[label="requires", color=red\];$'
+
+check "Mermaid output numbers nodes and links them" test "$(rules_cli graph coding/a-rules --format mermaid)" = "$(cat <<'MERMAID'
+graph LR
+  n0["A Rules<br/>coding/a-rules"]
+  n1["B Rules<br/>coding/b-rules"]
+  n2["E #quot;Quoted#quot; Rules<br/>writing/e-rules"]
+  n3["C Rules<br/>coding/c-rules"]
+  n4["coding/missing-rules"]:::missing
+  n0 -->|requires| n1
+  n0 -.- n2
+  n1 -->|requires| n3
+  n1 -->|requires| n4
+  classDef missing stroke:#c00,stroke-dasharray:5 5
+  classDef root stroke-width:3px
+  class n0 root
+MERMAID
+)"
+check "Mermaid styles cycle links red" contains "$(rules_cli graph coding/x-rules --format mermaid)" '^  linkStyle 0,1 stroke:#c00$'
+
+check "Text output lists prerequisite cycles" contains "$(rules_cli graph coding/x-rules)" 'coding/x-rules -> coding/y-rules -> coding/x-rules'
+check "--quiet prints the rule after its prerequisites" test "$(rules_cli graph coding/a-rules --quiet)" = "$(printf 'coding/c-rules\ncoding/b-rules\ncoding/a-rules')"
+check "graph fails on an unknown rule" fails rules_cli graph coding/unknown-rules
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule Graph Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule graph tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule graph tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,176 @@
+#!/bin/bash
+
+# rule-history.sh
+# Smoke tests for rule history, version diffs and changes since a revision,
+# against a throwaway git repository of rules
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule History Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+export GIT_AUTHOR_NAME="Rule Author" GIT_AUTHOR_EMAIL="author@example.com"
+export GIT_COMMITTER_NAME="Rule Author" GIT_COMMITTER_EMAIL="author@example.com"
+
+# Run a snippet of JavaScript against a JSON document, bound to `data`; it fails by throwing
+check_json() {
+    local description="$1" json="$2"
+    check "$description" node -e "
+const assert = require('node:assert/strict');
+const data = JSON.parse(process.argv[1]);
+$3" "$json"
+}
+
+RULES_REPO="$WORK_DIR/rules"
+mkdir -p "$RULES_REPO/coding"
+
+git_rules() {
+    git -C "$RULES_REPO" -c commit.gpgsign=false "$@" >/dev/null
+}
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js --rules-dir "$RULES_REPO" "$@"
+}
+
+# 1. The rule as first written
+git_rules init -q
+cat > "$RULES_REPO/coding/team-rules.md" <<'MD'
+---
+version: 1.0.0
+description: Conventions of the team
+---
+# Team Rules
+
+## Naming
+
+- Name things for what they do
+MD
+git_rules add -A
+git_rules commit -q -m "Add team rules"
+FIRST="$(git -C "$RULES_REPO" rev-parse HEAD)"
+
+# 2. A section renamed and one added, with a version bump
+cat > "$RULES_REPO/coding/team-rules.md" <<'MD'
+---
+version: 1.1.0
+description: Conventions of the team
+---
+# Team Rules
+
+## Names
+
+- Name things for what they do
+
+## Errors
+
+- Raise errors early
+MD
+git_rules commit -q -a -m "Rename the naming section"
+SECOND="$(git -C "$RULES_REPO" rev-parse HEAD)"
+
+# 3. The file renamed, so the rule's id changes
+git_rules mv coding/team-rules.md coding/squad-rules.md
+git_rules commit -q -m "Rename to squad rules"
+
+# 4. An edit without a version bump
+sed -i 's/Raise errors early/Raise errors early and loudly/' "$RULES_REPO/coding/squad-rules.md"
+git_rules commit -q -a -m "Reword errors"
+
+HISTORY="$(rules_cli history coding/squad-rules --format json)"
+check_json "history follows the rule across the rename" "$HISTORY" "
+assert.deepEqual(data.commits.map((c) => c.subject), ['Reword errors', 'Rename to squad rules', 'Rename the naming section', 'Add team rules']);
+assert.equal(data.commits[3].path, 'coding/team-rules.md');"
+check_json "history gives the version at each commit" "$HISTORY" "
+assert.deepEqual(data.commits.map((c) => c.version), ['1.1.0', '1.1.0', '1.1.0', '1.0.0']);"
+check_json "history flags the edit without a version bump" "$HISTORY" "
+assert.deepEqual(data.commits.map((c) => Boolean(c.unbumped)), [true, false, false, false]);"
+check "history --limit keeps the newest commits" sh -c "
+timeout 60 node dist/cli/index.js --rules-dir '$RULES_REPO' history coding/squad-rules --limit 1 --format json | grep -q 'Reword errors'"
+check "history rejects a --limit that is not a number" fails rules_cli history coding/squad-rules --limit foo
+check "history rejects a negative --limit" fails rules_cli history coding/squad-rules --limit -1
+
+check_json "diff reports a renamed and an added section with the version bump" "$(rules_cli diff coding/squad-rules "$FIRST" "$SECOND" --format json)" "
+assert.equal(data.fromVersion, '1.0.0');
+assert.equal(data.toVersion, '1.1.0');
+assert.ok(data.versionBumped);
+const renamed = data.sections.find((s) => s.type === 'renamed');
+assert.deepEqual(renamed.headingPath, ['Team Rules', 'Names']);
+assert.deepEqual(renamed.previousHeadingPath, ['Team Rules', 'Naming']);
+assert.ok(data.sections.some((s) => s.type === 'added' && s.anchor === 'errors'));"
+
+check_json "diff warns about content changed without a version bump" "$(rules_cli diff coding/squad-rules HEAD~1 HEAD --format json)" "
+assert.ok(data.contentChanged);
+assert.equal(data.versionBumped, false);
+assert.deepEqual(data.sections.map((s) => s.type), ['modified']);"
+
+check "diff rejects an unknown revision" fails rules_cli diff coding/squad-rules no-such-revision
+
+# An uncommitted edit, also without a version bump
+sed -i 's/Name things for what they do/Name things for what they do, not how/' "$RULES_REPO/coding/squad-rules.md"
+check_json "history reports an unbumped uncommitted edit" "$(rules_cli history coding/squad-rules --format json)" "
+assert.ok(data.uncommitted.unbumped);"
+
+# get_rule_changes through the MCP server over stdio
+cat > "$WORK_DIR/requests.jsonl" <<JSON
+{"jsonrpc":"2.0","id":0,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{},"clientInfo":{"name":"rule-history","version":"1.0.0"}}}
+{"jsonrpc":"2.0","method":"notifications/initialized"}
+{"jsonrpc":"2.0","id":1,"method":"tools/call","params":{"name":"get_rule_changes","arguments":{"since":"$SECOND","includeDiff":true}}}
+{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"get_rule_changes","arguments":{"since":"$FIRST"}}}
+JSON
+timeout 60 node dist/mcp/server.js --no-watch --rules-dir "$RULES_REPO" < "$WORK_DIR/requests.jsonl" > "$WORK_DIR/responses.jsonl" 2>/dev/null
+
+# The structured content of the tool result with the given id
+changes() {
+    node -e "
+const response = require('fs').readFileSync('$WORK_DIR/responses.jsonl', 'utf-8')
+  .split('\n').filter(Boolean).map((line) => JSON.parse(line)).find((message) => message.id === Number(process.argv[1]));
+console.log(JSON.stringify(response.result.structuredContent));
+" "$1"
+}
+
+check_json "get_rule_changes lists the commits and edits since a revision" "$(changes 1)" "
+const [change] = data.rules;
+assert.equal(data.rules.length, 1);
+assert.equal(change.ruleId, 'coding/squad-rules');
+assert.equal(change.status, 'modified');
+assert.deepEqual(change.commits.map((c) => c.subject), ['Reword errors', 'Rename to squad rules']);
+assert.ok(change.uncommitted);"
+check_json "get_rule_changes reports content changed without a version bump" "$(changes 1)" "
+const [change] = data.rules;
+assert.equal(change.previousVersion, '1.1.0');
+assert.equal(change.versionBumped, false);
+const errors = change.sections.find((s) => s.anchor === 'errors');
+assert.match(errors.diff, /\\+- Raise errors early and loudly/);"
+check_json "get_rule_changes skips sources outside the revision's repository" "$(changes 1)" "
+assert.deepEqual(data.skippedSources, ['rules.d']);"
+check_json "get_rule_changes reports a version bump since an older revision" "$(changes 2)" "
+const [change] = data.rules;
+assert.equal(change.previousVersion, '1.0.0');
+assert.ok(change.versionBumped);
+assert.ok(change.metadata.some((m) => m.field === 'version'));"
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule History Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule history tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule history tests passed!${NC}"
+    exit 0
+fi
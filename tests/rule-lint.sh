@@ -0,0 +1,158 @@
+#!/bin/bash
+
+# rule-lint.sh
+# Smoke tests for linting rule files and fixing them, against a temporary
+# rules directory so that the bundled rules are never rewritten
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule Lint Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+RULES_DIR="$WORK_DIR/rules"
+mkdir -p "$RULES_DIR/coding"
+
+# One problem of each kind the built-in lint rules report
+cat > "$RULES_DIR/coding/broken-rules.md" <<'MD'
+---
+description: Rules with one problem of each kind
+tags: [testing]
+---
+# Broken Rules
+
+### Skipped Level
+
+```
+plain code
+```
+
+See [the missing rule](missing-rules.md).
+
+See [a missing section](#nowhere).
+MD
+
+# Fixable only: an empty description, a skipped heading level and a link
+# to a rule of the bundled layer, which resolves once the layers merge
+cat > "$RULES_DIR/coding/fixable-rules.md" <<'MD'
+---
+description: ""
+tags: [testing]
+---
+# Fixable Rules
+
+Conventions that the fixes below should keep intact.
+
+### Naming
+
+- Follow [error handling](python-rules.md#error-handling) for exceptions
+MD
+
+# A team extension of a bundled rule, with its own problems
+cat > "$RULES_DIR/coding/team-python-rules.md" <<'MD'
+---
+extends: coding/python-rules
+---
+## Team Conventions
+
+#### Imports
+
+```
+import os
+```
+MD
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" "$@"
+}
+
+# Whether the JSON diagnostics of a rule include the code, on the given
+# line or on any
+reports() {
+    rules_cli lint "$1" --format json | node -e "
+const [code, line] = process.argv.slice(1);
+const { diagnostics } = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+process.exit(diagnostics.some((d) => d.code === code && (!line || d.line === Number(line))) ? 0 : 1);
+" "$2" "$3"
+}
+
+check "A rule with an error fails the lint" fails rules_cli lint coding/broken-rules
+check "A skipped heading level is reported" reports coding/broken-rules heading-increment 7
+check "A code block without a language is reported" reports coding/broken-rules fenced-code-language 9
+check "A link to a missing file is reported" reports coding/broken-rules link-target 13
+check "A link to a missing anchor is reported" reports coding/broken-rules link-target 15
+check "A link to a rule of a lower layer resolves" fails reports coding/fixable-rules link-target
+
+# Whether linting every rule reports the code on a line of the file
+reports_in_file() {
+    rules_cli lint --format json | node -e "
+const [file, code, line] = process.argv.slice(1);
+const { diagnostics } = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+process.exit(diagnostics.some((d) => d.filePath === file && d.code === code && (!line || d.line === Number(line))) ? 0 : 1);
+" "$1" "$2" "$3"
+}
+
+check "A skipped heading level in an extension file is reported" reports_in_file coding/team-python-rules.md heading-increment 6
+check "A code block without a language in an extension file is reported" reports_in_file coding/team-python-rules.md fenced-code-language 8
+check "An extension file needs no title of its own" fails reports_in_file coding/team-python-rules.md single-title
+check "An extension file needs no description of its own" fails reports_in_file coding/team-python-rules.md missing-description
+check "Linting the extended rule lints its extension files" sh -c "
+timeout 60 node dist/cli/index.js --rules-dir '$RULES_DIR' lint coding/python-rules --format json | grep -q coding/team-python-rules.md"
+
+GITHUB_OUTPUT="$(rules_cli lint coding/broken-rules --format github)"
+check "GitHub output annotates the file and line" contains "$GITHUB_OUTPUT" "::error file=coding/broken-rules.md,line=13"
+check "GitHub output annotates warnings" contains "$GITHUB_OUTPUT" "::warning file=coding/broken-rules.md,line=7"
+
+check "SARIF output lists each result with its rule and location" sh -c "
+timeout 60 node dist/cli/index.js --rules-dir '$RULES_DIR' lint coding/broken-rules --format sarif | node -e \"
+const sarif = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+const [run] = sarif.runs;
+const result = run.results.find((r) => r.ruleId === 'link-target');
+const ok = sarif.version === '2.1.0' && result.level === 'error' &&
+  result.locations[0].physicalLocation.artifactLocation.uri === 'coding/broken-rules.md' &&
+  run.tool.driver.rules.some((rule) => rule.id === 'heading-increment');
+process.exit(ok ? 0 : 1);
+\""
+
+rules_cli lint --fix >/dev/null 2>&1
+FIXED="$(cat "$RULES_DIR/coding/fixable-rules.md")"
+check "--fix replaces an empty description instead of adding another" test "$(grep -c '^description:' <<< "$FIXED")" -eq 1
+check "--fix takes the description from the paragraph under the title" contains "$FIXED" "^description: Conventions that the fixes below should keep intact.$"
+check "--fix raises a skipped heading level" contains "$FIXED" "^## Naming$"
+check "--fix leaves the link to the lower layer alone" contains "$FIXED" "(python-rules.md#error-handling)"
+check "The fixed rule lints clean" rules_cli lint coding/fixable-rules
+check "--fix leaves problems it cannot fix" reports coding/broken-rules fenced-code-language 9
+check "--fix raises a skipped heading level in an extension file" grep -q '^### Imports$' "$RULES_DIR/coding/team-python-rules.md"
+
+cp "$RULES_DIR/coding/fixable-rules.md" "$WORK_DIR/before.md"
+rules_cli lint --fix >/dev/null 2>&1
+check "A second --fix changes nothing" cmp -s "$WORK_DIR/before.md" "$RULES_DIR/coding/fixable-rules.md"
+
+check "--fix without rule ids or rules directories is refused" fails timeout 60 node dist/cli/index.js lint --fix
+check "--fix never rewrote the bundled rules" git diff --quiet -- coding communication data devops general project-management research security writing
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule Lint Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule lint tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule lint tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,86 @@
+#!/bin/bash
+
+# rule-registry.sh
+# Smoke tests for rule identity: category-qualified ids, duplicate ids and
+# alias resolution, against in-memory rule files
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule Registry Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+# Rule files as properties of the files option, to paste into the snippets below
+FILES="
+  'coding/rules.md': '# Coding Rules\n',
+  'security/rules.md': '# Security Rules\n',
+  'coding/api-rules.md': '---\naliases: [http-api]\n---\n# API Rules\n',
+  'coding/first-rules.md': '---\nid: shared\n---\n# First\n',
+  'writing/second-rules.md': '---\nid: shared\n---\n# Second\n',
+  'data/third-rules.md': '---\nid: shared\n---\n# Third\n',
+"
+
+check_js "Rule ids are qualified by category, so same-named files do not collide" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+assert.ok(analyzer.getRule('coding/rules'));
+assert.ok(analyzer.getRule('security/rules'));"
+
+check_js "The first rule with a duplicate id is kept" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+assert.equal(analyzer.getRule('shared').filePath, 'coding/first-rules.md');
+assert.equal(analyzer.getAllRules().filter((rule) => rule.metadata.id === 'shared').length, 1);"
+
+check_js "Duplicate ids are reported once, with every file" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+const [issue, ...rest] = analyzer.getLoadIssues();
+assert.equal(rest.length, 0);
+assert.equal(issue.type, 'duplicate-id');
+assert.deepEqual(issue.filePaths, ['coding/first-rules.md', 'data/third-rules.md', 'writing/second-rules.md']);"
+
+check_js "Declared and file name aliases resolve to the canonical id" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+assert.equal(analyzer.getRule('http-api').metadata.id, 'coding/api-rules');
+assert.equal(analyzer.getRule('api-rules').metadata.id, 'coding/api-rules');"
+
+check_js "An alias claimed by several rules is ambiguous" "
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: { $FILES } });
+assert.equal(analyzer.getRule('rules'), undefined);
+assert.deepEqual(analyzer.getRuleCandidates('rules'), ['coding/rules', 'security/rules']);"
+
+mkdir -p "$WORK_DIR/coding" "$WORK_DIR/writing"
+printf -- '---\nid: shared\n---\n# First\n' > "$WORK_DIR/coding/first-rules.md"
+printf -- '---\nid: shared\n---\n# Second\n' > "$WORK_DIR/writing/second-rules.md"
+VALIDATED="$(timeout 60 node dist/cli/index.js --rules-dir "$WORK_DIR" validate --format json 2>/dev/null)"
+check "rules-cli validate reports a duplicate id against the file that lost" contains "$VALIDATED" '"code": *"duplicate-id"'
+check "rules-cli validate names the file that lost" contains "$VALIDATED" '"filePath": *"writing/second-rules.md"'
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule Registry Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule registry tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule registry tests passed!${NC}"
+    exit 0
+fi
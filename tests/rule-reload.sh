@@ -0,0 +1,220 @@
+#!/bin/bash
+
+# rule-reload.sh
+# Smoke tests for following rule edits: the file watcher and reload_rules
+# reload a temp source directory and notify MCP clients over stdio
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule Reload Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+RULES_DIR="$WORK_DIR/rules"
+reset_rules() {
+    rm -rf "$RULES_DIR"
+    mkdir -p "$RULES_DIR/coding/drafts"
+    printf '# Team Rules\n\nReview every change.\n' > "$RULES_DIR/coding/team-rules.md"
+    printf '# Draft Rules\n\nNot yet.\n' > "$RULES_DIR/coding/drafts/draft-rules.md"
+}
+
+# Drive one stdio session: each step sends a request and waits for its
+# response, or changes the rules and waits for a notification. Every message
+# from the server is saved to the given file.
+cat > "$WORK_DIR/session.mjs" <<'JS'
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+
+const [output, rulesDir, ...serverArgs] = process.argv.slice(2);
+const server = spawn('node', ['dist/mcp/server.js', '--rules-dir', rulesDir, ...serverArgs], { stdio: ['pipe', 'pipe', 'pipe'] });
+const messages = [];
+let stderr = '';
+let buffer = '';
+let waiting = null;
+
+const settle = () => {
+  if (waiting && waiting.done()) {
+    const { resolve } = waiting;
+    waiting = null;
+    resolve();
+  }
+};
+server.stdout.on('data', (chunk) => {
+  buffer += chunk;
+  let newline;
+  while ((newline = buffer.indexOf('\n')) >= 0) {
+    messages.push(JSON.parse(buffer.slice(0, newline)));
+    buffer = buffer.slice(newline + 1);
+  }
+  settle();
+});
+server.stderr.on('data', (chunk) => {
+  stderr += chunk;
+  settle();
+});
+
+// Resolve once the condition holds, or after five seconds regardless
+const until = (done) => new Promise((resolve) => {
+  waiting = { done, resolve };
+  setTimeout(() => { waiting = null; resolve(); }, 5000);
+  settle();
+});
+const send = (message) => server.stdin.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+let nextId = 0;
+const request = (method, params) => {
+  const id = nextId++;
+  send({ id, method, params });
+  return until(() => messages.some((message) => message.id === id));
+};
+const notified = (method, count = 1) => until(() => messages.filter((message) => message.method === method).length >= count);
+const pause = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+await request('initialize', { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'rule-reload', version: '1.0.0' } });
+send({ method: 'notifications/initialized' });
+await until(() => stderr.includes('Rules loaded successfully'));
+await request('resources/subscribe', { uri: 'rule:///coding/team-rules' });
+
+const steps = JSON.parse(fs.readFileSync(0, 'utf-8'));
+for (const step of steps) {
+  if (step.write) {
+    // Give the watcher time to settle before the next change
+    await pause(300);
+    fs.writeFileSync(`${rulesDir}/${step.write}`, step.content);
+  } else if (step.remove) {
+    await pause(300);
+    fs.rmSync(`${rulesDir}/${step.remove}`, { recursive: true });
+  } else if (step.notified) {
+    await notified(step.notified, step.count);
+  } else {
+    await request(step.method, step.params);
+  }
+}
+
+server.stdin.end();
+fs.writeFileSync(output, JSON.stringify({ messages, stderr, exitCode: await new Promise((resolve) => server.on('exit', resolve)) }));
+JS
+
+# Run a session over the rules with the given steps (JSON on stdin) and server arguments
+session() {
+    timeout 120 node "$WORK_DIR/session.mjs" "$@"
+}
+
+# Bind helpers over a saved session
+HELPERS="
+import fs from 'node:fs';
+const load = (name) => JSON.parse(fs.readFileSync('$WORK_DIR/' + name + '.json', 'utf-8'));
+const notifications = (session, method) => session.messages.filter((message) => message.method === method);
+const response = (session, id) => session.messages.find((message) => message.id === id);
+"
+
+# 1. The watcher reloads edited rules on its own
+reset_rules
+session "$WORK_DIR/watch.json" "$RULES_DIR" <<'JSON'
+[
+  { "write": "coding/new-rules.md", "content": "# New Rules\n\nAdded while serving.\n" },
+  { "notified": "notifications/resources/list_changed" },
+  { "write": "coding/team-rules.md", "content": "# Team Rules\n\nReview every change twice.\n" },
+  { "notified": "notifications/resources/updated" },
+  { "method": "resources/read", "params": { "uri": "rule:///coding/team-rules" } },
+  { "method": "resources/read", "params": { "uri": "rule:///coding/new-rules" } },
+  { "remove": "coding/drafts" },
+  { "notified": "notifications/resources/list_changed", "count": 2 },
+  { "method": "tools/call", "params": { "name": "list_rules", "arguments": { "category": "coding" } } }
+]
+JSON
+
+check_js "Adding a rule file sends resources/list_changed" "$HELPERS
+assert.ok(notifications(load('watch'), 'notifications/resources/list_changed').length >= 1);"
+
+check_js "Editing a subscribed rule sends resources/updated for its URI" "$HELPERS
+assert.deepEqual(notifications(load('watch'), 'notifications/resources/updated').map((n) => n.params.uri), ['rule:///coding/team-rules']);"
+
+check_js "Reads after an edit see the new content" "$HELPERS
+const session = load('watch');
+assert.match(response(session, 2).result.contents[0].text, /Review every change twice\./);
+assert.match(response(session, 3).result.contents[0].text, /Added while serving\./);"
+
+check_js "Removing a watched directory drops its rules and keeps the server up" "$HELPERS
+const session = load('watch');
+assert.equal(notifications(session, 'notifications/resources/list_changed').length, 2);
+const ids = JSON.parse(response(session, 4).result.content[0].text).rules.map((rule) => rule.id);
+assert.ok(ids.includes('coding/new-rules'));
+assert.ok(!ids.includes('coding/drafts/draft-rules'));
+assert.equal(session.exitCode, 0);"
+
+# 2. reload_rules reloads on request
+reset_rules
+session "$WORK_DIR/reload.json" "$RULES_DIR" --no-watch <<'JSON'
+[
+  { "write": "coding/team-rules.md", "content": "# Team Rules\n\nReview every change twice.\n" },
+  { "write": "coding/new-rules.md", "content": "# New Rules\n" },
+  { "remove": "coding/drafts/draft-rules.md" },
+  { "method": "resources/read", "params": { "uri": "rule:///coding/team-rules" } },
+  { "method": "tools/call", "params": { "name": "reload_rules", "arguments": {} } },
+  { "method": "resources/read", "params": { "uri": "rule:///coding/team-rules" } },
+  { "method": "tools/call", "params": { "name": "reload_rules", "arguments": {} } }
+]
+JSON
+
+check_js "Without a watcher, edits wait for reload_rules" "$HELPERS
+const session = load('reload');
+const read = session.messages.indexOf(response(session, 2));
+assert.match(response(session, 2).result.contents[0].text, /Review every change\.\n/);
+assert.ok(session.messages.slice(0, read).every((message) => message.method === undefined));"
+
+check_js "reload_rules reports what was added, changed and removed" "$HELPERS
+const changes = JSON.parse(response(load('reload'), 3).result.content[0].text);
+assert.deepEqual(changes.added, ['coding/new-rules']);
+assert.deepEqual(changes.changed, ['coding/team-rules']);
+assert.deepEqual(changes.removed, ['coding/drafts/draft-rules']);"
+
+check_js "reload_rules notifies the list change and the subscribed rule" "$HELPERS
+const session = load('reload');
+assert.equal(notifications(session, 'notifications/resources/list_changed').length, 1);
+assert.deepEqual(notifications(session, 'notifications/resources/updated').map((n) => n.params.uri), ['rule:///coding/team-rules']);
+assert.match(response(session, 4).result.contents[0].text, /Review every change twice\./);"
+
+check_js "reload_rules without edits changes nothing" "$HELPERS
+const changes = JSON.parse(response(load('reload'), 5).result.content[0].text);
+assert.deepEqual([changes.added, changes.changed, changes.removed], [[], [], []]);"
+
+# 3. A watcher that fails is closed instead of crashing the process
+reset_rules
+check_js "A failing watcher is closed and logged" "
+import { RuleWatcher } from './dist/utils/rule-watcher.js';
+const logged = [];
+console.error = (message) => logged.push(message);
+const watcher = new RuleWatcher('$RULES_DIR', () => {});
+watcher.start();
+const watchers = watcher.watchers;
+const count = watchers.size;
+[...watchers.values()][0].emit('error', new Error('gone'));
+assert.equal(watchers.size, count - 1);
+assert.match(logged[0], /^Stopped watching .*: gone\$/);
+watcher.stop();"
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule Reload Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule reload tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule reload tests passed!${NC}"
+    exit 0
+fi
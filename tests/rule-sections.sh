@@ -0,0 +1,103 @@
+#!/bin/bash
+
+# rule-sections.sh
+# Smoke tests for section addressing: GitHub-style anchors, lookup by anchor
+# or heading, and rules-cli get --section
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule Section Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+RULES_DIR="$WORK_DIR/rules"
+mkdir -p "$RULES_DIR/coding"
+cat > "$RULES_DIR/coding/style-rules.md" <<'MD'
+# Style Rules
+
+## Error Handling
+
+Catch narrowly.
+
+### Retries & Backoff
+
+Back off exponentially.
+
+## Examples
+
+First.
+
+## Examples
+
+Second.
+MD
+
+rules_cli() {
+    timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" "$@"
+}
+
+# Load the rule above and bind a helper returning the body of a section
+SETUP="
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ sources: '$RULES_DIR' });
+const body = (anchor) => analyzer.getRuleSection('coding/style-rules', anchor)?.body;
+"
+
+check_js "Headings get GitHub-style anchors, unique within the rule" "$SETUP
+const anchors = [];
+const walk = (sections) => sections.forEach((s) => { if (s.level > 0) anchors.push(s.anchor); walk(s.children); });
+walk(analyzer.getRule('coding/style-rules').sections);
+assert.deepEqual(anchors, ['style-rules', 'error-handling', 'retries--backoff', 'examples', 'examples-1']);"
+
+check_js "Sections are found by anchor, #anchor or heading text" "$SETUP
+assert.equal(body('retries--backoff'), 'Back off exponentially.');
+assert.equal(body('#retries--backoff'), 'Back off exponentially.');
+assert.equal(body('Retries & Backoff'), 'Back off exponentially.');"
+
+check_js "Repeated headings are told apart by their suffix" "$SETUP
+assert.equal(body('examples'), 'First.');
+assert.equal(body('examples-1'), 'Second.');"
+
+check_js "Unknown and empty anchors find nothing" "$SETUP
+assert.equal(analyzer.getRuleSection('coding/style-rules', 'naming'), undefined);
+assert.equal(analyzer.getRuleSection('coding/style-rules', '#'), undefined);
+assert.equal(analyzer.getRuleSection('coding/unknown', 'examples'), undefined);"
+
+check "get --section --raw prints the section with its subsections" \
+    test "$(rules_cli get coding/style-rules --section error-handling --raw)" = "$(printf '## Error Handling\n\nCatch narrowly.\n\n### Retries & Backoff\n\nBack off exponentially.')"
+
+rules_cli get coding/style-rules --section 'Error Handling' --format json > "$WORK_DIR/section.json"
+check_js "get --section --format json outlines the subsections" "
+import fs from 'node:fs';
+const section = JSON.parse(fs.readFileSync('$WORK_DIR/section.json', 'utf-8'));
+assert.equal(section.anchor, 'error-handling');
+assert.deepEqual(section.subsections.map((s) => s.anchor), ['retries--backoff']);"
+
+check "get --section fails on an unknown anchor" fails rules_cli get coding/style-rules --section naming
+check "get --section lists the available anchors" contains "$(rules_cli get coding/style-rules --section naming 2>&1)" '  retries--backoff'
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule Section Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule section tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule section tests passed!${NC}"
+    exit 0
+fi
@@ -0,0 +1,142 @@
+#!/bin/bash
+
+# rule-validate.sh
+# Smoke tests for rules-cli validate: diagnostics, output formats and exit
+# codes, against temporary rules directories layered over the bundled rules
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rule Validation Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+
+# Whether the JSON diagnostics of validating a rules directory include the
+# code at the given file, line and column
+reports() {
+    timeout 60 node dist/cli/index.js --rules-dir "$1" validate --format json 2>/dev/null | node -e "
+const [code, file, line, column] = process.argv.slice(1);
+const { diagnostics } = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+process.exit(diagnostics.some((d) =>
+  d.code === code && d.filePath === file && (!line || d.line === Number(line)) && (!column || d.column === Number(column))
+) ? 0 : 1);
+" "$2" "$3" "$4" "$5"
+}
+
+# How many diagnostics validating a rules directory reports with the message
+count_reports() {
+    timeout 60 node dist/cli/index.js --rules-dir "$1" validate --format json 2>/dev/null | node -e "
+const { diagnostics } = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+console.log(diagnostics.filter((d) => d.message.startsWith(process.argv[1])).length);
+" "$2"
+}
+
+check "The bundled rules validate without errors" timeout 60 node dist/cli/index.js validate
+
+RULES_DIR="$WORK_DIR/rules"
+mkdir -p "$RULES_DIR/coding"
+
+cat > "$RULES_DIR/coding/invalid-rules.md" <<'MD'
+---
+description: A rule with problems of every kind
+category: writing
+tags: [Not-Lowercase]
+related: [coding/no-such-rules]
+surprise: true
+---
+# Invalid Rules
+MD
+
+VALIDATED="$(timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" validate 2>/dev/null)"
+STATUS=$?
+check "Errors fail the validation with exit code 1" test "$STATUS" = 1
+check "A bad tag is reported at its line" reports "$RULES_DIR" invalid-value coding/invalid-rules.md 4 1
+check "An unknown reference is reported at its list item" reports "$RULES_DIR" unknown-reference coding/invalid-rules.md 5 1
+check "An unknown field is reported" reports "$RULES_DIR" unknown-field coding/invalid-rules.md 6 1
+check "A category that disagrees with the directory is reported" reports "$RULES_DIR" category-mismatch coding/invalid-rules.md 3 1
+check "Text output gives the file, line and column of each problem" contains "$VALIDATED" '^coding/invalid-rules.md:4:1 error tags\[0\]'
+check "Text output ends with the counts" contains "$VALIDATED" '^[0-9]* error(s), [0-9]* warning(s)$'
+
+check "JSON output counts errors and warnings" sh -c "
+timeout 60 node dist/cli/index.js --rules-dir '$RULES_DIR' validate --format json 2>/dev/null | node -e \"
+const { summary, diagnostics } = JSON.parse(require('fs').readFileSync(0, 'utf-8'));
+const count = (severity) => diagnostics.filter((d) => d.severity === severity).length;
+process.exit(summary.errors === count('error') && summary.warnings === count('warning') && summary.errors > 0 ? 0 : 1);
+\""
+check "GitHub output annotates each problem" contains "$(timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" validate --format github 2>/dev/null)" '^::error file=coding/invalid-rules.md,line=4'
+
+timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" validate --format nope >/dev/null 2>&1
+check "An unknown output format exits with code 2" test $? = 2
+
+rm "$RULES_DIR/coding/invalid-rules.md"
+cat > "$RULES_DIR/coding/warned-rules.md" <<'MD'
+---
+description: A rule with only a warning
+tags: [testing]
+surprise: true
+---
+# Warned Rules
+MD
+check "Warnings alone do not fail the validation" timeout 60 node dist/cli/index.js --rules-dir "$RULES_DIR" validate
+
+LAYER_DIR="$WORK_DIR/layer"
+mkdir -p "$LAYER_DIR/coding"
+
+cat > "$LAYER_DIR/coding/team-python-rules.md" <<'MD'
+---
+extends: coding/python-rules
+priority: urgent
+references:
+  - title: Style guide
+    url: not a url
+---
+## Team Conventions
+
+- Format with ruff
+MD
+
+cat > "$LAYER_DIR/coding/git-rules.md" <<'MD'
+---
+disabled: true
+difficulty: impossible
+---
+MD
+
+cat > "$LAYER_DIR/coding/orphan-rules.md" <<'MD'
+---
+extends: coding/no-such-rules
+---
+## Orphaned Section
+MD
+
+check "A bad field of an extension file is reported at its line" reports "$LAYER_DIR" invalid-enum coding/team-python-rules.md 3 1
+check "A bad URL of an extension file is reported at its line" reports "$LAYER_DIR" invalid-value coding/team-python-rules.md 6 5
+check "A bad URL is reported once" test "$(count_reports "$LAYER_DIR" 'references[0].url')" = 1
+check "A bad field of a disabling file is reported at its line" reports "$LAYER_DIR" invalid-enum coding/git-rules.md 3 1
+check "Nothing is reported against the extended rule's file" fails reports "$LAYER_DIR" invalid-enum coding/python-rules.md
+check "Extending an unknown rule is reported" reports "$LAYER_DIR" unknown-reference coding/orphan-rules.md 2 1
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rule Validation Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rule validation tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rule validation tests passed!${NC}"
+    exit 0
+fi
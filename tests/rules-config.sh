@@ -0,0 +1,168 @@
+#!/bin/bash
+
+# rules-config.sh
+# Smoke tests for the project configuration: finding .rulesrc in parent
+# directories, the origins shown by rules-cli config show, and invalid configs
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Rules Config Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+WORK_DIR="$(mktemp -d)"
+trap 'rm -rf "$WORK_DIR"' EXIT
+export RULES_D_CACHE=0
+unset RULES_D_PATH
+
+# A project with its config at the root, sources relative to it, and a
+# directory nested a few levels below
+PROJECT_DIR="$WORK_DIR/project"
+NESTED_DIR="$PROJECT_DIR/src/app/handlers"
+mkdir -p "$NESTED_DIR" "$PROJECT_DIR/team-rules/coding" "$WORK_DIR/env-rules" "$WORK_DIR/flag-rules"
+cat > "$PROJECT_DIR/.rulesrc" <<'JSON'
+{
+  "context": { "type": "coding", "language": "python" },
+  "pinned": ["coding/python-rules"],
+  "sources": ["team-rules"],
+  "export": { "targetDir": "generated" }
+}
+JSON
+
+# Runs the CLI from a directory, as a user in that directory would
+rules_cli_in() {
+    local dir="$1"
+    shift
+    (cd "$dir" && timeout 60 node "$REPO_ROOT/dist/cli/index.js" "$@")
+}
+
+# 1. Discovery
+SETUP="
+import fs from 'node:fs';
+import path from 'node:path';
+import { findConfigFile, loadConfig } from './dist/config/rules-config.js';
+const projectDir = '$PROJECT_DIR';
+const nestedDir = '$NESTED_DIR';"
+
+check_js "The config of a parent directory is found from a nested one" "$SETUP
+assert.equal(findConfigFile(nestedDir), path.join(projectDir, '.rulesrc'));
+assert.equal(findConfigFile(projectDir), path.join(projectDir, '.rulesrc'));"
+
+check_js "No config is found outside the project" "$SETUP
+assert.equal(findConfigFile('$WORK_DIR'), undefined);
+const resolved = loadConfig({ cwd: '$WORK_DIR', builtinDir: '.', env: {} });
+assert.equal(resolved.filePath, undefined);
+assert.deepEqual(resolved.context, {});
+assert.equal(resolved.origins.pinned, 'default');"
+
+check_js "The nearest config wins, and .rulesrc.json is found too" "$SETUP
+const dir = path.join(projectDir, 'src');
+fs.writeFileSync(path.join(dir, '.rulesrc.json'), JSON.stringify({ pinned: ['general/rules'] }));
+try {
+  assert.equal(findConfigFile(nestedDir), path.join(dir, '.rulesrc.json'));
+  const resolved = loadConfig({ cwd: nestedDir, builtinDir: '.', env: {} });
+  assert.deepEqual(resolved.pinned, ['general/rules']);
+  assert.deepEqual(resolved.context, {});
+} finally {
+  fs.rmSync(path.join(dir, '.rulesrc.json'));
+}"
+
+check_js ".rulesrc is preferred over .rulesrc.json in the same directory" "$SETUP
+fs.writeFileSync(path.join(projectDir, '.rulesrc.json'), '{}');
+try {
+  assert.equal(findConfigFile(nestedDir), path.join(projectDir, '.rulesrc'));
+} finally {
+  fs.rmSync(path.join(projectDir, '.rulesrc.json'));
+}"
+
+# 2. rules-cli config show, from the nested directory
+rules_cli_in "$NESTED_DIR" config show --format json > "$WORK_DIR/config.json"
+rules_cli_in "$NESTED_DIR" config show > "$WORK_DIR/config.txt"
+RULES_D_PATH="$WORK_DIR/env-rules" rules_cli_in "$NESTED_DIR" --rules-dir "$WORK_DIR/flag-rules" config show --format json > "$WORK_DIR/config-layers.json"
+rules_cli_in "$WORK_DIR" config show > "$WORK_DIR/config-none.txt"
+
+HELPERS="
+import fs from 'node:fs';
+const output = (name) => fs.readFileSync('$WORK_DIR/' + name, 'utf8');
+const file = '$PROJECT_DIR/.rulesrc';"
+
+check_js "config show reads the config of a parent directory" "$HELPERS
+const resolved = JSON.parse(output('config.json'));
+assert.equal(resolved.filePath, file);
+assert.deepEqual(resolved.context, { type: 'coding', language: 'python' });
+assert.deepEqual(resolved.pinned, ['coding/python-rules']);"
+
+check_js "Values set in the config come from the file, the rest are defaults" "$HELPERS
+const { origins } = JSON.parse(output('config.json'));
+assert.equal(origins['context.type'], file);
+assert.equal(origins['context.language'], file);
+assert.equal(origins.pinned, file);
+assert.equal(origins['export.targetDir'], file);
+assert.equal(origins['exclude.rules'], 'default');
+assert.equal(origins['export.formats'], 'default');"
+
+check_js "Config sources and export.targetDir are relative to the config file" "$HELPERS
+const resolved = JSON.parse(output('config.json'));
+assert.deepEqual(resolved.sources.map((source) => source.path), ['$REPO_ROOT', '$PROJECT_DIR/team-rules']);
+assert.equal(resolved.origins['sources[0]'], 'built-in');
+assert.equal(resolved.origins['sources[1]'], file);
+assert.equal(resolved.export.targetDir, '$PROJECT_DIR/generated');"
+
+check_js "RULES_D_PATH and --rules-dir sources are layered above the config's" "$HELPERS
+const resolved = JSON.parse(output('config-layers.json'));
+assert.deepEqual(resolved.sources.map((source) => source.path), ['$REPO_ROOT', '$PROJECT_DIR/team-rules', '$WORK_DIR/env-rules', '$WORK_DIR/flag-rules']);
+assert.deepEqual(resolved.sources.map((_, index) => resolved.origins['sources[' + index + ']']), ['built-in', file, 'RULES_D_PATH', '--rules-dir']);"
+
+check "config show prints the config file" contains "$(cat "$WORK_DIR/config.txt")" "^Config file: $PROJECT_DIR/.rulesrc$"
+check "config show prints the origin of each value" contains "$(cat "$WORK_DIR/config.txt")" "^context.language = python  ($PROJECT_DIR/.rulesrc)$"
+check "config show marks defaults" contains "$(cat "$WORK_DIR/config.txt")" "^exclude.rules = (none)  (default)$"
+check "config show without a config says none was found" contains "$(cat "$WORK_DIR/config-none.txt")" "^Config file: (none found)$"
+
+# 3. Invalid configs stop the CLI and the MCP server with the problem
+BROKEN_DIR="$WORK_DIR/broken"
+mkdir -p "$BROKEN_DIR/nested"
+printf '{ "pinned": [' > "$BROKEN_DIR/.rulesrc"
+rules_cli_in "$BROKEN_DIR/nested" config show > /dev/null 2> "$WORK_DIR/broken-json.err"
+BROKEN_JSON_STATUS=$?
+
+INVALID_DIR="$WORK_DIR/invalid"
+mkdir -p "$INVALID_DIR"
+printf '{ "context": { "type": "cooking" }, "pinned": "coding/python-rules", "colour": "blue" }' > "$INVALID_DIR/.rulesrc"
+rules_cli_in "$INVALID_DIR" list > /dev/null 2> "$WORK_DIR/invalid.err"
+INVALID_STATUS=$?
+(cd "$INVALID_DIR" && timeout 60 node "$REPO_ROOT/dist/mcp/server.js" --no-watch < /dev/null > /dev/null 2> "$WORK_DIR/invalid-server.err")
+INVALID_SERVER_STATUS=$?
+
+check "Malformed JSON exits with status 1" test "$BROKEN_JSON_STATUS" -eq 1
+check "Malformed JSON is reported with the config path" contains "$(cat "$WORK_DIR/broken-json.err")" "^Invalid config $BROKEN_DIR/.rulesrc: "
+check "An invalid config exits with status 1" test "$INVALID_STATUS" -eq 1
+check_js "Every problem of an invalid config is reported by path" "$HELPERS
+const message = output('invalid.err').trim();
+assert.ok(message.startsWith('Invalid config $INVALID_DIR/.rulesrc: '), message);
+assert.match(message, /context\.type: /);
+assert.match(message, /pinned: Expected array, received string/);
+assert.match(message, /Unrecognized key\(s\) in object: 'colour'/);"
+check "The MCP server stops on an invalid config" test "$INVALID_SERVER_STATUS" -eq 1
+check "The MCP server reports the invalid config" contains "$(cat "$WORK_DIR/invalid-server.err")" "^Invalid config $INVALID_DIR/.rulesrc: "
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Rules Config Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Rules config tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All rules config tests passed!${NC}"
+    exit 0
+fi
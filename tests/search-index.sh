@@ -0,0 +1,85 @@
+#!/bin/bash
+
+# search-index.sh
+# Smoke tests for full-text search: BM25 ranking with field boosts, the
+# query syntax and snippets, against in-memory rule files
+
+# Get script directory
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+source "$SCRIPT_DIR/lib.sh"
+
+echo "================================================"
+echo "  rules.d - Search Index Tests"
+echo "================================================"
+echo ""
+
+cd "$REPO_ROOT" || exit 1
+export RULES_D_CACHE=0
+
+# Load the rules below and bind a helper returning the rule ids of a search
+SETUP="
+import { loadRules } from './dist/index.js';
+const analyzer = await loadRules({ files: {
+  'coding/caching-rules.md': '# Caching Rules\n\n## Invalidation\n\nExpire cached entries when the source data changes.\n\n## Keys\n\nBuild keys from every input.\n',
+  'coding/logging-rules.md': '# Logging Rules\n\n## Levels\n\nLog cache misses at debug level. Never log secrets.\n\n## Format\n\nUse structured JSON lines for every log entry.\n',
+  'coding/database-rules.md': '# Database Rules\n\n## Queries\n\nUse parameterized queries. A cache in front of the database needs invalidation.\n',
+} });
+const ids = (query, options) => analyzer.search(query, options).map((hit) => hit.ruleId);
+"
+
+check_js "A term in a heading outranks the same term in body text" "$SETUP
+assert.deepEqual(ids('invalidation'), ['coding/caching-rules', 'coding/database-rules']);"
+
+check_js "Each rule is one hit, at its best-matching section" "$SETUP
+const hits = analyzer.search('invalidation');
+assert.equal(hits.find((hit) => hit.ruleId === 'coding/caching-rules').anchor, 'invalidation');
+assert.deepEqual(hits.find((hit) => hit.ruleId === 'coding/caching-rules').headingPath, ['Caching Rules', 'Invalidation']);
+assert.ok(hits[0].score > hits[1].score);"
+
+check_js "Terms are ANDed" "$SETUP
+assert.deepEqual(ids('parameterized invalidation'), ['coding/database-rules']);"
+
+check_js "OR matches either term" "$SETUP
+assert.deepEqual(ids('secrets OR parameterized').sort(), ['coding/database-rules', 'coding/logging-rules']);"
+
+check_js "NOT and -term exclude matches" "$SETUP
+assert.deepEqual(ids('invalidation -parameterized'), ['coding/caching-rules']);
+assert.deepEqual(ids('invalidation NOT parameterized'), ['coding/caching-rules']);"
+
+check_js "Quoted phrases match words in order" "$SETUP
+assert.deepEqual(ids('\"structured json\"'), ['coding/logging-rules']);
+assert.deepEqual(ids('\"json structured\"'), []);"
+
+check_js "Plurals match their singular" "$SETUP
+assert.deepEqual(ids('secret'), ['coding/logging-rules']);"
+
+check_js "Snippets highlight the matching words" "$SETUP
+const [hit] = analyzer.search('parameterized');
+assert.match(hit.snippet, /\*\*parameterized\*\*/);"
+
+check_js "Searches can be limited and restricted to rules" "$SETUP
+assert.equal(ids('invalidation', { limit: 1 }).length, 1);
+assert.deepEqual(ids('invalidation', { ruleIds: ['coding/database-rules'] }), ['coding/database-rules']);"
+
+check_js "An empty query finds nothing" "$SETUP
+assert.deepEqual(ids(''), []);"
+
+check "rules-cli search finds a bundled rule" contains "$(timeout 60 node dist/cli/index.js search 'error handling' --quiet)" 'coding/python-rules'
+
+# Summary
+echo ""
+echo "================================================"
+echo "  Search Index Test Summary"
+echo "================================================"
+echo -e "  ${GREEN}Passed:${NC}   $PASSED"
+echo -e "  ${RED}Failed:${NC}   $FAILED"
+echo ""
+
+if [ $FAILED -gt 0 ]; then
+    echo -e "${RED}Search index tests failed with $FAILED errors${NC}"
+    exit 1
+else
+    echo -e "${GREEN}All search index tests passed!${NC}"
+    exit 0
+fi
@@ -64,6 +64,34 @@ if [ -f "$SCRIPT_DIR/check-links.sh" ]; then
     run_test "Link Validation" "$SCRIPT_DIR/check-links.sh"
 fi
 
+# Test 4: Build, then the behavioural tests against the compiled package
+if run_test "TypeScript Build" "$SCRIPT_DIR/build.sh"; then
+    run_test "Rule Registry" "$SCRIPT_DIR/rule-registry.sh"
+    run_test "Search Index" "$SCRIPT_DIR/search-index.sh"
+    run_test "Rule Sections" "$SCRIPT_DIR/rule-sections.sh"
+    run_test "Relevance Scoring" "$SCRIPT_DIR/relevance-scoring.sh"
+    run_test "Project Detection" "$SCRIPT_DIR/project-detect.sh"
+    run_test "Rule Export" "$SCRIPT_DIR/rule-export.sh"
+    run_test "Rule Reload" "$SCRIPT_DIR/rule-reload.sh"
+    run_test "Bundle Inheritance" "$SCRIPT_DIR/bundle-inheritance.sh"
+    run_test "Rule Graph" "$SCRIPT_DIR/rule-graph.sh"
+    run_test "Resource URI" "$SCRIPT_DIR/resource-uri.sh"
+    run_test "Token Budget" "$SCRIPT_DIR/composer-budget.sh"
+    run_test "HTTP Transport" "$SCRIPT_DIR/http-transport.sh"
+    run_test "Query Engine" "$SCRIPT_DIR/query-engine.sh"
+    run_test "MCP Errors" "$SCRIPT_DIR/mcp-errors.sh"
+    run_test "MCP Prompts" "$SCRIPT_DIR/mcp-prompts.sh"
+    run_test "Compliance Check" "$SCRIPT_DIR/compliance-check.sh"
+    run_test "Parse Cache" "$SCRIPT_DIR/parse-cache.sh"
+    run_test "Library API" "$SCRIPT_DIR/library-api.sh"
+    run_test "Rules Config" "$SCRIPT_DIR/rules-config.sh"
+    run_test "Rule Validation" "$SCRIPT_DIR/rule-validate.sh"
+    run_test "Rule Lint" "$SCRIPT_DIR/rule-lint.sh"
+    run_test "Rule Classifier" "$SCRIPT_DIR/rule-classifier.sh"
+    run_test "Rule History" "$SCRIPT_DIR/rule-history.sh"
+    run_test "CLI Output" "$SCRIPT_DIR/cli-output.sh"
+fi
+
 # Calculate duration
 END_TIME=$(date +%s)
 DURATION=$((END_TIME - START_TIME))
@@ -23,10 +23,10 @@ echo "  rules.d - Rule File Validation"
 echo "================================================"
 echo ""
 
-# Function to check if a markdown file has a title
+# Function to check if a markdown file has a title (after any YAML frontmatter)
 check_title() {
     local file="$1"
-    if head -1 "$file" | grep -q "^# "; then
+    if awk 'NR == 1 && /^---$/ { fm = 1; next } fm && /^---$/ { fm = 0; next } !fm { print; exit }' "$file" | grep -q "^# "; then
         return 0
     else
         return 1